@@ -1,9 +1,112 @@
-import { Body, Controller, Post, UseGuards, BadRequestException, ParseUUIDPipe, Get, Param } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Post,
+  UseGuards,
+  BadRequestException,
+  ParseUUIDPipe,
+  Get,
+  Param,
+  Query,
+} from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
+import { SearchSnippet, parseHeadline } from '../chat/search-snippet';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
 
+/** Query string of GET /admin/search; every filter is optional. */
+export interface AdminSearchQuery {
+  q?: string;
+  email?: string;
+  model?: string;
+  role?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+  pageSize?: string;
+}
+
+export interface AdminSearchResult {
+  messageId: number;
+  chatId: string;
+  chatTitle: string | null;
+  userId: string;
+  userEmail: string | null;
+  role: string;
+  model: string | null;
+  snippet: SearchSnippet;
+  createdAt: string;
+}
+
+/** Row returned by the `admin_search_messages` SQL function. */
+interface AdminSearchRow {
+  total: number;
+  message_id: number | null;
+  chat_id: string;
+  chat_title: string | null;
+  user_id: string;
+  user_email: string | null;
+  role: string;
+  model: string | null;
+  snippet: string;
+  created_at: string;
+}
+
+/** The `admin_search_messages` SQL function, as called through `rpc()`. */
+interface SearchMessages {
+  Args: {
+    p_query: string | null;
+    p_email: string | null;
+    p_model: string | null;
+    p_role: string | null;
+    p_from: string | null;
+    p_to: string | null;
+    p_limit: number;
+    p_offset: number;
+  };
+  Returns: AdminSearchRow[];
+}
+
+const MESSAGE_ROLES = ['user', 'assistant', 'system', 'tool'];
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * A query parameter's trimmed value, or null when it is missing or blank.
+ * Parameters given more than once arrive as arrays and are refused.
+ */
+function optional(value: unknown, name: string): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'string') {
+    throw new BadRequestException(`${name} must be given once`);
+  }
+  return value.trim() || null;
+}
+
+function parseDate(value: unknown, name: string): string | null {
+  const text = optional(value, name);
+  if (!text) return null;
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    throw new BadRequestException(`${name} must be an ISO date`);
+  }
+  return date.toISOString();
+}
+
+function parsePositiveInt(
+  value: unknown,
+  name: string,
+  fallback: number,
+): number {
+  const text = optional(value, name);
+  if (!text) return fallback;
+  const n = Number(text);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new BadRequestException(`${name} must be a positive integer`);
+  }
+  return n;
+}
+
 @Controller('admin')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class AdminController {
@@ -99,7 +202,7 @@ export class AdminController {
     const { data, error } = await this.supabase
       .getClient()
       .from('messages')
-      .select('role, content, model, created_at')
+      .select('id, role, content, model, created_at')
       .eq('chat_id', chatId)
       .order('created_at', { ascending: true });
 
@@ -110,5 +213,58 @@ export class AdminController {
     return { messages: data };
   }
 
+  /**
+   * GET /admin/search – search messages across all users.
+   * Query: q, email (substring), model, role (message role), from / to
+   * (ISO dates, `to` exclusive), page (1-based), pageSize (max 100).
+   */
+  @Roles('admin')
+  @Get('search')
+  async search(@Query() query: AdminSearchQuery) {
+    const role = optional(query.role, 'role');
+    if (role && !MESSAGE_ROLES.includes(role)) {
+      throw new BadRequestException(
+        `role must be one of ${MESSAGE_ROLES.join(', ')}`,
+      );
+    }
+    const page = parsePositiveInt(query.page, 'page', 1);
+    const pageSize = Math.min(
+      parsePositiveInt(query.pageSize, 'pageSize', 20),
+      MAX_PAGE_SIZE,
+    );
 
+    const { data, error } = await this.supabase
+      .getClient()
+      .rpc<'admin_search_messages', SearchMessages>('admin_search_messages', {
+        p_query: optional(query.q, 'q'),
+        p_email: optional(query.email, 'email'),
+        p_model: optional(query.model, 'model'),
+        p_role: role,
+        p_from: parseDate(query.from, 'from'),
+        p_to: parseDate(query.to, 'to'),
+        p_limit: pageSize,
+        p_offset: (page - 1) * pageSize,
+      });
+
+    if (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const rows = data ?? [];
+    const results: AdminSearchResult[] = rows
+      .filter((row) => row.message_id !== null)
+      .map((row) => ({
+        messageId: row.message_id!,
+        chatId: row.chat_id,
+        chatTitle: row.chat_title,
+        userId: row.user_id,
+        userEmail: row.user_email,
+        role: row.role,
+        model: row.model,
+        snippet: parseHeadline(row.snippet ?? ''),
+        createdAt: row.created_at,
+      }));
+
+    return { results, total: Number(rows[0]?.total ?? 0), page, pageSize };
+  }
 }
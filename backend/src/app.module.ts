@@ -4,11 +4,25 @@ import { SupabaseModule } from './supabase/supabase.module';
 import { AuthModule } from './auth/auth.module';
 import { AdminModule } from './admin/admin.module';
 import { ChatModule } from './chat/chat.module';
+import { SettingsModule } from './settings/settings.module';
+import { AssistantsModule } from './assistants/assistants.module';
+import { KnowledgeModule } from './knowledge/knowledge.module';
+import { MemoryModule } from './memory/memory.module';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 
 @Module({
-  imports: [ConfigModule.forRoot({ isGlobal: true }), SupabaseModule, AuthModule, AdminModule, ChatModule],
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    SupabaseModule,
+    AuthModule,
+    AdminModule,
+    ChatModule,
+    SettingsModule,
+    AssistantsModule,
+    KnowledgeModule,
+    MemoryModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthedRequest } from '../auth/authed-request';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AssistantInput, AssistantsService } from './assistants.service';
+
+@Controller('assistants')
+@UseGuards(JwtAuthGuard)
+export class AssistantsController {
+  constructor(private readonly assistants: AssistantsService) {}
+
+  /**
+   * GET /assistants – the caller's assistants and the shared ones, and whether
+   * the caller may share assistants.
+   */
+  @Get()
+  async listAssistants(@Req() req: AuthedRequest) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    const [assistants, canPublish] = await Promise.all([
+      this.assistants.list(userId),
+      this.assistants.canPublish(userId),
+    ]);
+    return { assistants, canPublish };
+  }
+
+  /** POST /assistants – create an assistant; `shared` is for admins only. */
+  @Post()
+  async createAssistant(
+    @Body() body: AssistantInput,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { assistant: await this.assistants.create(userId, body ?? {}) };
+  }
+
+  /** PATCH /assistants/:id – update the given fields. */
+  @Patch(':id')
+  async updateAssistant(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: AssistantInput,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return {
+      assistant: await this.assistants.update(id, userId, body ?? {}),
+    };
+  }
+
+  /** DELETE /assistants/:id */
+  @Delete(':id')
+  async deleteAssistant(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    await this.assistants.remove(id, userId);
+    return { success: true };
+  }
+}
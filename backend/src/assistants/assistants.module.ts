@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { LlmModule } from '../llm/llm.module';
+import { AssistantsController } from './assistants.controller';
+import { AssistantsService } from './assistants.service';
+
+@Module({
+  imports: [SupabaseModule, LlmModule],
+  providers: [AssistantsService],
+  controllers: [AssistantsController],
+  exports: [AssistantsService],
+})
+export class AssistantsModule {}
@@ -0,0 +1,312 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ModelRegistry } from '../llm/model-registry';
+
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 300;
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+const MAX_STARTERS = 4;
+const MAX_STARTER_LENGTH = 200;
+
+export interface Assistant {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string | null;
+  system_prompt: string;
+  /** Model new chats start with; `null` for the user's default model. */
+  model: string | null;
+  /** `null` leaves the provider's default. */
+  temperature: number | null;
+  /** Prompts offered on an empty chat. */
+  starters: string[];
+  /** Published to every user by an admin. */
+  shared: boolean;
+  created_at: string;
+}
+
+/** An assistant as listed to a user. */
+export interface AssistantSummary extends Assistant {
+  /** Whether the caller may change or delete it. */
+  editable: boolean;
+}
+
+/** Body of POST and PATCH /assistants. */
+export interface AssistantInput {
+  name?: string;
+  description?: string | null;
+  systemPrompt?: string;
+  model?: string | null;
+  temperature?: number | null;
+  starters?: string[];
+  shared?: boolean;
+}
+
+/**
+ * Assistants users start chats from. Everyone manages their own; admins may
+ * also share assistants with all users and manage the shared ones.
+ */
+@Injectable()
+export class AssistantsService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly models: ModelRegistry,
+  ) {}
+
+  /** The caller's own assistants and the shared ones, by name. */
+  async list(userId: string): Promise<AssistantSummary[]> {
+    const client = this.supabase.getClient();
+    const [own, shared, admin] = await Promise.all([
+      client.from('assistants').select('*').eq('owner_id', userId),
+      client.from('assistants').select('*').eq('shared', true),
+      this.isAdmin(userId),
+    ]);
+
+    if (own.error) {
+      throw own.error;
+    }
+    if (shared.error) {
+      throw shared.error;
+    }
+
+    const byId = new Map<string, Assistant>();
+    for (const assistant of [
+      ...(own.data as Assistant[]),
+      ...(shared.data as Assistant[]),
+    ]) {
+      byId.set(assistant.id, assistant);
+    }
+
+    return [...byId.values()]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((assistant) => ({
+        ...assistant,
+        editable: canEdit(assistant, userId, admin),
+      }));
+  }
+
+  /** An assistant the caller may use. Throws a 404 otherwise. */
+  async get(id: string, userId: string): Promise<Assistant> {
+    const assistant = await this.find(id);
+    if (!assistant || (!assistant.shared && assistant.owner_id !== userId)) {
+      throw new NotFoundException('Assistant not found');
+    }
+    return assistant;
+  }
+
+  /**
+   * Look an assistant up without checking who may use it, e.g. for a chat
+   * that was started with it. Resolves to `null` when it was deleted.
+   */
+  async find(id: string): Promise<Assistant | null> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('assistants')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle<Assistant>();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /** Whether the caller may publish assistants to everyone. */
+  canPublish(userId: string): Promise<boolean> {
+    return this.isAdmin(userId);
+  }
+
+  async create(userId: string, input: AssistantInput): Promise<Assistant> {
+    if (typeof input.name !== 'string') {
+      throw new BadRequestException('name is required');
+    }
+    const row = this.toRow(input);
+    if (row.shared && !(await this.isAdmin(userId))) {
+      throw new ForbiddenException('Only admins can share assistants');
+    }
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('assistants')
+      .insert({
+        system_prompt: '',
+        model: null,
+        temperature: null,
+        starters: [],
+        shared: false,
+        description: null,
+        ...row,
+        owner_id: userId,
+      })
+      .select()
+      .single<Assistant>();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    input: AssistantInput,
+  ): Promise<Assistant> {
+    const assistant = await this.get(id, userId);
+    const admin = await this.isAdmin(userId);
+    if (!canEdit(assistant, userId, admin)) {
+      throw new ForbiddenException('This assistant is read-only');
+    }
+    const row = this.toRow(input);
+    if (row.shared !== undefined && row.shared !== assistant.shared && !admin) {
+      throw new ForbiddenException('Only admins can share assistants');
+    }
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('assistants')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .single<Assistant>();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  /** Delete an assistant; chats started with it carry on without it. */
+  async remove(id: string, userId: string): Promise<void> {
+    const assistant = await this.get(id, userId);
+    if (!canEdit(assistant, userId, await this.isAdmin(userId))) {
+      throw new ForbiddenException('This assistant is read-only');
+    }
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('assistants')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /** Validate the given fields and map them to columns. */
+  private toRow(input: AssistantInput): Partial<Assistant> {
+    const row: Partial<Assistant> = {};
+    const { name, description, systemPrompt, model, temperature, starters } =
+      input;
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        throw new BadRequestException('name must be a non-empty string');
+      }
+      if (name.trim().length > MAX_NAME_LENGTH) {
+        throw new BadRequestException(
+          `name is limited to ${MAX_NAME_LENGTH} characters`,
+        );
+      }
+      row.name = name.trim();
+    }
+
+    if (description !== undefined) {
+      if (description !== null && typeof description !== 'string') {
+        throw new BadRequestException('description must be a string');
+      }
+      if ((description?.length ?? 0) > MAX_DESCRIPTION_LENGTH) {
+        throw new BadRequestException(
+          `description is limited to ${MAX_DESCRIPTION_LENGTH} characters`,
+        );
+      }
+      row.description = description?.trim() || null;
+    }
+
+    if (systemPrompt !== undefined) {
+      if (typeof systemPrompt !== 'string') {
+        throw new BadRequestException('systemPrompt must be a string');
+      }
+      if (systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+        throw new BadRequestException(
+          `systemPrompt is limited to ${MAX_SYSTEM_PROMPT_LENGTH} characters`,
+        );
+      }
+      row.system_prompt = systemPrompt.trim();
+    }
+
+    if (model !== undefined) {
+      if (model !== null && !this.models.get(model)) {
+        throw new BadRequestException(`Unknown model "${model}"`);
+      }
+      row.model = model;
+    }
+
+    if (temperature !== undefined) {
+      if (
+        temperature !== null &&
+        (typeof temperature !== 'number' ||
+          !(temperature >= 0 && temperature <= 2))
+      ) {
+        throw new BadRequestException('temperature must be between 0 and 2');
+      }
+      row.temperature = temperature;
+    }
+
+    if (starters !== undefined) {
+      if (
+        !Array.isArray(starters) ||
+        starters.some((s) => typeof s !== 'string')
+      ) {
+        throw new BadRequestException('starters must be an array of strings');
+      }
+      const cleaned = starters.map((s) => s.trim()).filter(Boolean);
+      if (cleaned.length > MAX_STARTERS) {
+        throw new BadRequestException(
+          `starters is limited to ${MAX_STARTERS} prompts`,
+        );
+      }
+      if (cleaned.some((s) => s.length > MAX_STARTER_LENGTH)) {
+        throw new BadRequestException(
+          `starters are limited to ${MAX_STARTER_LENGTH} characters each`,
+        );
+      }
+      row.starters = cleaned;
+    }
+
+    if (input.shared !== undefined) {
+      if (typeof input.shared !== 'boolean') {
+        throw new BadRequestException('shared must be a boolean');
+      }
+      row.shared = input.shared;
+    }
+
+    return row;
+  }
+
+  private async isAdmin(userId: string): Promise<boolean> {
+    const { data } = await this.supabase
+      .getClient()
+      .from('profile')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return data?.role === 'admin';
+  }
+}
+
+/** Owners edit their assistants; admins also edit the shared ones. */
+function canEdit(assistant: Assistant, userId: string, admin: boolean) {
+  return assistant.owner_id === userId || (assistant.shared && admin);
+}
@@ -0,0 +1,12 @@
+/**
+ * Where uploaded files live. Rows in `attachments` only keep the path; the
+ * bytes go to Supabase Storage in production or to local disk in development.
+ */
+export interface AttachmentStorage {
+  put(path: string, data: Buffer, contentType: string): Promise<void>;
+  get(path: string): Promise<Buffer>;
+  remove(paths: string[]): Promise<void>;
+}
+
+/** Injection token for the configured `AttachmentStorage`. */
+export const ATTACHMENT_STORAGE = Symbol('ATTACHMENT_STORAGE');
@@ -0,0 +1,71 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  Res,
+  UnauthorizedException,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { AuthedRequest } from '../auth/authed-request';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AttachmentsService } from './attachments.service';
+
+@Controller('chat/attachments')
+export class AttachmentsController {
+  constructor(private readonly attachments: AttachmentsService) {}
+
+  /**
+   * POST /chat/attachments – upload one file (multipart field `file`). Returns
+   * the attachment to reference in `attachmentIds` when sending a message.
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(FileInterceptor('file'))
+  async upload(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+    if (!file) {
+      throw new BadRequestException('file is required');
+    }
+
+    const attachment = await this.attachments.upload(userId, file);
+    return { attachment };
+  }
+
+  /**
+   * GET /chat/attachments/:id – download the original file.
+   */
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  async download(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+    @Res() res: Response,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    const { attachment, data } = await this.attachments.read(id, userId);
+    res.setHeader('Content-Type', attachment.mime_type);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+    );
+    res.send(data);
+  }
+}
@@ -0,0 +1,51 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ATTACHMENT_STORAGE } from './attachment-storage';
+import { AttachmentsController } from './attachments.controller';
+import { AttachmentsService } from './attachments.service';
+import { LocalDiskStorage } from './storage/local-disk.storage';
+import { SupabaseStorage } from './storage/supabase.storage';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+@Module({
+  imports: [
+    ConfigModule,
+    SupabaseModule,
+    // Files are kept in memory: they are small and extracted right away
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        limits: {
+          files: 1,
+          fileSize: Number(
+            config.get<string>('ATTACHMENT_MAX_BYTES') ?? DEFAULT_MAX_BYTES,
+          ),
+        },
+      }),
+    }),
+  ],
+  providers: [
+    AttachmentsService,
+    {
+      provide: ATTACHMENT_STORAGE,
+      inject: [ConfigService, SupabaseService],
+      useFactory: (config: ConfigService, supabase: SupabaseService) =>
+        config.get<string>('ATTACHMENT_STORAGE') === 'supabase'
+          ? new SupabaseStorage(
+              supabase.getClient(),
+              config.get<string>('ATTACHMENT_BUCKET') ?? 'attachments',
+            )
+          : new LocalDiskStorage(
+              config.get<string>('ATTACHMENT_DIR') ?? 'uploads',
+            ),
+    },
+  ],
+  controllers: [AttachmentsController],
+  exports: [AttachmentsService],
+})
+export class AttachmentsModule {}
@@ -0,0 +1,243 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnprocessableEntityException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ATTACHMENT_STORAGE, AttachmentStorage } from './attachment-storage';
+import { IMAGE_MIME_TYPES, detectKind, extractText } from './text-extraction';
+
+// Longer documents are cut so one upload cannot take over the whole context
+const MAX_EXTRACTED_CHARS = 100_000;
+
+/** What clients see of an attachment. */
+export interface AttachmentSummary {
+  id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+}
+
+export interface Attachment extends AttachmentSummary {
+  user_id: string;
+  message_id: number | null;
+  storage_path: string;
+  extracted_text: string | null;
+}
+
+export interface UploadedAttachmentFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+const COLUMNS =
+  'id, user_id, message_id, name, mime_type, size, storage_path, extracted_text';
+
+@Injectable()
+export class AttachmentsService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    @Inject(ATTACHMENT_STORAGE) private readonly storage: AttachmentStorage,
+  ) {}
+
+  /**
+   * Store an uploaded file and the text extracted from it (images are kept as
+   * is for vision models). The attachment is not part of any message until it
+   * is sent with one (see `claim`).
+   */
+  async upload(
+    userId: string,
+    file: UploadedAttachmentFile,
+  ): Promise<AttachmentSummary> {
+    // Multer decodes multipart file names as latin1
+    const name = Buffer.from(file.originalname, 'latin1').toString('utf8');
+    let mimeType = file.mimetype || 'application/octet-stream';
+
+    const kind = detectKind(name, mimeType);
+    if (!kind) {
+      throw new UnsupportedMediaTypeException(
+        `Unsupported file type "${name}"`,
+      );
+    }
+
+    let text: string | null = null;
+    if (kind === 'image') {
+      mimeType = imageMimeType(name, mimeType);
+    } else {
+      try {
+        text = await extractText(kind, file.buffer);
+      } catch {
+        throw new UnprocessableEntityException(`Could not read "${name}"`);
+      }
+      if (text.length > MAX_EXTRACTED_CHARS) {
+        text = `${text.slice(0, MAX_EXTRACTED_CHARS)}\n[truncated]`;
+      }
+    }
+
+    const id = randomUUID();
+    const storagePath = `${userId}/${id}`;
+    await this.storage.put(storagePath, file.buffer, mimeType);
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('attachments')
+      .insert({
+        id,
+        user_id: userId,
+        name,
+        mime_type: mimeType,
+        size: file.size,
+        storage_path: storagePath,
+        extracted_text: text,
+      });
+
+    if (error) {
+      await this.storage.remove([storagePath]);
+      throw error;
+    }
+
+    return { id, name, mime_type: mimeType, size: file.size };
+  }
+
+  /**
+   * Resolve attachment ids sent with a new message. They must belong to the
+   * user and not be attached to a message yet.
+   */
+  async claim(ids: unknown, userId: string): Promise<Attachment[]> {
+    if (ids === undefined || ids === null) return [];
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string')) {
+      throw new BadRequestException('attachmentIds must be a list of ids');
+    }
+    if (!ids.length) return [];
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('attachments')
+      .select(COLUMNS)
+      .in('id', ids)
+      .eq('user_id', userId)
+      .is('message_id', null);
+
+    if (error) {
+      throw error;
+    }
+
+    const found = data as Attachment[];
+    if (found.length !== new Set(ids).size) {
+      throw new BadRequestException('Unknown attachment');
+    }
+
+    // Keep the order the user attached them in
+    return ids
+      .filter((id, index) => ids.indexOf(id) === index)
+      .map((id) => found.find((a) => a.id === id)!);
+  }
+
+  /**
+   * Attach files to a stored message. Attachments already linked elsewhere
+   * (e.g. carried over to an edited message) are copied; the copy shares the
+   * stored file.
+   */
+  async linkToMessage(
+    attachments: Attachment[],
+    messageId: number,
+  ): Promise<void> {
+    const client = this.supabase.getClient();
+
+    for (const attachment of attachments) {
+      const { message_id, id, ...rest } = attachment;
+      const { error } =
+        message_id === null
+          ? await client
+              .from('attachments')
+              .update({ message_id: messageId })
+              .eq('id', id)
+          : await client
+              .from('attachments')
+              .insert({ ...rest, id: randomUUID(), message_id: messageId });
+
+      if (error) {
+        throw error;
+      }
+    }
+  }
+
+  /** All attachments of the given messages, extracted text included. */
+  async forMessages(messageIds: number[]): Promise<Attachment[]> {
+    if (!messageIds.length) return [];
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('attachments')
+      .select(COLUMNS)
+      .in('message_id', messageIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as Attachment[];
+  }
+
+  /** File contents of an attachment already checked to be readable. */
+  load(attachment: Attachment): Promise<Buffer> {
+    return this.storage.get(attachment.storage_path);
+  }
+
+  /** Return an attachment of the user together with the file contents. */
+  async read(
+    id: string,
+    userId: string,
+  ): Promise<{ attachment: Attachment; data: Buffer }> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('attachments')
+      .select(COLUMNS)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    const attachment = data as Attachment;
+    return {
+      attachment,
+      data: await this.storage.get(attachment.storage_path),
+    };
+  }
+
+  /** Delete stored files once the rows pointing at them are gone. */
+  async removeFiles(attachments: Attachment[]): Promise<void> {
+    const paths = [...new Set(attachments.map((a) => a.storage_path))];
+    await this.storage.remove(paths);
+  }
+}
+
+export function toAttachmentSummary(
+  attachment: AttachmentSummary,
+): AttachmentSummary {
+  const { id, name, mime_type, size } = attachment;
+  return { id, name, mime_type, size };
+}
+
+export function isImage(attachment: AttachmentSummary): boolean {
+  return attachment.mime_type.startsWith('image/');
+}
+
+/** Trust the extension over what the browser reported for pasted files. */
+function imageMimeType(name: string, reported: string): string {
+  const extension = name.split('.').pop()?.toLowerCase() ?? '';
+  return IMAGE_MIME_TYPES[extension] ?? reported;
+}
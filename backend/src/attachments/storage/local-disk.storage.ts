@@ -0,0 +1,37 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { AttachmentStorage } from '../attachment-storage';
+
+/**
+ * Stores attachments as plain files below a directory. Meant for local
+ * development and tests; use Supabase Storage when running several instances.
+ */
+export class LocalDiskStorage implements AttachmentStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(path: string, data: Buffer): Promise<void> {
+    const file = this.resolve(path);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  get(path: string): Promise<Buffer> {
+    return readFile(this.resolve(path));
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    await Promise.all(paths.map((p) => rm(this.resolve(p), { force: true })));
+  }
+
+  private resolve(path: string): string {
+    const file = resolve(this.root, path);
+    if (!file.startsWith(this.root + sep)) {
+      throw new Error(`Invalid attachment path "${path}"`);
+    }
+    return file;
+  }
+}
@@ -0,0 +1,45 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AttachmentStorage } from '../attachment-storage';
+
+/**
+ * Stores attachments in a private Supabase Storage bucket. The backend uses
+ * the service-role client, so the bucket needs no public access.
+ */
+export class SupabaseStorage implements AttachmentStorage {
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly bucket: string,
+  ) {}
+
+  async put(path: string, data: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.client.storage
+      .from(this.bucket)
+      .upload(path, data, { contentType });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async get(path: string): Promise<Buffer> {
+    const { data, error } = await this.client.storage
+      .from(this.bucket)
+      .download(path);
+
+    if (error) {
+      throw error;
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    if (!paths.length) return;
+
+    const { error } = await this.client.storage.from(this.bucket).remove(paths);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
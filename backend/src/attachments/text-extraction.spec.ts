@@ -0,0 +1,34 @@
+import { detectKind, extractText } from './text-extraction';
+
+describe('text extraction', () => {
+  it('detects the kind from the extension, then the MIME type', () => {
+    expect(detectKind('notes.MD', 'application/octet-stream')).toBe('text');
+    expect(detectKind('main.rs', '')).toBe('text');
+    expect(detectKind('report', 'application/pdf')).toBe('pdf');
+    expect(detectKind('letter.docx', '')).toBe('docx');
+    expect(detectKind('data', 'text/csv')).toBe('text');
+    expect(detectKind('image.png', 'image/png')).toBe('image');
+    expect(detectKind('clipboard', 'image/webp')).toBe('image');
+    expect(detectKind('photo.exe', 'application/x-msdownload')).toBeNull();
+  });
+
+  it('reads text files as UTF-8', async () => {
+    const csv = 'city,country\nSafar,Ouzbékistan\n';
+    await expect(extractText('text', Buffer.from(csv))).resolves.toBe(csv);
+  });
+
+  it('rejects binary data passed off as text', async () => {
+    await expect(
+      extractText('text', Buffer.from([0x00, 0x01, 0x02])),
+    ).rejects.toThrow();
+    await expect(
+      extractText('text', Buffer.from([0xff, 0xfe, 0xfd])),
+    ).rejects.toThrow();
+  });
+
+  it('fails on files that are not valid documents', async () => {
+    await expect(
+      extractText('docx', Buffer.from('not a zip')),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,82 @@
+import { extname } from 'path';
+import { PDFParse } from 'pdf-parse';
+import * as mammoth from 'mammoth';
+
+export type AttachmentKind = 'text' | 'pdf' | 'docx' | 'image';
+
+// Plain-text formats we read as UTF-8: prose, data and source code
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'yaml', 'yml', 'xml', 'toml',
+  'ini', 'log', 'html', 'css', 'scss', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx',
+  'py', 'rb', 'php', 'java', 'kt', 'swift', 'go', 'rs', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'sh', 'sql', 'r', 'lua', 'dart', 'scala', 'vue', 'svelte',
+]); // prettier-ignore
+
+// Images vision models accept; they are passed as is, not turned into text
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const DOCX_MIME =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Work out how to read an upload from its file name, falling back to the MIME
+ * type sent by the browser. Returns `null` for unsupported files.
+ */
+export function detectKind(
+  name: string,
+  mimeType: string,
+): AttachmentKind | null {
+  const extension = extname(name).slice(1).toLowerCase();
+
+  if (
+    extension in IMAGE_MIME_TYPES ||
+    Object.values(IMAGE_MIME_TYPES).includes(mimeType)
+  ) {
+    return 'image';
+  }
+  if (extension === 'pdf' || mimeType === 'application/pdf') return 'pdf';
+  if (extension === 'docx' || mimeType === DOCX_MIME) return 'docx';
+  if (TEXT_EXTENSIONS.has(extension) || mimeType.startsWith('text/')) {
+    return 'text';
+  }
+
+  return null;
+}
+
+/**
+ * Extract the text the model gets to see. Throws when the file cannot be
+ * read as the given kind (corrupt PDF, binary data in a text file, ...).
+ */
+export async function extractText(
+  kind: Exclude<AttachmentKind, 'image'>,
+  data: Buffer,
+): Promise<string> {
+  switch (kind) {
+    case 'pdf': {
+      const parser = new PDFParse({ data });
+      try {
+        const { text } = await parser.getText();
+        return text.trim();
+      } finally {
+        await parser.destroy();
+      }
+    }
+    case 'docx': {
+      const { value } = await mammoth.extractRawText({ buffer: data });
+      return value.trim();
+    }
+    case 'text': {
+      const text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+      if (text.includes('\u0000')) {
+        throw new Error('File looks binary');
+      }
+      return text;
+    }
+  }
+}
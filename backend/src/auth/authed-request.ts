@@ -0,0 +1,13 @@
+import { Request } from 'express';
+
+/** Claims of the Supabase access token that `JwtAuthGuard` puts on requests. */
+export interface AuthUser {
+  /** The user's id. */
+  sub: string;
+}
+
+/**
+ * A request that went through `JwtAuthGuard` or `OptionalJwtGuard`; `user`
+ * is missing for guests.
+ */
+export type AuthedRequest = Omit<Request, 'user'> & { user?: AuthUser };
@@ -0,0 +1,69 @@
+import { LlmErrorCode, LlmProviderError } from '../llm/llm-provider';
+import { KnowledgeSource } from '../knowledge/knowledge.service';
+
+export type ChatErrorCode = LlmErrorCode | 'internal_error';
+
+/**
+ * Events sent over `POST /chat/stream`. Each one is written as an SSE frame
+ * whose `event:` is the type and whose `data:` is the JSON-encoded event.
+ *
+ *  • meta  – first event; ids of the generation, the chat and the stored
+ *            messages (chat and message ids are `null` for anonymous users)
+ *  • context – the chat was too long for the model: the `omitted` oldest
+ *              messages of the context were summarized or left out
+ *  • sources – knowledge base excerpts the answer may cite as `[index]`;
+ *              only for chats linked to a collection
+ *  • delta – a piece of assistant text
+ *  • tool_call – the model calls a tool; `arguments` is its JSON text
+ *  • tool_result – what the call with the same `id` returned (or why it
+ *                  failed, with `error`); the answer continues after it
+ *  • usage – token usage reported by the provider
+ *  • title – title generated for the chat this turn created, just before
+ *            `done`; left out when the answer fails or is cut short
+ *  • error – terminal failure, no `done` follows
+ *  • done  – the answer is persisted; `interrupted` when it was cut short
+ */
+export type ChatStreamEvent =
+  | {
+      type: 'meta';
+      generationId: string | null;
+      chatId: string | null;
+      userMessageId: number | null;
+      assistantMessageId: number | null;
+      model: string;
+    }
+  | {
+      type: 'context';
+      mode: 'summarized' | 'truncated';
+      omitted: number;
+    }
+  | { type: 'sources'; sources: KnowledgeSource[] }
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: string }
+  | { type: 'tool_result'; id: string; content: string; error: boolean }
+  | {
+      type: 'usage';
+      promptTokens: number;
+      completionTokens: number;
+      totalTokens: number;
+    }
+  | { type: 'title'; chatId: string; title: string }
+  | { type: 'error'; code: ChatErrorCode; message: string }
+  | { type: 'done'; interrupted: boolean };
+
+export function toErrorEvent(err: unknown): ChatStreamEvent {
+  if (err instanceof LlmProviderError) {
+    return { type: 'error', code: err.code, message: err.message };
+  }
+
+  return {
+    type: 'error',
+    code: 'internal_error',
+    message: err instanceof Error ? err.message : 'Unexpected error',
+  };
+}
+
+export function encodeSseEvent(event: ChatStreamEvent, id?: number): string {
+  const idLine = id === undefined ? '' : `id: ${id}\n`;
+  return `${idLine}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
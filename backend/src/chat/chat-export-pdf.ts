@@ -0,0 +1,319 @@
+import * as PDFDocument from 'pdfkit';
+import { Lexer, Token, Tokens } from 'marked';
+import {
+  ChatExport,
+  chatTitle,
+  closeCodeFences,
+  formatTimestamp,
+  messageHeading,
+  messageNotes,
+  transcript,
+} from './chat-export';
+
+interface PdfFonts {
+  regular: string;
+  bold: string;
+  italic: string;
+  mono: string;
+}
+
+// The standard PDF fonts only cover Latin scripts
+const STANDARD_FONTS: PdfFonts = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  italic: 'Helvetica-Oblique',
+  mono: 'Courier',
+};
+
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+
+/** A piece of a line in one font, e.g. a bold word or inline code. */
+interface Run {
+  text: string;
+  font: keyof PdfFonts;
+  link?: string;
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/** The text of a token this writer has no layout for, if any. */
+const plainText = (token: Token): string | null =>
+  'text' in token && typeof token.text === 'string'
+    ? decodeEntities(token.text)
+    : null;
+
+function inlineRuns(
+  tokens: Token[],
+  font: keyof PdfFonts = 'regular',
+  link?: string,
+): Run[] {
+  return tokens.flatMap((token): Run[] => {
+    switch (token.type) {
+      case 'strong':
+        return inlineRuns((token as Tokens.Strong).tokens, 'bold', link);
+      case 'em':
+        return inlineRuns(
+          (token as Tokens.Em).tokens,
+          font === 'bold' ? 'bold' : 'italic',
+          link,
+        );
+      case 'del':
+        return inlineRuns((token as Tokens.Del).tokens, font, link);
+      case 'link': {
+        const { tokens: text, href } = token as Tokens.Link;
+        return inlineRuns(text, font, href);
+      }
+      case 'image':
+        return [{ text: `[${(token as Tokens.Image).text}]`, font: 'italic' }];
+      case 'codespan':
+        return [
+          {
+            text: decodeEntities((token as Tokens.Codespan).text),
+            font: 'mono',
+          },
+        ];
+      case 'br':
+        return [{ text: '\n', font }];
+      case 'text': {
+        const text = token as Tokens.Text;
+        return text.tokens
+          ? inlineRuns(text.tokens, font, link)
+          : [{ text: decodeEntities(text.text), font, link }];
+      }
+      default: {
+        const text = plainText(token);
+        return text ? [{ text, font, link }] : [];
+      }
+    }
+  });
+}
+
+/** Lays Markdown out on the pages of a PDF document, top to bottom. */
+class PdfWriter {
+  private indent = 0;
+
+  constructor(
+    private readonly pdf: PDFKit.PDFDocument,
+    private readonly fonts: PdfFonts,
+  ) {}
+
+  /** One paragraph made of runs, wrapped to the current indentation. */
+  write(runs: Run[], size = 11, color = TEXT_COLOR): void {
+    const parts = runs.filter((run) => run.text);
+    if (!parts.length) return;
+
+    const x = this.pdf.page.margins.left + this.indent;
+    const width = this.pdf.page.width - this.pdf.page.margins.right - x;
+    this.pdf.fontSize(size).fillColor(color);
+    parts.forEach((run, i) => {
+      const options = {
+        width,
+        continued: i < parts.length - 1,
+        // Set on every run: continued text keeps the previous run's options
+        link: run.link ?? null,
+        underline: Boolean(run.link),
+      };
+      this.pdf.font(this.fonts[run.font]);
+      if (i === 0) {
+        this.pdf.text(run.text, x, this.pdf.y, options);
+      } else {
+        this.pdf.text(run.text, options);
+      }
+    });
+  }
+
+  gap(lines = 0.5): void {
+    this.pdf.moveDown(lines);
+  }
+
+  rule(): void {
+    const { left, right } = this.pdf.page.margins;
+    this.pdf
+      .moveTo(left, this.pdf.y)
+      .lineTo(this.pdf.page.width - right, this.pdf.y)
+      .strokeColor('#e5e7eb')
+      .stroke();
+    this.gap();
+  }
+
+  markdown(content: string): void {
+    this.blocks(Lexer.lex(closeCodeFences(content), { gfm: true }));
+  }
+
+  private blocks(tokens: Token[]): void {
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'heading': {
+          const { tokens: text, depth } = token as Tokens.Heading;
+          this.write(inlineRuns(text, 'bold'), [16, 14, 12][depth - 1] ?? 11);
+          this.gap(0.3);
+          break;
+        }
+        case 'paragraph':
+          this.write(inlineRuns((token as Tokens.Paragraph).tokens));
+          this.gap();
+          break;
+        case 'text':
+          this.write(inlineRuns([token]));
+          break;
+        case 'code':
+          this.indented(12, () =>
+            this.write(
+              [{ text: (token as Tokens.Code).text, font: 'mono' }],
+              9,
+              '#374151',
+            ),
+          );
+          this.gap();
+          break;
+        case 'blockquote':
+          this.indented(12, () =>
+            this.blocks((token as Tokens.Blockquote).tokens),
+          );
+          break;
+        case 'list':
+          this.list(token as Tokens.List);
+          this.gap();
+          break;
+        case 'table': {
+          const { header, rows } = token as Tokens.Table;
+          for (const [i, row] of [header, ...rows].entries()) {
+            this.write(
+              row.flatMap((cell, j) => [
+                ...(j ? [{ text: '  |  ', font: 'regular' as const }] : []),
+                ...inlineRuns(cell.tokens, i ? 'regular' : 'bold'),
+              ]),
+              10,
+            );
+          }
+          this.gap();
+          break;
+        }
+        case 'hr':
+          this.rule();
+          break;
+        case 'space':
+          break;
+        default: {
+          const text = plainText(token);
+          if (text) {
+            this.write([{ text, font: 'regular' }]);
+            this.gap();
+          }
+        }
+      }
+    }
+  }
+
+  private list({ items, ordered, start }: Tokens.List): void {
+    items.forEach((item, i) => {
+      const marker = ordered ? `${Number(start || 1) + i}.` : '•';
+      this.indented(16, () => {
+        const { y } = this.pdf;
+        this.pdf
+          .font(this.fonts.regular)
+          .fontSize(11)
+          .fillColor(TEXT_COLOR)
+          .text(marker, this.pdf.page.margins.left + this.indent - 14, y, {
+            lineBreak: false,
+          });
+        this.pdf.y = y;
+        this.blocks(item.tokens);
+      });
+    });
+  }
+
+  private indented(by: number, write: () => void): void {
+    this.indent += by;
+    try {
+      write();
+    } finally {
+      this.indent -= by;
+    }
+  }
+}
+
+/**
+ * Print the chat's transcript to a PDF: Markdown keeps its headings,
+ * emphasis, lists and tables, and code blocks are set in a monospace font.
+ * `font` is the path of a TrueType font used for all text instead of the
+ * standard fonts, which only cover Latin scripts.
+ */
+export function renderPdf(doc: ChatExport, font?: string): Promise<Buffer> {
+  const pdf = new PDFDocument({
+    size: 'A4',
+    margin: 56,
+    info: { Title: chatTitle(doc), Creator: 'SafarGPT' },
+  });
+  let fonts = STANDARD_FONTS;
+  if (font) {
+    pdf.registerFont('Export', font);
+    fonts = {
+      regular: 'Export',
+      bold: 'Export',
+      italic: 'Export',
+      mono: 'Export',
+    };
+  }
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+  });
+
+  const writer = new PdfWriter(pdf, fonts);
+  writer.write([{ text: chatTitle(doc), font: 'bold' }], 18);
+  writer.write(
+    [
+      {
+        text: `Exported from SafarGPT on ${formatTimestamp(doc.exported_at)}`,
+        font: 'regular',
+      },
+    ],
+    9,
+    MUTED_COLOR,
+  );
+  writer.gap();
+
+  for (const message of transcript(doc)) {
+    if (message.role === 'tool') {
+      writer.write(
+        [
+          {
+            text: `Used tool ${message.tool_call?.name ?? 'unknown'}`,
+            font: 'italic',
+          },
+        ],
+        9,
+        MUTED_COLOR,
+      );
+      writer.gap();
+      continue;
+    }
+
+    writer.rule();
+    writer.write(
+      [{ text: messageHeading(message), font: 'bold' }],
+      9,
+      message.role === 'user' ? '#1d4ed8' : MUTED_COLOR,
+    );
+    writer.gap(0.3);
+    writer.markdown(message.content);
+    for (const note of messageNotes(message)) {
+      writer.write([{ text: note, font: 'regular' }], 9, MUTED_COLOR);
+    }
+    writer.gap();
+  }
+
+  pdf.end();
+  return done;
+}
@@ -0,0 +1,132 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as JSZip from 'jszip';
+import { ChatService } from './chat.service';
+import {
+  ChatExport,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportFilename,
+  renderHtml,
+  renderMarkdown,
+  toChatExport,
+} from './chat-export';
+import { renderPdf } from './chat-export-pdf';
+
+/** A rendered export, ready to download. */
+export interface ExportFile {
+  name: string;
+  contentType: string;
+  data: Buffer;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+/** The `format` query parameter; Markdown when it is missing. */
+export function parseExportFormat(format: unknown): ExportFormat {
+  if (format === undefined || format === '') return 'md';
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new BadRequestException(
+      `format must be one of ${EXPORT_FORMATS.join(', ')}`,
+    );
+  }
+  return format as ExportFormat;
+}
+
+/** `name.md`, then `name (2).md`, … for names already in `taken`. */
+function uniqueName(name: string, taken: Set<string>): string {
+  const dot = name.lastIndexOf('.');
+  let unique = name;
+  for (let n = 2; taken.has(unique); n++) {
+    unique = `${name.slice(0, dot)} (${n})${name.slice(dot)}`;
+  }
+  taken.add(unique);
+  return unique;
+}
+
+/**
+ * Downloads of a user's chats. Markdown, HTML and PDF exports hold the
+ * branch the chat opens on; JSON exports hold every message and can be
+ * imported again. `EXPORT_PDF_FONT` points PDFs at a TrueType font for
+ * scripts the standard PDF fonts lack.
+ */
+@Injectable()
+export class ChatExportService {
+  constructor(
+    private readonly chats: ChatService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async exportChat(
+    chatId: string,
+    userId: string,
+    format: ExportFormat,
+  ): Promise<ExportFile> {
+    const [chat, messages] = await Promise.all([
+      this.chats.getChat(chatId, userId),
+      this.chats.listMessages(chatId, userId),
+    ]);
+    return this.render(toChatExport(chat, messages), format);
+  }
+
+  /** Every chat of the user in one zip, a file per chat named by date and title. */
+  async exportAll(userId: string, format: ExportFormat): Promise<ExportFile> {
+    const zip = new JSZip();
+    const names = new Set<string>();
+
+    // One chat at a time, so large histories are not all in memory at once
+    for (const chat of await this.chats.listChats(userId)) {
+      const messages = await this.chats.listMessages(chat.id, userId);
+      const file = await this.render(toChatExport(chat, messages), format);
+      zip.file(
+        uniqueName(`${chat.created_at.slice(0, 10)} ${file.name}`, names),
+        file.data,
+        { date: new Date(chat.created_at) },
+      );
+    }
+
+    return {
+      name: `SafarGPT chats ${new Date().toISOString().slice(0, 10)}.zip`,
+      contentType: 'application/zip',
+      data: await zip.generateAsync({
+        type: 'nodebuffer',
+        compression: 'DEFLATE',
+      }),
+    };
+  }
+
+  private async render(
+    doc: ChatExport,
+    format: ExportFormat,
+  ): Promise<ExportFile> {
+    let data: Buffer;
+    switch (format) {
+      case 'md':
+        data = Buffer.from(renderMarkdown(doc));
+        break;
+      case 'json':
+        data = Buffer.from(`${JSON.stringify(doc, null, 2)}\n`);
+        break;
+      case 'html':
+        data = Buffer.from(renderHtml(doc));
+        break;
+      case 'pdf':
+        data = await renderPdf(
+          doc,
+          this.config.get<string>('EXPORT_PDF_FONT') || undefined,
+        );
+        break;
+    }
+
+    return {
+      name: exportFilename(doc, format),
+      contentType: CONTENT_TYPES[format],
+      data,
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  ChatExport,
+  ExportedMessage,
+  closeCodeFences,
+  exportFilename,
+  renderHtml,
+  renderMarkdown,
+  transcript,
+} from './chat-export';
+import { renderPdf } from './chat-export-pdf';
+
+const message = (
+  id: number,
+  parent_id: number | null,
+  role: string,
+  content: string,
+): ExportedMessage => ({
+  id,
+  parent_id,
+  role,
+  content,
+  model: role === 'assistant' ? 'gpt-4o' : null,
+  created_at: `2026-10-19T10:0${id}:00.000Z`,
+  interrupted: false,
+  attachments: [],
+  tool_call: null,
+  sources: null,
+});
+
+const chat = (messages: ExportedMessage[]): ChatExport => ({
+  format: 'safargpt.chat',
+  version: 1,
+  exported_at: '2026-10-19T12:00:00.000Z',
+  chat: { id: 'c1', title: 'Plov: a recipe?', created_at: '' },
+  messages,
+});
+
+describe('chat export', () => {
+  it('follows the latest branch of the conversation', () => {
+    const doc = chat([
+      message(1, null, 'user', 'Hi'),
+      message(2, 1, 'assistant', 'First answer'),
+      message(3, 1, 'assistant', 'Regenerated answer'),
+    ]);
+
+    expect(transcript(doc).map((m) => m.id)).toEqual([1, 3]);
+    const markdown = renderMarkdown(doc);
+    expect(markdown).toContain('### You · 2026-10-19 10:01 UTC\n\nHi');
+    expect(markdown).toContain(
+      '### Assistant · gpt-4o · 2026-10-19 10:03 UTC\n\nRegenerated answer',
+    );
+    expect(markdown).not.toContain('First answer');
+  });
+
+  it('closes code blocks an interrupted answer left open', () => {
+    expect(closeCodeFences('```ts\nconst a = 1;')).toBe(
+      '```ts\nconst a = 1;\n```',
+    );
+    expect(closeCodeFences('```\nok\n```\n')).toBe('```\nok\n```\n');
+  });
+
+  it('renders code blocks and keeps raw HTML as text in HTML exports', () => {
+    const html = renderHtml(
+      chat([
+        message(1, null, 'user', '<script>alert(1)</script>'),
+        message(2, 1, 'assistant', '```js\nif (a < b) {}\n```'),
+      ]),
+    );
+
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain(
+      '<pre><code class="language-js">if (a &lt; b) {}\n</code></pre>',
+    );
+  });
+
+  it('prints PDFs and names files after the chat', async () => {
+    const doc = chat([
+      message(1, null, 'user', '**Bold**, `code` and a [link](https://x.y)'),
+      message(2, 1, 'assistant', '1. one\n2. two\n\n```\ncode\n```'),
+    ]);
+
+    const pdf = await renderPdf(doc);
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(exportFilename(doc, 'pdf')).toBe('Plov a recipe.pdf');
+  });
+});
@@ -0,0 +1,230 @@
+import { Marked } from 'marked';
+import { LlmToolCall } from '../llm/llm-provider';
+import { KnowledgeSource } from '../knowledge/knowledge.service';
+import { ChatSummary, StoredMessage } from './chat.service';
+import { pathTo } from './message-tree';
+
+export const EXPORT_FORMATS = ['md', 'json', 'html', 'pdf'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Identifies our JSON exports, e.g. when they are imported again. */
+export const CHAT_EXPORT_FORMAT = 'safargpt.chat';
+export const CHAT_EXPORT_VERSION = 1;
+
+export interface ExportedMessage {
+  id: number;
+  parent_id: number | null;
+  role: string;
+  content: string;
+  model: string | null;
+  created_at: string;
+  interrupted: boolean;
+  /** Only described: files are not part of exports. */
+  attachments: Array<{ name: string; mime_type: string; size: number }>;
+  tool_call: LlmToolCall | null;
+  sources: KnowledgeSource[] | null;
+}
+
+/** The JSON export of a chat, with every branch of the conversation. */
+export interface ChatExport {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: typeof CHAT_EXPORT_VERSION;
+  exported_at: string;
+  chat: { id: string; title: string | null; created_at: string };
+  messages: ExportedMessage[];
+}
+
+export function toChatExport(
+  chat: Pick<ChatSummary, 'id' | 'title' | 'created_at'>,
+  messages: StoredMessage[],
+  exportedAt = new Date(),
+): ChatExport {
+  return {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exported_at: exportedAt.toISOString(),
+    chat: { id: chat.id, title: chat.title, created_at: chat.created_at },
+    messages: messages.map((m) => ({
+      id: m.id,
+      parent_id: m.parent_id,
+      role: m.role,
+      content: m.content,
+      model: m.model,
+      created_at: m.created_at,
+      interrupted: m.interrupted,
+      attachments: m.attachments.map(({ name, mime_type, size }) => ({
+        name,
+        mime_type,
+        size,
+      })),
+      tool_call: m.tool_call,
+      sources: m.sources,
+    })),
+  };
+}
+
+/**
+ * The version of the conversation the chat opens on: the branch ending at the
+ * latest answer or prompt. Tool calls stay in it, above the answer they led to.
+ */
+export function transcript(doc: ChatExport): ExportedMessage[] {
+  const leaf = doc.messages.findLast((m) => m.role !== 'tool');
+  return pathTo(doc.messages, leaf?.id ?? null);
+}
+
+export const chatTitle = (doc: ChatExport) => doc.chat.title || 'Untitled chat';
+
+/** `2026-10-19 14:05 UTC` */
+export const formatTimestamp = (iso: string) =>
+  `${new Date(iso).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+/** Who wrote a message, with the model for answers, and when. */
+export function messageHeading(message: ExportedMessage): string {
+  const author =
+    message.role === 'user'
+      ? 'You'
+      : message.role === 'tool'
+        ? 'Tool'
+        : 'Assistant';
+  return [
+    author,
+    message.role === 'assistant' ? message.model : null,
+    formatTimestamp(message.created_at),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Close a code block left open, e.g. by an answer that was stopped, so it
+ * does not swallow the rest of the export.
+ */
+export function closeCodeFences(content: string): string {
+  const fences = content.match(/^ {0,3}(```|~~~)/gm) ?? [];
+  if (fences.length % 2 === 0) return content;
+  const fence = fences[fences.length - 1].trim();
+  return `${content}${content.endsWith('\n') ? '' : '\n'}${fence}`;
+}
+
+/** Lines listed under a message: its files and cited sources. */
+export function messageNotes(message: ExportedMessage): string[] {
+  return [
+    ...message.attachments.map((a) => `Attached: ${a.name}`),
+    ...(message.sources ?? []).map(
+      (s) => `[${s.index}] ${s.documentName}, part ${s.position + 1}`,
+    ),
+    ...(message.interrupted ? ['(Stopped before the end)'] : []),
+  ];
+}
+
+export function renderMarkdown(doc: ChatExport): string {
+  const parts = [
+    `# ${chatTitle(doc)}`,
+    `_Exported from SafarGPT on ${formatTimestamp(doc.exported_at)}_`,
+  ];
+
+  for (const message of transcript(doc)) {
+    if (message.role === 'tool') {
+      parts.push(`> Used tool \`${message.tool_call?.name ?? 'unknown'}\``);
+      continue;
+    }
+    parts.push(
+      '---',
+      `### ${messageHeading(message)}`,
+      closeCodeFences(message.content),
+      ...messageNotes(message).map((note) => `> ${note}`),
+    );
+  }
+
+  return `${parts.filter(Boolean).join('\n\n')}\n`;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Messages are shown as Markdown, but raw HTML and script links in them stay text
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    html: ({ text }) => escapeHtml(text),
+  },
+  walkTokens: (token) => {
+    if (
+      (token.type === 'link' || token.type === 'image') &&
+      /^\s*(javascript|vbscript|data):/i.test(token.href as string)
+    ) {
+      token.href = '#';
+    }
+  },
+});
+
+const HTML_STYLE = `
+  body { max-width: 46rem; margin: 2rem auto; padding: 0 1rem; font: 15px/1.6 system-ui, sans-serif; color: #1f2937; }
+  h1 { font-size: 1.6rem; margin-bottom: 0; }
+  .exported { color: #6b7280; font-size: 0.85rem; }
+  .message { border-top: 1px solid #e5e7eb; padding: 0.75rem 0; }
+  .message > header { color: #6b7280; font-size: 0.85rem; font-weight: 600; }
+  .message.user > header { color: #1d4ed8; }
+  .tool, .notes { color: #6b7280; font-size: 0.85rem; }
+  pre { background: #f3f4f6; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+  code { font: 0.9em ui-monospace, SFMono-Regular, Menlo, monospace; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+  blockquote { margin-left: 0; padding-left: 1rem; border-left: 3px solid #d1d5db; color: #4b5563; }
+`;
+
+/** A standalone page that opens in any browser, styles included. */
+export function renderHtml(doc: ChatExport): string {
+  const body = transcript(doc).map((message) => {
+    if (message.role === 'tool') {
+      return `<p class="tool">Used tool <code>${escapeHtml(message.tool_call?.name ?? 'unknown')}</code></p>`;
+    }
+    const notes = messageNotes(message);
+    return [
+      `<section class="message ${escapeHtml(message.role)}">`,
+      `<header>${escapeHtml(messageHeading(message))}</header>`,
+      markdown.parse(closeCodeFences(message.content), {
+        async: false,
+      }),
+      notes.length
+        ? `<ul class="notes">${notes.map((n) => `<li>${escapeHtml(n)}</li>`).join('')}</ul>`
+        : '',
+      '</section>',
+    ].join('\n');
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(chatTitle(doc))}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(chatTitle(doc))}</h1>`,
+    `<p class="exported">Exported from SafarGPT on ${formatTimestamp(doc.exported_at)}</p>`,
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * File name for an export: the chat's title without the characters file
+ * systems reject.
+ */
+export function exportFilename(doc: ChatExport, format: ExportFormat): string {
+  const name = chatTitle(doc)
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 80);
+  return `${name || 'Chat'}.${format}`;
+}
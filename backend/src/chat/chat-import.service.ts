@@ -0,0 +1,283 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as JSZip from 'jszip';
+import { Readable } from 'stream';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ChatExport } from './chat-export';
+import {
+  ImportCandidate,
+  ImportError,
+  ImportedChat,
+  ImportedMessage,
+  candidateTitle,
+  findConversations,
+  toImportedChat,
+} from './chat-import';
+
+export type ImportStatus = 'imported' | 'skipped' | 'failed';
+
+/** What became of one conversation of an imported file. */
+export interface ImportResult {
+  title: string;
+  status: ImportStatus;
+  /** The new chat, for imported conversations. */
+  chatId?: string;
+  /** Why the conversation was skipped or failed. */
+  message?: string;
+}
+
+export interface ImportReport {
+  imported: number;
+  skipped: number;
+  failed: number;
+  results: ImportResult[];
+}
+
+const UNRECOGNISED_FILE =
+  "No conversations found: upload ChatGPT's export (its zip or conversations.json) or a SafarGPT JSON export";
+
+// Zips can unpack to far more than they weigh; these bound what is unpacked
+const MAX_ZIP_ENTRIES = 10_000;
+const DEFAULT_MAX_UNZIPPED_BYTES = 200 * 1024 * 1024;
+
+const TOO_MUCH_DATA = 'The archive unpacks to too much data to import';
+
+/** The `import_chat` Postgres function, as called through `rpc()`. */
+interface ImportChat {
+  Args: { p_chat: Record<string, unknown>; p_messages: ImportedMessage[] };
+  Returns: string;
+}
+
+// Postgres' unique_violation, raised when a conversation is imported twice at once
+const UNIQUE_VIOLATION = '23505';
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BadRequestException('The file is not valid JSON');
+  }
+}
+
+/**
+ * Unpack a zip entry, giving up as soon as it outgrows `limit` bytes. The
+ * sizes a zip declares are not trusted: only what is actually unpacked counts.
+ */
+function unzipEntry(file: JSZip.JSZipObject, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let read = 0;
+    let failed = false;
+    // A readable-stream Readable, though JSZip types it more loosely
+    const stream = file.nodeStream('nodebuffer') as Readable;
+    stream.on('data', (chunk: Buffer) => {
+      if (failed) return;
+      read += chunk.length;
+      if (read > limit) {
+        // Pushes then fail, and JSZip stops unpacking after the current chunk
+        failed = true;
+        stream.destroy();
+        reject(new BadRequestException(TOO_MUCH_DATA));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', () => {
+      if (failed) return;
+      failed = true;
+      reject(new BadRequestException('The file is not a valid zip archive'));
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * The JSON documents in an upload: the file itself, or the JSON files of a
+ * zip. ChatGPT's export zip holds other JSON files next to
+ * `conversations.json`, so only that one is read when it is there.
+ */
+async function readUpload(
+  data: Buffer,
+  maxUnzippedBytes: number,
+): Promise<unknown[]> {
+  // Zip archives start with "PK"
+  if (data.subarray(0, 2).toString() !== 'PK') {
+    return [parseJson(data.toString('utf8'))];
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new BadRequestException('The file is not a valid zip archive');
+  }
+  if (Object.keys(zip.files).length > MAX_ZIP_ENTRIES) {
+    throw new BadRequestException('The archive holds too many files');
+  }
+
+  const files = zip.file(/\.json$/i);
+  const conversations = files.filter((f) =>
+    /(^|\/)conversations\.json$/i.test(f.name),
+  );
+  const selected = conversations.length ? conversations : files;
+
+  const documents: unknown[] = [];
+  let left = maxUnzippedBytes;
+  for (const file of selected) {
+    const unzipped = await unzipEntry(file, left);
+    left -= unzipped.length;
+    documents.push(parseJson(unzipped.toString('utf8')));
+  }
+  return documents;
+}
+
+/**
+ * Imports chat histories: ChatGPT's data export and SafarGPT's own JSON
+ * exports. Each conversation becomes a chat with its messages, timestamps
+ * and models, and is reported on its own, so one broken conversation does
+ * not stop the rest. Conversations imported before are skipped.
+ */
+@Injectable()
+export class ChatImportService {
+  private readonly logger = new Logger(ChatImportService.name);
+
+  private readonly maxUnzippedBytes: number;
+
+  constructor(
+    private readonly supabase: SupabaseService,
+    config: ConfigService,
+  ) {
+    this.maxUnzippedBytes = Number(
+      config.get('IMPORT_MAX_UNZIPPED_BYTES') ?? DEFAULT_MAX_UNZIPPED_BYTES,
+    );
+  }
+
+  async importFile(userId: string, data: Buffer): Promise<ImportReport> {
+    const documents = await readUpload(data, this.maxUnzippedBytes);
+    const candidates = documents.flatMap(findConversations);
+    if (!candidates.length) {
+      throw new BadRequestException(UNRECOGNISED_FILE);
+    }
+
+    const known = await this.knownConversations(userId);
+    const results: ImportResult[] = [];
+    // One at a time, in the file's order
+    for (const candidate of candidates) {
+      results.push(await this.importConversation(userId, candidate, known));
+    }
+
+    const count = (status: ImportStatus) =>
+      results.filter((r) => r.status === status).length;
+    return {
+      imported: count('imported'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      results,
+    };
+  }
+
+  /**
+   * Copy an exported chat into the user's account as a new chat, e.g. a
+   * shared chat a viewer continues. Unlike imports, copies are not tracked:
+   * each call makes a new chat, dated now.
+   */
+  async copyChat(userId: string, doc: ChatExport): Promise<string> {
+    const chat = toImportedChat({ source: 'safargpt', data: doc });
+    return this.store(
+      userId,
+      { ...chat, created_at: new Date().toISOString() },
+      false,
+    );
+  }
+
+  private async importConversation(
+    userId: string,
+    candidate: ImportCandidate,
+    known: Set<string>,
+  ): Promise<ImportResult> {
+    const title = candidateTitle(candidate);
+    try {
+      const chat = toImportedChat(candidate);
+      const key = `${chat.source}:${chat.sourceId}`;
+      if (known.has(key)) {
+        return { title, status: 'skipped', message: 'Already imported' };
+      }
+
+      const chatId = await this.store(userId, chat);
+      known.add(key);
+      return { title, status: 'imported', chatId };
+    } catch (err) {
+      if (err instanceof ImportError) {
+        return { title, status: 'failed', message: err.message };
+      }
+      if ((err as { code?: string }).code === UNIQUE_VIOLATION) {
+        return { title, status: 'skipped', message: 'Already imported' };
+      }
+      this.logger.warn(
+        `Could not import "${title}": ${(err as Error).message ?? err}`,
+      );
+      return { title, status: 'failed', message: 'Could not be saved' };
+    }
+  }
+
+  /**
+   * `source:id` keys of the conversations the user already has: the ones
+   * imported before and, for SafarGPT exports, the user's own chats.
+   */
+  private async knownConversations(userId: string): Promise<Set<string>> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('chats')
+      .select('id, import_source, import_id')
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    const chats = data as Array<{
+      id: string;
+      import_source: string | null;
+      import_id: string | null;
+    }>;
+    return new Set(
+      chats.flatMap((chat) => [
+        `safargpt:${chat.id}`,
+        ...(chat.import_id ? [`${chat.import_source}:${chat.import_id}`] : []),
+      ]),
+    );
+  }
+
+  /**
+   * Store the chat and its messages in one go (see `import_chat`). `tracked`
+   * chats remember their source, so importing them again skips them.
+   */
+  private async store(
+    userId: string,
+    chat: ImportedChat,
+    tracked = true,
+  ): Promise<string> {
+    const firstPrompt = chat.messages.find((m) => m.role === 'user');
+    const { data, error } = await this.supabase
+      .getClient()
+      .rpc<'import_chat', ImportChat>('import_chat', {
+        p_chat: {
+          user_id: userId,
+          // Titles are kept as they were; chats without one get the usual placeholder
+          title:
+            chat.title ?? (firstPrompt?.content.slice(0, 25) || 'New chat'),
+          title_source: chat.title ? 'generated' : 'default',
+          import_source: tracked ? chat.source : null,
+          import_id: tracked ? chat.sourceId : null,
+          created_at: chat.created_at,
+        },
+        p_messages: chat.messages,
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,162 @@
+import { ChatExport } from './chat-export';
+import {
+  ImportError,
+  candidateTitle,
+  findConversations,
+  toImportedChat,
+} from './chat-import';
+
+// A ChatGPT `mapping` node
+const node = (
+  id: string,
+  parent: string | null,
+  children: string[],
+  message: Record<string, unknown> | null = null,
+) => ({ id, parent, children, message });
+
+const text = (role: string, content: string, extra = {}) => ({
+  author: { role },
+  create_time: 1760000000,
+  content: { content_type: 'text', parts: [content] },
+  ...extra,
+});
+
+const conversation = {
+  id: 'conv-1',
+  title: 'Trains to Bukhara',
+  create_time: 1759999999.5,
+  default_model_slug: 'gpt-4o',
+  mapping: {
+    root: node('root', null, ['system']),
+    system: node('system', 'root', ['q'], {
+      ...text('system', ''),
+      metadata: { is_visually_hidden_from_conversation: true },
+    }),
+    q: node(
+      'q',
+      'system',
+      ['call', 'a2'],
+      text('user', 'When do trains leave?'),
+    ),
+    call: node('call', 'q', ['result'], {
+      ...text('assistant', 'search("trains")'),
+      recipient: 'browser',
+    }),
+    result: node('result', 'call', ['a1'], text('tool', 'Timetable…')),
+    a1: node('a1', 'result', [], {
+      ...text('assistant', 'At 8:00.'),
+      metadata: { model_slug: 'gpt-4o-mini' },
+    }),
+    a2: node('a2', 'q', [], {
+      ...text('assistant', 'Every morning.'),
+      create_time: null,
+      metadata: { finish_details: { type: 'interrupted' } },
+    }),
+  },
+};
+
+describe('chat import', () => {
+  it('finds ChatGPT conversations and SafarGPT exports', () => {
+    const doc = { format: 'safargpt.chat', version: 1 };
+    expect(findConversations([conversation, { other: true }])).toEqual([
+      { source: 'chatgpt', data: conversation },
+    ]);
+    expect(findConversations(doc)).toEqual([{ source: 'safargpt', data: doc }]);
+    expect(findConversations({ conversations: [] })).toEqual([]);
+  });
+
+  it('keeps the prompts and answers of a ChatGPT conversation', () => {
+    const chat = toImportedChat({ source: 'chatgpt', data: conversation });
+
+    expect(chat).toMatchObject({
+      source: 'chatgpt',
+      sourceId: 'conv-1',
+      title: 'Trains to Bukhara',
+      created_at: '2025-10-09T08:53:19.500Z',
+    });
+    // Tool calls are left out; the answer hangs under the prompt instead
+    expect(chat.messages).toEqual([
+      expect.objectContaining({
+        parent: null,
+        role: 'user',
+        content: 'When do trains leave?',
+        model: 'gpt-4o',
+        created_at: '2025-10-09T08:53:20.000Z',
+      }),
+      expect.objectContaining({
+        parent: 0,
+        content: 'At 8:00.',
+        model: 'gpt-4o-mini',
+        interrupted: false,
+      }),
+      expect.objectContaining({
+        parent: 0,
+        content: 'Every morning.',
+        model: 'gpt-4o',
+        created_at: '2025-10-09T08:53:20.000Z',
+        interrupted: true,
+      }),
+    ]);
+  });
+
+  it('lists parents first when rebuilding a SafarGPT export', () => {
+    const message = (id: number, parent_id: number | null, role: string) => ({
+      id,
+      parent_id,
+      role,
+      content: `${role} ${id}`,
+      model: 'gpt-4o',
+      created_at: `2026-10-19T10:0${id}:00.000Z`,
+      interrupted: false,
+      attachments: [],
+      tool_call:
+        role === 'tool'
+          ? { id: 't', name: 'calculator', arguments: '{}' }
+          : null,
+      sources: null,
+    });
+    // The answer is stored before the tool call it comes after, and a system
+    // message someone added sits between it and the follow-up
+    const doc: ChatExport = {
+      format: 'safargpt.chat',
+      version: 1,
+      exported_at: '2026-10-19T12:00:00.000Z',
+      chat: { id: 'c1', title: null, created_at: '2026-10-19T10:00:00.000Z' },
+      messages: [
+        message(1, null, 'user'),
+        message(2, 3, 'assistant'),
+        message(3, 1, 'tool'),
+        message(4, 2, 'system'),
+        message(5, 4, 'user'),
+      ],
+    };
+
+    const chat = toImportedChat({ source: 'safargpt', data: doc });
+    expect(chat.messages.map((m) => [m.content, m.parent])).toEqual([
+      ['user 1', null],
+      ['tool 3', 0],
+      ['assistant 2', 1],
+      ['user 5', 2],
+    ]);
+    expect(chat.messages[1].tool_call).toMatchObject({ name: 'calculator' });
+  });
+
+  it('rejects conversations it cannot import', () => {
+    const empty = {
+      ...conversation,
+      mapping: { root: node('root', null, []) },
+    };
+    expect(() => toImportedChat({ source: 'chatgpt', data: empty })).toThrow(
+      new ImportError('No messages to import'),
+    );
+    expect(() =>
+      toImportedChat({
+        source: 'safargpt',
+        data: { format: 'safargpt.chat', version: 2 },
+      }),
+    ).toThrow('Unsupported export version 2');
+    expect(candidateTitle({ source: 'chatgpt', data: { title: ' ' } })).toBe(
+      'Untitled chat',
+    );
+  });
+});
@@ -0,0 +1,328 @@
+import { LlmToolCall } from '../llm/llm-provider';
+import { KnowledgeSource } from '../knowledge/knowledge.service';
+import {
+  CHAT_EXPORT_FORMAT,
+  CHAT_EXPORT_VERSION,
+  ChatExport,
+  ExportedMessage,
+} from './chat-export';
+
+/** Where an imported chat came from; stored in `chats.import_source`. */
+export type ImportSource = 'chatgpt' | 'safargpt';
+
+/** One conversation found in an uploaded file, not yet checked. */
+export interface ImportCandidate {
+  source: ImportSource;
+  data: unknown;
+}
+
+export interface ImportedMessage {
+  /** Index of the parent in `ImportedChat.messages`, which lists parents first. */
+  parent: number | null;
+  role: string;
+  content: string;
+  model: string | null;
+  created_at: string;
+  interrupted: boolean;
+  tool_call: LlmToolCall | null;
+  sources: KnowledgeSource[] | null;
+}
+
+/** A conversation mapped to a chat and its messages, ready to store. */
+export interface ImportedChat {
+  source: ImportSource;
+  /** The conversation's id in its source, used to skip it when imported again. */
+  sourceId: string;
+  title: string | null;
+  created_at: string;
+  messages: ImportedMessage[];
+}
+
+/**
+ * A conversation that cannot be imported, e.g. one without messages. Its
+ * message is reported to the user; the rest of the file is still imported.
+ */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const ROLES = ['user', 'assistant', 'system', 'tool'];
+
+// System prompts come from settings and assistants only, never from a
+// chat's messages, so imports leave them out
+const DROPPED_ROLES = ['system'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isChatExport = (value: unknown) =>
+  isObject(value) && value.format === CHAT_EXPORT_FORMAT;
+
+// Conversations of ChatGPT's export keep their messages in a `mapping` tree
+const isChatGptConversation = (value: unknown) =>
+  isObject(value) && isObject(value.mapping);
+
+/**
+ * The conversations in a parsed JSON file: ChatGPT's `conversations.json`
+ * (an array of conversations), a SafarGPT JSON export, or an array of either.
+ * Returns an empty list for anything else.
+ */
+export function findConversations(json: unknown): ImportCandidate[] {
+  return ([] as unknown[]).concat(json).flatMap((data): ImportCandidate[] => {
+    if (isChatExport(data)) return [{ source: 'safargpt', data }];
+    if (isChatGptConversation(data)) return [{ source: 'chatgpt', data }];
+    return [];
+  });
+}
+
+/** A title to report for a conversation, even one that fails to import. */
+export function candidateTitle({ source, data }: ImportCandidate): string {
+  const title =
+    source === 'safargpt'
+      ? (data as Partial<ChatExport>).chat?.title
+      : (data as { title?: unknown }).title;
+  return typeof title === 'string' && title.trim()
+    ? title.trim()
+    : 'Untitled chat';
+}
+
+export function toImportedChat(candidate: ImportCandidate): ImportedChat {
+  const chat =
+    candidate.source === 'safargpt'
+      ? fromChatExport(candidate.data as ChatExport)
+      : fromChatGpt(candidate.data as ChatGptConversation);
+  if (!chat.messages.length) {
+    throw new ImportError('No messages to import');
+  }
+  return chat;
+}
+
+interface TreeNode<T> {
+  key: string;
+  parentKey: string | null;
+  value: T;
+}
+
+/**
+ * Order messages so parents come before their children, siblings keeping
+ * their order, and point each one at its parent's index. Messages whose
+ * parent is missing start a branch of their own.
+ */
+function parentsFirst(
+  nodes: TreeNode<Omit<ImportedMessage, 'parent'>>[],
+): ImportedMessage[] {
+  const keys = new Set(nodes.map((n) => n.key));
+  const children = new Map<string | null, typeof nodes>();
+  for (const node of nodes) {
+    const parent =
+      node.parentKey !== null && keys.has(node.parentKey)
+        ? node.parentKey
+        : null;
+    children.set(parent, [...(children.get(parent) ?? []), node]);
+  }
+
+  const ordered: ImportedMessage[] = [];
+  const visit = (parentKey: string | null, parent: number | null) => {
+    for (const node of children.get(parentKey) ?? []) {
+      ordered.push({ ...node.value, parent });
+      visit(node.key, ordered.length - 1);
+    }
+  };
+  visit(null, null);
+  return ordered;
+}
+
+const validDate = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+function fromChatExport(doc: ChatExport): ImportedChat {
+  if (doc.version !== CHAT_EXPORT_VERSION) {
+    throw new ImportError(`Unsupported export version ${String(doc.version)}`);
+  }
+  if (!isObject(doc.chat) || typeof doc.chat.id !== 'string') {
+    throw new ImportError('The export has no chat id');
+  }
+  if (!Array.isArray(doc.messages)) {
+    throw new ImportError('No messages to import');
+  }
+
+  const messages = (doc.messages as unknown[]).map((message, i) => {
+    const m = message as Partial<ExportedMessage>;
+    if (
+      !isObject(message) ||
+      typeof m.id !== 'number' ||
+      !ROLES.includes(m.role as string) ||
+      typeof m.content !== 'string' ||
+      !validDate(m.created_at)
+    ) {
+      throw new ImportError(`Message ${i + 1} is not valid`);
+    }
+    return {
+      key: String(m.id),
+      parentKey: typeof m.parent_id === 'number' ? String(m.parent_id) : null,
+      value: {
+        role: m.role as string,
+        content: m.content,
+        model: typeof m.model === 'string' ? m.model : null,
+        created_at: new Date(m.created_at).toISOString(),
+        interrupted: m.interrupted === true,
+        tool_call: isObject(m.tool_call) ? m.tool_call : null,
+        sources: Array.isArray(m.sources) ? m.sources : null,
+      },
+    };
+  });
+
+  // Dropped messages are bridged over: their replies hang under their parent
+  const dropped = new Map(
+    messages
+      .filter((m) => DROPPED_ROLES.includes(m.value.role))
+      .map((m) => [m.key, m.parentKey]),
+  );
+  const keptParent = (key: string | null) => {
+    const seen = new Set<string>();
+    while (key !== null && dropped.has(key) && !seen.has(key)) {
+      seen.add(key);
+      key = dropped.get(key)!;
+    }
+    return key !== null && dropped.has(key) ? null : key;
+  };
+  const kept = messages
+    .filter((m) => !dropped.has(m.key))
+    .map((m) => ({ ...m, parentKey: keptParent(m.parentKey) }));
+
+  return {
+    source: 'safargpt',
+    sourceId: doc.chat.id,
+    title: typeof doc.chat.title === 'string' ? doc.chat.title : null,
+    created_at: validDate(doc.chat.created_at)
+      ? new Date(doc.chat.created_at).toISOString()
+      : (kept[0]?.value.created_at ?? new Date().toISOString()),
+    messages: parentsFirst(kept),
+  };
+}
+
+/** The parts of a ChatGPT `conversations.json` entry that are imported. */
+interface ChatGptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string | null;
+  create_time?: number | null;
+  default_model_slug?: string | null;
+  mapping: Record<string, ChatGptNode>;
+}
+
+interface ChatGptNode {
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[] };
+    recipient?: string;
+    metadata?: {
+      model_slug?: string;
+      is_visually_hidden_from_conversation?: boolean;
+      finish_details?: { type?: string };
+    };
+  } | null;
+}
+
+const fromUnixTime = (seconds: unknown) =>
+  typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : null;
+
+/**
+ * The text of a prompt or an answer. Tool calls and their results, hidden
+ * system messages, reasoning and images are left out.
+ */
+function chatGptText({ message }: ChatGptNode): string | null {
+  const role = message?.author?.role;
+  const { content_type, parts } = message?.content ?? {};
+  if (
+    (role !== 'user' && role !== 'assistant') ||
+    (message?.recipient ?? 'all') !== 'all' ||
+    message?.metadata?.is_visually_hidden_from_conversation ||
+    (content_type !== 'text' && content_type !== 'multimodal_text') ||
+    !Array.isArray(parts)
+  ) {
+    return null;
+  }
+  const text = parts
+    .filter((part): part is string => typeof part === 'string')
+    .join('\n')
+    .trim();
+  return text || null;
+}
+
+function fromChatGpt(conversation: ChatGptConversation): ImportedChat {
+  const sourceId = conversation.conversation_id ?? conversation.id;
+  if (typeof sourceId !== 'string') {
+    throw new ImportError('The conversation has no id');
+  }
+
+  const { mapping } = conversation;
+  const defaultModel = conversation.default_model_slug ?? null;
+  const createdAt = fromUnixTime(conversation.create_time);
+
+  // Skipped nodes are bridged over: a message hangs under its closest kept ancestor
+  const times = new Map<string, string>();
+  const nodes: TreeNode<Omit<ImportedMessage, 'parent'>>[] = [];
+  const visit = (key: string, parentKey: string | null, seen: Set<string>) => {
+    const node = mapping[key];
+    if (typeof node !== 'object' || node === null || seen.has(key)) return;
+    seen.add(key);
+
+    const text = chatGptText(node);
+    let childParent = parentKey;
+    if (text !== null) {
+      const message = node.message!;
+      const time =
+        fromUnixTime(message.create_time) ??
+        (parentKey && times.get(parentKey)) ??
+        createdAt ??
+        new Date().toISOString();
+      nodes.push({
+        key,
+        parentKey,
+        value: {
+          role: message.author!.role!,
+          content: text,
+          model:
+            message.author!.role === 'assistant'
+              ? (message.metadata?.model_slug ?? defaultModel)
+              : defaultModel,
+          created_at: time,
+          interrupted: message.metadata?.finish_details?.type === 'interrupted',
+          tool_call: null,
+          sources: null,
+        },
+      });
+      times.set(key, time);
+      childParent = key;
+    }
+
+    for (const child of node.children ?? []) {
+      visit(child, childParent, seen);
+    }
+  };
+
+  const seen = new Set<string>();
+  for (const [key, node] of Object.entries(mapping)) {
+    if (typeof node !== 'object' || node === null) continue;
+    if (node.parent && mapping[node.parent]) continue;
+    visit(key, null, seen);
+  }
+
+  const title =
+    typeof conversation.title === 'string' ? conversation.title.trim() : '';
+  return {
+    source: 'chatgpt',
+    sourceId,
+    title: title || null,
+    created_at:
+      createdAt ?? nodes[0]?.value.created_at ?? new Date().toISOString(),
+    messages: parentsFirst(nodes),
+  };
+}
@@ -0,0 +1,162 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ChatService, ChatSummary } from './chat.service';
+import { ChatImportService } from './chat-import.service';
+import {
+  ChatExport,
+  ExportedMessage,
+  toChatExport,
+  transcript,
+} from './chat-export';
+
+/** A share link as its owner sees it. */
+export interface ChatShare {
+  id: string;
+  /** Part of the public URL: /share/:token. */
+  token: string;
+  chat_id: string;
+  title: string | null;
+  created_at: string;
+}
+
+/** What anyone with the link sees: the conversation as it was shared. */
+export interface SharedChat {
+  title: string | null;
+  sharedAt: string;
+  messages: ExportedMessage[];
+}
+
+const SHARE_COLUMNS = 'id, token, chat_id, title, created_at';
+
+// 192 random bits, URL-safe
+const newToken = () => randomBytes(24).toString('base64url');
+
+/**
+ * The messages a link publishes. Tool results can quote the owner's other
+ * chats and sources hold knowledge base text, so both are blanked: viewers
+ * see which tools were called and the labels of the cited sources only.
+ */
+const publicMessages = (doc: ChatExport): ExportedMessage[] =>
+  transcript(doc).map((m) => ({
+    ...m,
+    content: m.role === 'tool' ? '' : m.content,
+    sources:
+      m.sources?.map((s) => ({ ...s, documentId: '', content: '' })) ?? null,
+  }));
+
+/**
+ * Public read-only links to chats. A link holds a snapshot of the branch the
+ * chat opens on, taken when it is created, so messages sent afterwards are
+ * not shared. Viewers who sign in can continue the conversation in a copy of
+ * their own.
+ */
+@Injectable()
+export class ChatShareService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    private readonly chats: ChatService,
+    private readonly imports: ChatImportService,
+  ) {}
+
+  async create(chatId: string, userId: string): Promise<ChatShare> {
+    const [chat, messages] = await Promise.all([
+      this.chats.getChat(chatId, userId),
+      this.chats.listMessages(chatId, userId),
+    ]);
+    const doc = toChatExport(chat, messages);
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('chat_shares')
+      .insert({
+        token: newToken(),
+        user_id: userId,
+        chat_id: chatId,
+        title: chat.title,
+        snapshot: { ...doc, messages: publicMessages(doc) },
+      })
+      .select(SHARE_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as ChatShare;
+  }
+
+  /** The user's links, latest first. */
+  async list(userId: string): Promise<ChatShare[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('chat_shares')
+      .select(SHARE_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as ChatShare[];
+  }
+
+  /** Delete a link of the user; it stops working at once. */
+  async revoke(id: string, userId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('chat_shares')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+    if (!(data as unknown[]).length) {
+      throw new NotFoundException('Share link not found');
+    }
+  }
+
+  /** The shared conversation, for anyone with the token. */
+  async get(token: string): Promise<SharedChat> {
+    const { snapshot, title, created_at } = await this.find(token);
+    return { title, sharedAt: created_at, messages: snapshot.messages };
+  }
+
+  /** Copy the shared conversation into the user's chats to carry it on. */
+  async continue(token: string, userId: string): Promise<ChatSummary> {
+    const { snapshot } = await this.find(token);
+    const chatId = await this.imports.copyChat(userId, snapshot);
+    return this.chats.getChat(chatId, userId);
+  }
+
+  private async find(token: string): Promise<{
+    title: string | null;
+    snapshot: ChatExport;
+    created_at: string;
+  }> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('chat_shares')
+      .select('title, snapshot, created_at')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    // Revoked and made-up tokens look the same
+    if (!data) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    return data as {
+      title: string | null;
+      snapshot: ChatExport;
+      created_at: string;
+    };
+  }
+}
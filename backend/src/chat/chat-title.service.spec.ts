@@ -0,0 +1,19 @@
+import { cleanTitle } from './chat-title.service';
+
+describe('cleanTitle', () => {
+  it('strips the decoration models add around titles', () => {
+    expect(cleanTitle('Title: "Trains to Samarkand."')).toBe(
+      'Trains to Samarkand',
+    );
+    expect(cleanTitle('**Plov recipes**\n\nHope this helps!')).toBe(
+      'Plov recipes',
+    );
+    expect(cleanTitle('  \n')).toBeNull();
+  });
+
+  it('cuts long titles at a word boundary', () => {
+    const title = cleanTitle(`Samarkand ${'caravanserai '.repeat(10)}`);
+    expect(title!.length).toBeLessThanOrEqual(60);
+    expect(title).toMatch(/ caravanserai$/);
+  });
+});
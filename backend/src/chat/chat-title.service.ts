@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmService } from '../llm/llm.service';
+import { SupabaseService } from '../supabase/supabase.service';
+
+const DEFAULT_TITLE_MODEL = 'gpt-4o-mini';
+const MAX_TITLE_LENGTH = 60;
+// Enough of the first message to tell what the chat is about
+const MAX_PROMPT_LENGTH = 2000;
+
+const TITLE_PROMPT =
+  'Write a title of at most six words for a conversation that starts with ' +
+  'the next message. Use the language of the message. Reply with the title ' +
+  'only, without quotes or punctuation at the end.';
+
+/**
+ * Turn a model reply into a sidebar title: first line only, without the
+ * quotes, markdown or "Title:" prefix models like to add. Long titles are cut
+ * at a word boundary. Returns `null` when nothing usable is left.
+ */
+export function cleanTitle(reply: string): string | null {
+  let title = (reply.trim().split('\n')[0] ?? '')
+    .replace(/^title\s*:\s*/i, '')
+    .replace(/^[#*_\s]+|[*_\s]+$/g, '')
+    .replace(/^["'“”«»]+|["'“”«»]+$/g, '')
+    .replace(/[.!。]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (title.length > MAX_TITLE_LENGTH) {
+    const cut = title.slice(0, MAX_TITLE_LENGTH + 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    title = (
+      lastSpace > 0 ? cut.slice(0, lastSpace) : cut.slice(0, MAX_TITLE_LENGTH)
+    ).trim();
+  }
+
+  return title || null;
+}
+
+/**
+ * Names new chats with a cheap model (`LLM_TITLE_MODEL`, `gpt-4o-mini` by
+ * default; set it empty to keep the truncated first message). Chats start
+ * with `title_source = 'default'`; a generated title only replaces such a
+ * title, so a rename made in the meantime always wins.
+ */
+@Injectable()
+export class ChatTitleService {
+  private readonly logger = new Logger(ChatTitleService.name);
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly llm: LlmService,
+    private readonly supabase: SupabaseService,
+  ) {}
+
+  /**
+   * Generate and store a title for the chat. Resolves to the new title, or
+   * `null` when titles are disabled, generation failed or the chat was
+   * renamed. Never rejects: the truncated title is a fine fallback.
+   */
+  async generate(chatId: string, firstMessage: string): Promise<string | null> {
+    const model =
+      this.config.get<string>('LLM_TITLE_MODEL') ?? DEFAULT_TITLE_MODEL;
+    if (!model || !firstMessage.trim()) return null;
+
+    try {
+      const { content } = await this.llm.complete({
+        model,
+        messages: [
+          { role: 'system', content: TITLE_PROMPT },
+          { role: 'user', content: firstMessage.slice(0, MAX_PROMPT_LENGTH) },
+        ],
+      });
+      const title = cleanTitle(content);
+      if (!title) return null;
+
+      const { data, error } = await this.supabase
+        .getClient()
+        .from('chats')
+        .update({ title, title_source: 'generated' })
+        .eq('id', chatId)
+        .eq('title_source', 'default')
+        .select('id');
+
+      if (error) {
+        throw error;
+      }
+
+      return (data as unknown[]).length ? title : null;
+    } catch (err) {
+      this.logger.warn(
+        `Could not generate a title for chat ${chatId}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return null;
+    }
+  }
+}
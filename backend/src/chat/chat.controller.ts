@@ -1,26 +1,90 @@
-import { Body, Controller, Get, Post, Req, Res, UseGuards, UnauthorizedException, Param, ParseUUIDPipe, Patch, Delete } from '@nestjs/common';
-import { Request, Response } from 'express';
-import { ChatService, ChatMessage } from './chat.service';
+import {
+  Body,
+  Controller,
+  Get,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+  UnauthorizedException,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Delete,
+  Query,
+  ParseIntPipe,
+  BadRequestException,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { AuthedRequest } from '../auth/authed-request';
+import {
+  ChatService,
+  ChatMessage,
+  ChatContext,
+  ChatOptions,
+} from './chat.service';
+import { encodeSseEvent } from './chat-events';
+import { GenerationParams } from '../llm/llm-provider';
+import { Generation, GenerationService } from './generation.service';
+import {
+  ChatExportService,
+  ExportFile,
+  parseExportFormat,
+} from './chat-export.service';
+import { ChatImportService } from './chat-import.service';
+import { ChatShareService } from './chat-share.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { OptionalJwtGuard } from '../auth/optional-jwt.guard';
 
 interface ChatRequestDto {
   messages: ChatMessage[];
-  model?: 'gpt-4o' | 'o3';
+  model?: string;
   chatId?: string;
+  parentId?: number | null; // message to continue from (defaults to the latest)
+  attachmentIds?: string[]; // uploads from POST /chat/attachments
+  useCustomInstructions?: boolean; // when starting a chat (defaults to true)
+  assistantId?: string; // when starting a chat from an assistant
+  params?: GenerationParams; // stored on the chat for the next turns
+  knowledgeCollectionId?: string; // when starting a chat grounded in a collection
+}
+
+interface UpdateChatDto {
+  title?: string;
+  useCustomInstructions?: boolean;
+  knowledgeCollectionId?: string | null; // null unlinks the collection
+}
+
+interface EditMessageDto {
+  content: string;
+  model?: string;
+  params?: GenerationParams;
+}
+
+interface RegenerateDto {
+  model?: string;
+  params?: GenerationParams;
 }
 
 @Controller('chat')
 export class ChatController {
-  constructor(private readonly chatService: ChatService) {}
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly generations: GenerationService,
+    private readonly exports: ChatExportService,
+    private readonly imports: ChatImportService,
+    private readonly shares: ChatShareService,
+  ) {}
 
   /**
    * GET /chat – return list of chats for the signed-in user.
    */
   @Get()
   @UseGuards(JwtAuthGuard)
-  async listChats(@Req() req: Request) {
-    const userId = (req as any).user?.sub;
+  async listChats(@Req() req: AuthedRequest) {
+    const userId = req.user?.sub;
     if (!userId) {
       throw new UnauthorizedException();
     }
@@ -29,13 +93,88 @@ export class ChatController {
     return { chats };
   }
 
+  /**
+   * GET /chat/search?q= – full-text search over the caller's chats, grouped
+   * by chat with highlighted snippets.
+   */
+  @Get('search')
+  @UseGuards(JwtAuthGuard)
+  async search(@Query('q') q: string | undefined, @Req() req: AuthedRequest) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    const results = await this.chatService.searchChats(userId, q);
+    return { results };
+  }
+
+  /**
+   * GET /chat/export?format=md|json|html|pdf – every chat of the caller as a
+   * zip with one file per chat.
+   */
+  @Get('export')
+  @UseGuards(JwtAuthGuard)
+  async exportAll(
+    @Query('format') format: string | undefined,
+    @Req() req: AuthedRequest,
+    @Res() res: Response,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    const file = await this.exports.exportAll(
+      userId,
+      parseExportFormat(format),
+    );
+    sendFile(res, file);
+  }
+
+  /** GET /chat/shares – the caller's share links, latest first. */
+  @Get('shares')
+  @UseGuards(JwtAuthGuard)
+  async listShares(@Req() req: AuthedRequest) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { shares: await this.shares.list(userId) };
+  }
+
+  /**
+   * GET /chat/models – models the caller may use (anonymous callers included).
+   */
+  @Get('models')
+  @UseGuards(OptionalJwtGuard)
+  async listModels(@Req() req: AuthedRequest) {
+    const userId = req.user?.sub;
+    const { models, defaultModel } = await this.chatService.listModels(userId);
+
+    return {
+      models: models.map((m) => ({
+        id: m.id,
+        displayName: m.displayName,
+        contextWindow: m.contextWindow,
+        maxOutputTokens: m.maxOutputTokens ?? null,
+        capabilities: m.capabilities,
+      })),
+      defaultModel,
+    };
+  }
+
   /**
    * GET /chat/:id/messages – returns message list for the given chat.
    */
   @Get(':id/messages')
   @UseGuards(JwtAuthGuard)
-  async getMessages(@Param('id', ParseUUIDPipe) id: string, @Req() req: Request) {
-    const userId = (req as any).user?.sub;
+  async getMessages(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
     if (!userId) {
       throw new UnauthorizedException();
     }
@@ -44,19 +183,126 @@ export class ChatController {
     return { messages };
   }
 
+  /**
+   * GET /chat/:id/export?format=md|json|html|pdf – download the chat
+   * (Markdown by default).
+   */
+  @Get(':id/export')
+  @UseGuards(JwtAuthGuard)
+  async exportChat(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('format') format: string | undefined,
+    @Req() req: AuthedRequest,
+    @Res() res: Response,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    const file = await this.exports.exportChat(
+      id,
+      userId,
+      parseExportFormat(format),
+    );
+    sendFile(res, file);
+  }
+
+  /**
+   * POST /chat/import – import conversations from ChatGPT's export (its zip
+   * or `conversations.json`) or from SafarGPT JSON exports (multipart field
+   * `file`). Answers with what became of each conversation.
+   */
+  @Post('import')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(FileInterceptor('file'))
+  async importChats(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+    if (!file) {
+      throw new BadRequestException('file is required');
+    }
+
+    return this.imports.importFile(userId, file.buffer);
+  }
+
+  /**
+   * POST /chat/:id/share – create a public read-only link to a snapshot of
+   * the chat as it is now (see GET /share/:token).
+   */
+  @Post(':id/share')
+  @UseGuards(JwtAuthGuard)
+  async shareChat(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { share: await this.shares.create(id, userId) };
+  }
+
   @Post()
   @UseGuards(OptionalJwtGuard)
-  async chat(@Body() body: ChatRequestDto, @Req() req: Request): Promise<{ answer: string }> {
-    const { messages, model, chatId } = body;
+  async chat(
+    @Body() body: ChatRequestDto,
+    @Req() req: AuthedRequest,
+  ): Promise<{ answer: string }> {
+    const {
+      messages,
+      model,
+      chatId,
+      parentId,
+      attachmentIds,
+      useCustomInstructions,
+      assistantId,
+      params,
+      knowledgeCollectionId,
+    } = body;
 
     if (!messages?.length) {
       throw new Error('messages array required');
     }
 
-    const answer = await this.chatService.chat(messages, {
+    const userId = req.user?.sub; // assumes JWT payload has `sub`
+    const context = await this.chatService.buildContext(messages, {
+      userId,
+      chatId,
+      parentId,
+      attachmentIds,
+    });
+    const assistant = await this.chatService.resolveAssistant(
+      assistantId,
+      userId,
+      chatId,
+    );
+    const resolvedModel = await this.chatService.resolveModel(
       model,
-      userId: (req as any).user?.sub, // assumes JWT payload has `sub`
+      userId,
+      assistant?.model,
+    );
+    this.chatService.assertModelAccepts(context, resolvedModel);
+    const collectionId = await this.chatService.resolveKnowledgeCollection(
+      knowledgeCollectionId,
+      userId,
+      chatId,
+    );
+
+    const answer = await this.chatService.chat(context, {
+      model: resolvedModel,
+      userId,
       chatId,
+      useCustomInstructions,
+      assistantId: assistant?.id,
+      params: this.chatService.parseParams(params, resolvedModel),
+      knowledgeCollectionId: collectionId,
     });
 
     return { answer };
@@ -65,72 +311,392 @@ export class ChatController {
   /**
    * POST /chat/stream – Same payload as /chat but keeps the HTTP connection
    * open and sends Server-Sent Events (SSE) so the client can render tokens
-   * as they are produced.
+   * as they are produced. See `ChatStreamEvent` for the event protocol.
    */
   @Post('stream')
   @UseGuards(OptionalJwtGuard)
-  async chatStream(@Body() body: ChatRequestDto, @Req() req: Request, @Res() res: Response) {
-    const { messages, model, chatId } = body;
+  async chatStream(
+    @Body() body: ChatRequestDto,
+    @Req() req: AuthedRequest,
+    @Res() res: Response,
+  ) {
+    const {
+      messages,
+      model,
+      chatId,
+      parentId,
+      attachmentIds,
+      useCustomInstructions,
+      assistantId,
+      params,
+      knowledgeCollectionId,
+    } = body;
 
     if (!messages?.length) {
       throw new Error('messages array required');
     }
 
+    // Validate before switching to SSE so bad input is a plain 400/404
+    const userId = req.user?.sub;
+    const assistant = await this.chatService.resolveAssistant(
+      assistantId,
+      userId,
+      chatId,
+    );
+    const resolvedModel = await this.chatService.resolveModel(
+      model,
+      userId,
+      assistant?.model,
+    );
+    const context = await this.chatService.buildContext(messages, {
+      userId,
+      chatId,
+      parentId,
+      attachmentIds,
+    });
+    const collectionId = await this.chatService.resolveKnowledgeCollection(
+      knowledgeCollectionId,
+      userId,
+      chatId,
+    );
+
+    await this.streamGeneration(
+      context,
+      {
+        model: resolvedModel,
+        userId,
+        chatId,
+        useCustomInstructions,
+        assistantId: assistant?.id,
+        params: this.chatService.parseParams(params, resolvedModel),
+        knowledgeCollectionId: collectionId,
+      },
+      res,
+    );
+  }
+
+  /**
+   * POST /chat/:id/messages/:messageId/regenerate – answer the user turn of an
+   * assistant message again. The new answer is stored as a sibling branch and
+   * streamed like /chat/stream. Body: `{ model?, params? }`.
+   */
+  @Post(':id/messages/:messageId/regenerate')
+  @UseGuards(JwtAuthGuard)
+  async regenerate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('messageId', ParseIntPipe) messageId: number,
+    @Body() body: RegenerateDto,
+    @Req() req: AuthedRequest,
+    @Res() res: Response,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    // The chat's assistant picks the model unless one is given
+    const assistant = await this.chatService.resolveAssistant(
+      undefined,
+      userId,
+      id,
+    );
+    const resolvedModel = await this.chatService.resolveModel(
+      body?.model,
+      userId,
+      assistant?.model,
+    );
+    const context = await this.chatService.buildRegenerateContext(
+      id,
+      messageId,
+      userId,
+    );
+
+    await this.streamGeneration(
+      context,
+      {
+        model: resolvedModel,
+        userId,
+        chatId: id,
+        params: this.chatService.parseParams(body?.params, resolvedModel),
+      },
+      res,
+    );
+  }
+
+  /**
+   * POST /chat/:id/messages/:messageId/edit – fork the conversation at a user
+   * message. The edited content is stored as a new branch next to the original
+   * (which stays untouched) and the answer is streamed like /chat/stream.
+   * Body: `{ content, model?, params? }`.
+   */
+  @Post(':id/messages/:messageId/edit')
+  @UseGuards(JwtAuthGuard)
+  async editMessage(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('messageId', ParseIntPipe) messageId: number,
+    @Body() body: EditMessageDto,
+    @Req() req: AuthedRequest,
+    @Res() res: Response,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    const assistant = await this.chatService.resolveAssistant(
+      undefined,
+      userId,
+      id,
+    );
+    const resolvedModel = await this.chatService.resolveModel(
+      body.model,
+      userId,
+      assistant?.model,
+    );
+    const context = await this.chatService.buildEditContext(
+      id,
+      messageId,
+      body.content,
+      userId,
+    );
+
+    await this.streamGeneration(
+      context,
+      {
+        model: resolvedModel,
+        userId,
+        chatId: id,
+        params: this.chatService.parseParams(body.params, resolvedModel),
+      },
+      res,
+    );
+  }
+
+  /**
+   * GET /chat/:id/generations/:gid/stream – reconnect to a running (or just
+   * finished) generation. Events after `Last-Event-ID` (header, or the
+   * `lastEventId` query parameter) are replayed, then live ones follow.
+   */
+  @Get(':id/generations/:gid/stream')
+  @UseGuards(JwtAuthGuard)
+  async resumeStream(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('gid', ParseUUIDPipe) gid: string,
+    @Query('lastEventId') lastEventIdQuery: string | undefined,
+    @Req() req: AuthedRequest,
+    @Res() res: Response,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    const generation = this.generations.get(gid, userId, id);
+    await this.pipeGeneration(
+      generation,
+      lastEventId(req.header('last-event-id'), lastEventIdQuery),
+      res,
+    );
+  }
+
+  /**
+   * GET /chat/generations/:gid/stream – like the route above, for generations
+   * without a chat: guests', whose unguessable generation id is their handle.
+   */
+  @Get('generations/:gid/stream')
+  @UseGuards(OptionalJwtGuard)
+  async resumeGeneration(
+    @Param('gid', ParseUUIDPipe) gid: string,
+    @Query('lastEventId') lastEventIdQuery: string | undefined,
+    @Req() req: AuthedRequest,
+    @Res() res: Response,
+  ) {
+    const generation = this.generations.get(gid, req.user?.sub);
+    await this.pipeGeneration(
+      generation,
+      lastEventId(req.header('last-event-id'), lastEventIdQuery),
+      res,
+    );
+  }
+
+  /**
+   * POST /chat/generations/:gid/cancel – stop a generation ("Stop" button).
+   * Works for guests too: the unguessable generation id is their handle.
+   */
+  @Post('generations/:gid/cancel')
+  @UseGuards(OptionalJwtGuard)
+  cancelGeneration(
+    @Param('gid', ParseUUIDPipe) gid: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const generation = this.generations.get(gid, req.user?.sub);
+    this.generations.cancel(generation);
+    return { success: true };
+  }
+
+  /**
+   * Start a generation detached from this request (so it can be resumed) and
+   * stream it to the response.
+   */
+  private async streamGeneration(
+    context: ChatContext,
+    options: Omit<ChatOptions, 'signal' | 'generationId'>,
+    res: Response,
+  ) {
+    this.chatService.assertModelAccepts(context, options.model);
+
+    const generation = this.generations.create({ userId: options.userId });
+    this.generations.run(
+      generation,
+      this.chatService.chatStream(context, {
+        ...options,
+        signal: generation.signal,
+        generationId: generation.id,
+      }),
+    );
+
+    await this.pipeGeneration(generation, 0, res);
+  }
+
+  /**
+   * Write a generation's events to the response as SSE until it ends or the
+   * client disconnects. A disconnect only detaches this client: the generation
+   * keeps running for a grace period so the client can resume.
+   */
+  private async pipeGeneration(
+    generation: Generation,
+    afterId: number,
+    res: Response,
+  ) {
     // Set SSE headers
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
     (res as any).flushHeaders?.();
 
-    try {
-      const stream = this.chatService.chatStream(messages, {
-        model,
-        userId: (req as any).user?.sub,
-        chatId,
-      });
+    const detach = new AbortController();
+    res.on('close', () => detach.abort());
 
-      for await (const token of stream) {
-        // Send each token as its own SSE event
-        const payload = token.replace(/\n/g, '\\n');
-        res.write(`data:${payload}\n\n`);
+    try {
+      for await (const { id, event } of this.generations.follow(
+        generation,
+        afterId,
+        detach.signal,
+      )) {
+        res.write(encodeSseEvent(event, id));
       }
-
-      res.write('data:[DONE]\n\n');
-    } catch (err) {
-      res.write(`event: error\ndata: ${(err as Error).message}\n\n`);
     } finally {
       res.end();
     }
   }
 
-  /** Rename a chat */
+  /**
+   * Rename a chat, turn custom instructions on or off for it and/or link it to
+   * a knowledge base collection (`null` unlinks it)
+   */
   @Patch(':id')
   @UseGuards(JwtAuthGuard)
-  async renameChat(
+  async updateChat(
     @Param('id', ParseUUIDPipe) id: string,
-    @Body('title') title: string,
-    @Req() req: Request,
+    @Body() body: UpdateChatDto,
+    @Req() req: AuthedRequest,
   ) {
-    const userId = (req as any).user?.sub;
+    const userId = req.user?.sub;
     if (!userId) {
       throw new UnauthorizedException();
     }
-    if (!title || typeof title !== 'string') {
-      throw new Error('title is required');
+    const { title, useCustomInstructions, knowledgeCollectionId } = body ?? {};
+    if (
+      title === undefined &&
+      useCustomInstructions === undefined &&
+      knowledgeCollectionId === undefined
+    ) {
+      throw new BadRequestException(
+        'title, useCustomInstructions or knowledgeCollectionId is required',
+      );
+    }
+    if (title !== undefined && (!title || typeof title !== 'string')) {
+      throw new BadRequestException('title must be a non-empty string');
+    }
+    if (
+      useCustomInstructions !== undefined &&
+      typeof useCustomInstructions !== 'boolean'
+    ) {
+      throw new BadRequestException('useCustomInstructions must be a boolean');
     }
-    await this.chatService.renameChat(id, userId, title);
+    if (
+      knowledgeCollectionId !== undefined &&
+      knowledgeCollectionId !== null &&
+      typeof knowledgeCollectionId !== 'string'
+    ) {
+      throw new BadRequestException(
+        'knowledgeCollectionId must be a string or null',
+      );
+    }
+
+    if (title !== undefined) {
+      await this.chatService.renameChat(id, userId, title);
+    }
+    if (useCustomInstructions !== undefined) {
+      await this.chatService.setCustomInstructions(
+        id,
+        userId,
+        useCustomInstructions,
+      );
+    }
+    if (knowledgeCollectionId !== undefined) {
+      await this.chatService.setKnowledgeCollection(
+        id,
+        userId,
+        knowledgeCollectionId,
+      );
+    }
+    return { success: true };
+  }
+
+  /** DELETE /chat/shares/:id – revoke a share link. */
+  @Delete('shares/:id')
+  @UseGuards(JwtAuthGuard)
+  async revokeShare(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    await this.shares.revoke(id, userId);
     return { success: true };
   }
 
   /** Delete a chat */
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
-  async deleteChat(@Param('id', ParseUUIDPipe) id: string, @Req() req: Request) {
-    const userId = (req as any).user?.sub;
+  async deleteChat(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
     if (!userId) {
       throw new UnauthorizedException();
     }
     await this.chatService.deleteChat(id, userId);
     return { success: true };
   }
-} 
\ No newline at end of file
+}
+
+function sendFile(res: Response, file: ExportFile): void {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+  );
+  res.send(file.data);
+}
+
+/** Where a resumed stream picks up, from `Last-Event-ID` or its query twin. */
+function lastEventId(header?: string, query?: string): number {
+  const id = Number(header ?? query ?? 0);
+  return Number.isFinite(id) ? id : 0;
+}
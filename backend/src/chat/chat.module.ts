@@ -1,12 +1,60 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { LlmModule } from '../llm/llm.module';
+import { AttachmentsModule } from '../attachments/attachments.module';
+import { SettingsModule } from '../settings/settings.module';
+import { AssistantsModule } from '../assistants/assistants.module';
+import { ToolsModule } from '../tools/tools.module';
+import { KnowledgeModule } from '../knowledge/knowledge.module';
+import { MemoryModule } from '../memory/memory.module';
 import { ChatService } from './chat.service';
+import { GenerationService } from './generation.service';
+import { ChatTitleService } from './chat-title.service';
+import { ContextWindowService } from './context-window.service';
+import { ChatExportService } from './chat-export.service';
+import { ChatImportService } from './chat-import.service';
+import { ChatShareService } from './chat-share.service';
 import { ChatController } from './chat.controller';
+import { ShareController } from './share.controller';
+
+const DEFAULT_IMPORT_MAX_BYTES = 100 * 1024 * 1024;
 
 @Module({
-  imports: [ConfigModule, SupabaseModule],
-  providers: [ChatService],
-  controllers: [ChatController],
+  imports: [
+    ConfigModule,
+    SupabaseModule,
+    LlmModule,
+    AttachmentsModule,
+    SettingsModule,
+    AssistantsModule,
+    ToolsModule,
+    KnowledgeModule,
+    MemoryModule,
+    // Imported histories are parsed as a whole, so they stay in memory
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        limits: {
+          files: 1,
+          fileSize: Number(
+            config.get<string>('IMPORT_MAX_BYTES') ?? DEFAULT_IMPORT_MAX_BYTES,
+          ),
+        },
+      }),
+    }),
+  ],
+  providers: [
+    ChatService,
+    GenerationService,
+    ChatTitleService,
+    ContextWindowService,
+    ChatExportService,
+    ChatImportService,
+    ChatShareService,
+  ],
+  controllers: [ChatController, ShareController],
 })
-export class ChatModule {} 
\ No newline at end of file
+export class ChatModule {}
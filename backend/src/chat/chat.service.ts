@@ -1,88 +1,505 @@
-import { Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
+import { LlmService } from '../llm/llm.service';
+import {
+  GenerationParams,
+  LlmContentPart,
+  LlmMessage,
+  LlmToolCall,
+} from '../llm/llm-provider';
+import { ChatStreamEvent, toErrorEvent } from './chat-events';
+import { pathTo } from './message-tree';
+import { parseGenerationParams, supportedParams } from './generation-params';
+import {
+  MAX_SEARCH_QUERY_LENGTH,
+  SearchSnippet,
+  parseHeadline,
+} from './search-snippet';
+import { ChatTitleService } from './chat-title.service';
+import { SettingsService } from '../settings/settings.service';
+import { Memory, MemoryService } from '../memory/memory.service';
+import { Assistant, AssistantsService } from '../assistants/assistants.service';
+import { ToolRegistry } from '../tools/tool-registry';
+import {
+  KnowledgeService,
+  KnowledgeSource,
+} from '../knowledge/knowledge.service';
+import {
+  BudgetedMessage,
+  ContextWindowService,
+  FittedContext,
+} from './context-window.service';
+import {
+  Attachment,
+  AttachmentSummary,
+  AttachmentsService,
+  isImage,
+  toAttachmentSummary,
+} from '../attachments/attachments.service';
+import {
+  ModelDefinition,
+  ModelRegistry,
+  ModelRole,
+} from '../llm/model-registry';
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
 }
 
+/** A message of the context with its attachments, resolved per model on use. */
+export interface ContextMessage extends ChatMessage, BudgetedMessage {
+  attachments: Attachment[];
+}
+
+export interface StoredMessage {
+  id: number;
+  parent_id: number | null;
+  role: string;
+  content: string;
+  model: string | null;
+  interrupted: boolean;
+  created_at: string;
+  attachments: AttachmentSummary[];
+  /** Older messages up to this one are sent to the model as a summary. */
+  summarized: boolean;
+  /** For `tool` messages, the call they hold the result of. */
+  tool_call: LlmToolCall | null;
+  /** Knowledge base chunks the answer was given, cited as `[index]`. */
+  sources: KnowledgeSource[] | null;
+}
+
+/** A stored message with everything the model needs to see of it. */
+type HistoryMessage = Omit<StoredMessage, 'attachments' | 'summarized'> & {
+  attachments: Attachment[];
+  summary: string | null;
+};
+
+/**
+ * What the model is asked to answer, and where the answer goes in the tree.
+ */
+export interface ChatContext {
+  /** Messages sent to the model, ending with the user turn being answered. */
+  messages: ContextMessage[];
+  /** Stored message the new rows hang off (`null` for the root of a chat). */
+  parentId: number | null;
+  /** User turn to store; `null` when regenerating (it is stored as `parentId`). */
+  userTurn: { content: string; attachments: Attachment[] } | null;
+}
+
 export interface ChatOptions {
-  model?: 'gpt-4o' | 'o3';
+  model: string; // model id, already validated against the registry
   userId?: string; // optional Supabase user id
   chatId?: string; // existing chat id (if continuing a thread)
+  signal?: AbortSignal; // aborts the provider call, e.g. when the client leaves
+  generationId?: string; // id under which the stream is buffered for resumption
+  useCustomInstructions?: boolean; // for a new chat; existing chats keep theirs
+  assistantId?: string; // assistant a new chat is started with
+  params?: GenerationParams; // validated; replaces the chat's stored ones
+  knowledgeCollectionId?: string; // collection a new chat answers from
+}
+
+/** A chat as listed in the sidebar. */
+export interface ChatSummary {
+  id: string;
+  title: string | null;
+  created_at: string;
+  /** Whether the user's custom instructions are sent with this chat. */
+  use_custom_instructions: boolean;
+  /** Assistant the chat was started with, if any. */
+  assistant_id: string | null;
+  /** Parameters of the latest turn, reused by the next ones. */
+  generation_params: GenerationParams;
+  /** Knowledge base collection each turn retrieves sources from, if any. */
+  knowledge_collection_id: string | null;
+}
+
+const CHAT_SUMMARY_COLUMNS =
+  'id, title, created_at, use_custom_instructions, assistant_id, generation_params, knowledge_collection_id';
+
+export interface ChatSearchResult {
+  chatId: string;
+  title: string | null;
+  createdAt: string;
+  matches: Array<{
+    messageId: number | null; // null for a match in the title
+    role: string | null;
+    snippet: SearchSnippet;
+    createdAt: string;
+  }>;
+}
+
+interface SearchRow {
+  chat_id: string;
+  chat_title: string | null;
+  chat_created_at: string;
+  message_id: number | null;
+  role: string | null;
+  snippet: string;
+  created_at: string;
+}
+
+/** The `search_chats` Postgres function, as called through `rpc()`. */
+interface SearchChats {
+  Args: { p_user_id: string; p_query: string; p_limit: number };
+  Returns: SearchRow[];
+}
+
+/** What a chat sends before its history, and how it samples. */
+interface ChatSetup {
+  pinned: LlmMessage[];
+  params: GenerationParams;
+  knowledgeCollectionId: string | null;
+  /** The user has memory on: facts are recalled and learned each turn. */
+  memoryEnabled: boolean;
+}
+
+// OpenAI only accepts JSON mode when the prompt asks for JSON
+const JSON_MODE_PROMPT = 'Reply with a single valid JSON object.';
+
+// Model calls per answer that may use tools; the last call has to answer
+const MAX_TOOL_STEPS = 5;
+
+interface ExchangeRecord {
+  chatId: string;
+  userMessageId: number;
+  assistantMessageId: number;
+  newChat: boolean; // this turn created the chat, so it still needs a title
+  toolMessageIds: number[]; // tool calls stored so far; the answer hangs below the last
+  sources: KnowledgeSource[]; // stored with the answer
+  memoryEnabled: boolean; // learn about the user once the answer completes
 }
 
 @Injectable()
 export class ChatService {
-  private readonly openai: OpenAI;
-
   constructor(
-    private readonly config: ConfigService,
+    private readonly llm: LlmService,
+    private readonly models: ModelRegistry,
     private readonly supabase: SupabaseService,
-  ) {
-    this.openai = new OpenAI({
-      apiKey: this.config.getOrThrow<string>('OPENAI_API_KEY'),
-    });
+    private readonly attachments: AttachmentsService,
+    private readonly titles: ChatTitleService,
+    private readonly contextWindow: ContextWindowService,
+    private readonly settings: SettingsService,
+    private readonly assistants: AssistantsService,
+    private readonly tools: ToolRegistry,
+    private readonly knowledge: KnowledgeService,
+    private readonly memory: MemoryService,
+  ) {}
+
+  /**
+   * Models the caller may choose from, plus the one used when none is given.
+   */
+  async listModels(
+    userId?: string,
+  ): Promise<{ models: ModelDefinition[]; defaultModel: string | null }> {
+    const role = await this.getUserRole(userId);
+    return {
+      models: this.models.listFor(role),
+      defaultModel: this.models.defaultFor(role)?.id ?? null,
+    };
+  }
+
+  /**
+   * Validate the requested model for the caller, falling back to `preferred`
+   * (an assistant's model) if they may use it, else to their default model
+   * when none is given. Unknown or forbidden models are rejected.
+   */
+  async resolveModel(
+    requested: string | undefined,
+    userId?: string,
+    preferred?: string | null,
+  ): Promise<string> {
+    const role = await this.getUserRole(userId);
+
+    if (!requested) {
+      if (preferred && this.models.isAllowed(preferred, role)) {
+        return preferred;
+      }
+      const fallback = this.models.defaultFor(role);
+      if (!fallback) {
+        throw new BadRequestException('No model available');
+      }
+      return fallback.id;
+    }
+
+    if (!this.models.get(requested)) {
+      throw new BadRequestException(`Unknown model "${requested}"`);
+    }
+    if (!this.models.isAllowed(requested, role)) {
+      throw new BadRequestException(`Model "${requested}" is not available`);
+    }
+
+    return requested;
   }
 
   /**
-   * Send the conversation to OpenAI and (optionally) persist the messages.
+   * The assistant of a turn: the one an existing chat was started with, or
+   * `assistantId` for a new chat, which must be one the caller may use.
+   * Guests cannot use assistants.
+   */
+  async resolveAssistant(
+    assistantId: string | undefined,
+    userId?: string,
+    chatId?: string,
+  ): Promise<Assistant | null> {
+    if (userId && chatId) {
+      await this.assertChatOwner(chatId, userId);
+      const { data, error } = await this.supabase
+        .getClient()
+        .from('chats')
+        .select('assistant_id')
+        .eq('id', chatId)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      const { assistant_id } = data as Pick<ChatSummary, 'assistant_id'>;
+      return assistant_id ? this.assistants.find(assistant_id) : null;
+    }
+
+    if (assistantId === undefined) return null;
+    if (!userId) {
+      throw new BadRequestException('Sign in to use assistants');
+    }
+    if (typeof assistantId !== 'string') {
+      throw new BadRequestException('assistantId must be a string');
+    }
+    return this.assistants.get(assistantId, userId);
+  }
+
+  /**
+   * Validate the knowledge base collection a new chat is started with, which
+   * must be one of the caller's. Existing chats keep theirs (see
+   * `setKnowledgeCollection`), and guests have no knowledge base.
+   */
+  async resolveKnowledgeCollection(
+    collectionId: unknown,
+    userId?: string,
+    chatId?: string,
+  ): Promise<string | undefined> {
+    if (collectionId === undefined || collectionId === null || chatId) {
+      return undefined;
+    }
+    if (!userId) {
+      throw new BadRequestException('Sign in to use a knowledge base');
+    }
+    if (typeof collectionId !== 'string') {
+      throw new BadRequestException('knowledgeCollectionId must be a string');
+    }
+    return (await this.knowledge.getCollection(collectionId, userId)).id;
+  }
+
+  /**
+   * Validate the generation parameters of a request for `model`. Resolves to
+   * `undefined` when none were given, so the chat's stored ones apply.
+   */
+  parseParams(input: unknown, model: string): GenerationParams | undefined {
+    if (input === undefined) return undefined;
+    return parseGenerationParams(input, this.models.get(model)!);
+  }
+
+  /**
+   * Reject a new turn the model cannot take, i.e. images for a model without
+   * vision. Images already in the history are described in text instead.
+   */
+  assertModelAccepts(context: ChatContext, model: string): void {
+    const images = context.userTurn?.attachments.some(isImage) ?? false;
+    if (images && !this.models.get(model)?.capabilities.vision) {
+      throw new BadRequestException(`Model "${model}" does not accept images`);
+    }
+  }
+
+  /**
+   * Build the conversation sent to the model from a client request.
+   *
+   * Clients may not inject `system` messages and the last message must be the
+   * new user turn. For signed-in users the stored history is authoritative:
+   * an existing chat (which must belong to the caller) is loaded from the
+   * `messages` table and only the new turn is taken from the request, so what
+   * is stored and what the model sees never diverge. Guests have no stored
+   * history and keep sending theirs.
+   *
+   * `parentId` picks the branch to continue: the new turn is attached to that
+   * message and only its path is sent as context. When omitted the most recent
+   * message is used; `null` starts a new root branch.
    *
-   * @param messages Existing conversation including the newest user message.
-   * @param options  Chat options such as model, userId, chatId.
+   * `attachmentIds` are uploads (see `AttachmentsService`) sent with the new
+   * turn; their extracted text is added to what the model sees.
    */
-  async chat(
+  async buildContext(
     messages: ChatMessage[],
-    options: ChatOptions = {},
-  ): Promise<string> {
-    // 1. Call OpenAI
-    const model = options.model ?? 'gpt-4o';
-    const completion = await this.openai.chat.completions.create({
-      model,
-      messages,
+    options: Pick<ChatOptions, 'userId' | 'chatId'> & {
+      parentId?: number | null;
+      attachmentIds?: string[];
+    },
+  ): Promise<ChatContext> {
+    if (messages.some((m) => m?.role === 'system')) {
+      throw new BadRequestException('system messages are not accepted');
+    }
+
+    const latest = messages[messages.length - 1];
+    if (latest?.role !== 'user' || typeof latest.content !== 'string') {
+      throw new BadRequestException('last message must be a user message');
+    }
+
+    if (!options.userId) {
+      // Guests send their whole history, which may only hold prompts and answers
+      const valid = messages.every(
+        (m) =>
+          (m?.role === 'user' || m?.role === 'assistant') &&
+          typeof m.content === 'string',
+      );
+      if (!valid) {
+        throw new BadRequestException(
+          'messages may only be user and assistant messages with text content',
+        );
+      }
+      if (options.attachmentIds?.length) {
+        throw new BadRequestException('Sign in to attach files');
+      }
+      return {
+        messages: messages.map(({ role, content }) => ({
+          role,
+          content,
+          attachments: [],
+        })),
+        parentId: null,
+        userTurn: { content: latest.content, attachments: [] },
+      };
+    }
+
+    const userTurn = {
+      content: latest.content,
+      attachments: await this.attachments.claim(
+        options.attachmentIds,
+        options.userId,
+      ),
+    };
+    if (!options.chatId) {
+      return branchContext([], null, userTurn);
+    }
+
+    const history = await this.loadHistory(options.chatId, options.userId);
+    // Tool messages sit above the answer they led to, never at the end of a branch
+    const parentId =
+      options.parentId === undefined
+        ? (history.findLast((m) => m.role !== 'tool')?.id ?? null)
+        : options.parentId;
+
+    if (parentId !== null && !history.some((m) => m.id === parentId)) {
+      throw new BadRequestException('parentId is not a message of this chat');
+    }
+
+    return branchContext(history, parentId, userTurn);
+  }
+
+  /**
+   * Build the context for an edited user message. The edit is stored as a
+   * sibling of the original (same parent), so the original branch stays
+   * reachable, and the model only sees the history before it. Attachments of
+   * the original are carried over.
+   */
+  async buildEditContext(
+    chatId: string,
+    messageId: number,
+    content: string,
+    userId: string,
+  ): Promise<ChatContext> {
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new BadRequestException('content is required');
+    }
+
+    const history = await this.loadHistory(chatId, userId);
+    const target = history.find((m) => m.id === messageId && m.role === 'user');
+    if (!target) {
+      throw new NotFoundException('Message not found');
+    }
+
+    return branchContext(history, target.parent_id, {
+      content,
+      attachments: target.attachments,
     });
+  }
 
-    const assistantMessage = completion.choices[0].message;
+  /**
+   * Build the context to answer the same user turn as an existing assistant
+   * message again. The new answer becomes a sibling of that message.
+   */
+  async buildRegenerateContext(
+    chatId: string,
+    messageId: number,
+    userId: string,
+  ): Promise<ChatContext> {
+    const history = await this.loadHistory(chatId, userId);
+    const target = history.find(
+      (m) => m.id === messageId && m.role === 'assistant',
+    );
+    if (!target) {
+      throw new NotFoundException('Message not found');
+    }
 
-    // 2. Optionally persist to Supabase (only for logged-in users)
-    if (options.userId) {
-      // Derive a conversation title from the first user message (fallback to generic)
-      const firstUserMsg = messages.find((m) => m.role === 'user') ?? messages[0];
-      const title = firstUserMsg?.content?.slice(0, 25) ?? 'New chat';
+    // Answer the user turn the target replied to
+    const path = pathTo(history, target.parent_id);
+    let end = path.length - 1;
+    while (end >= 0 && path[end].role !== 'user') end--;
+    if (end < 0) {
+      throw new BadRequestException('Message has no user turn to answer');
+    }
 
-      const { chatId } = await this.ensureChatRecord(options.chatId, options.userId, title);
+    return {
+      messages: toContextMessages(path.slice(0, end + 1)),
+      parentId: path[end].id,
+      userTurn: null,
+    };
+  }
 
-      // Persist both the user message (assumed to be last in array) and assistant reply
-      const latestUserMessage = messages[messages.length - 1] as ChatMessage;
-      await this.supabase.getClient().from('messages').insert([
-        {
-          chat_id: chatId,
-          role: latestUserMessage.role,
-          content: latestUserMessage.content,
-          model,
-        },
-        {
-          chat_id: chatId,
-          role: assistantMessage.role,
-          content: assistantMessage.content,
-          model,
-        },
-      ]);
+  /**
+   * Send the conversation to the model's provider and (optionally) persist the messages.
+   *
+   * @param context Conversation from `buildContext`, ending with the new user message.
+   * @param options Chat options such as model, userId, chatId.
+   */
+  async chat(context: ChatContext, options: ChatOptions): Promise<string> {
+    const { model } = options;
+
+    // 1. Store the user turn and reserve the assistant row (if logged in)
+    const exchange = await this.startExchange(context, options);
+    void this.nameNewChat(exchange, context);
+
+    // 2. Call the LLM provider configured for this model
+    let content: string;
+    try {
+      const { messages, params, sources, memoryEnabled } =
+        await this.prepareMessages(context, options, exchange?.chatId);
+      if (exchange) {
+        exchange.sources = sources;
+        exchange.memoryEnabled = memoryEnabled;
+      }
+      ({ content } = await this.llm.complete({ ...params, model, messages }));
+    } catch (err) {
+      await this.finishExchange(exchange, '');
+      throw err;
     }
 
-    return assistantMessage.content ?? '';
+    // 3. Persist the answer
+    await this.finishExchange(exchange, content);
+    void this.learnFromExchange(exchange, context, options, content);
+    return content;
   }
 
   /**
    * Return all chats for a given user (latest first).
    */
-  async listChats(userId: string): Promise<Array<{ id: string; title: string | null; created_at: string }>> {
+  async listChats(userId: string): Promise<ChatSummary[]> {
     const { data, error } = await this.supabase
       .getClient()
       .from('chats')
-      .select('id, title, created_at')
+      .select(CHAT_SUMMARY_COLUMNS)
       .eq('user_id', userId)
       .order('created_at', { ascending: false });
 
@@ -90,123 +507,740 @@ export class ChatService {
       throw error;
     }
 
-    return data as Array<{ id: string; title: string | null; created_at: string }>;
+    return data as ChatSummary[];
+  }
+
+  /** A chat of the user, or a 404. */
+  async getChat(chatId: string, userId: string): Promise<ChatSummary> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('chats')
+      .select(CHAT_SUMMARY_COLUMNS)
+      .eq('id', chatId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundException('Chat not found');
+    }
+
+    return data as ChatSummary;
   }
 
   /**
-   * Return the messages for a given chat (oldest → newest).
+   * Full-text search over the user's chats (message content and titles). Chats
+   * come best match first, each with its top matches as highlighted snippets.
    */
-  async listMessages(chatId: string, userId: string): Promise<Array<{ role: string; content: string; model: string | null; created_at: string }>> {
+  async searchChats(
+    userId: string,
+    query: string | undefined,
+    limit = 20,
+  ): Promise<ChatSearchResult[]> {
+    const q = query?.trim();
+    if (!q) {
+      throw new BadRequestException('q is required');
+    }
+    if (q.length > MAX_SEARCH_QUERY_LENGTH) {
+      throw new BadRequestException('q is too long');
+    }
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .rpc<'search_chats', SearchChats>('search_chats', {
+        p_user_id: userId,
+        p_query: q,
+        p_limit: limit,
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    // Rows come sorted by chat rank, then by match rank within a chat
+    const results = new Map<string, ChatSearchResult>();
+    for (const row of data) {
+      // Tool results are shown as part of the answer they led to
+      if (row.role === 'tool') continue;
+
+      let result = results.get(row.chat_id);
+      if (!result) {
+        result = {
+          chatId: row.chat_id,
+          title: row.chat_title,
+          createdAt: row.chat_created_at,
+          matches: [],
+        };
+        results.set(row.chat_id, result);
+      }
+      result.matches.push({
+        messageId: row.message_id,
+        role: row.role,
+        snippet: parseHeadline(row.snippet),
+        createdAt: row.created_at,
+      });
+    }
+
+    return [...results.values()];
+  }
+
+  /**
+   * Return the messages for a given chat (oldest → newest) with their
+   * attachments. Throws a 404 if the chat does not belong to the user.
+   */
+  async listMessages(chatId: string, userId: string): Promise<StoredMessage[]> {
+    const history = await this.loadHistory(chatId, userId);
+    return history.map(({ summary, ...m }) => ({
+      ...m,
+      attachments: m.attachments.map(toAttachmentSummary),
+      summarized: summary !== null,
+    }));
+  }
+
+  private async loadHistory(
+    chatId: string,
+    userId: string,
+  ): Promise<HistoryMessage[]> {
+    await this.assertChatOwner(chatId, userId);
+
     const { data, error } = await this.supabase
       .getClient()
       .from('messages')
-      .select('role, content, model, created_at')
+      .select(
+        'id, parent_id, role, content, model, interrupted, created_at, summary, tool_call, sources',
+      )
       .eq('chat_id', chatId)
-      .order('created_at', { ascending: true });
+      .order('created_at', { ascending: true })
+      // Rows inserted together share `created_at`; ids keep them in order
+      .order('id', { ascending: true });
 
     if (error) {
       throw error;
     }
 
-    return data as Array<{ role: string; content: string; model: string | null; created_at: string }>;
+    const messages = data as Omit<HistoryMessage, 'attachments'>[];
+    const attachments = await this.attachments.forMessages(
+      messages.map((m) => m.id),
+    );
+
+    return messages.map((m) => ({
+      ...m,
+      attachments: attachments.filter((a) => a.message_id === m.id),
+    }));
   }
 
   /**
-   * Stream the assistant reply token-by-token. Yields every new chunk while still
-   * accumulating the full answer so we can persist it afterwards.
+   * Stream the assistant reply as protocol events. For logged-in users the user
+   * turn and an assistant placeholder are stored before the model is called so
+   * the `meta` event can carry their ids; the placeholder is filled in at the end.
+   *
+   * Models with the `tools` capability may call tools (see `ToolRegistry`)
+   * before answering. Each call is run, stored as a `tool` message between the
+   * user turn and the answer, and its result sent back to the model, for up
+   * to `MAX_TOOL_STEPS` rounds.
+   *
+   * Chats linked to a knowledge base collection get the chunks closest to the
+   * user turn as numbered sources, announced in a `sources` event and stored
+   * with the answer.
    */
   async *chatStream(
-    messages: ChatMessage[],
-    options: ChatOptions = {},
-  ): AsyncGenerator<string> {
-    const model = options.model ?? 'gpt-4o';
+    context: ChatContext,
+    options: ChatOptions,
+  ): AsyncGenerator<ChatStreamEvent> {
+    const { model } = options;
 
-    // 1. Call OpenAI in streaming mode
-    const stream = await this.openai.chat.completions.create({
+    // 1. Store the user turn and reserve the assistant row (if logged in)
+    const exchange = await this.startExchange(context, options);
+    yield {
+      type: 'meta',
+      generationId: options.generationId ?? null,
+      chatId: exchange?.chatId ?? null,
+      userMessageId: exchange?.userMessageId ?? null,
+      assistantMessageId: exchange?.assistantMessageId ?? null,
       model,
-      messages,
-      stream: true,
-    });
+    };
 
+    // Named alongside the answer; only awaited if the answer completes
+    const title = this.nameNewChat(exchange, context);
+
+    // 2. Call the LLM provider in streaming mode
     let fullAnswer = '';
 
-    for await (const part of stream) {
-      const token = part.choices[0]?.delta?.content ?? '';
-      if (token) {
-        fullAnswer += token;
-        yield token;
+    try {
+      const { messages, omitted, mode, params, sources, memoryEnabled } =
+        await this.prepareMessages(context, options, exchange?.chatId);
+      if (exchange) exchange.memoryEnabled = memoryEnabled;
+      if (mode) {
+        yield { type: 'context', mode, omitted };
+      }
+      if (sources.length) {
+        if (exchange) exchange.sources = sources;
+        yield { type: 'sources', sources };
+      }
+
+      const toolContext = {
+        userId: options.userId,
+        chatId: exchange?.chatId,
+        signal: options.signal,
+      };
+      const tools = this.models.get(model)?.capabilities.tools
+        ? this.tools.definitions(toolContext)
+        : [];
+
+      for (let step = 1; ; step++) {
+        const stream = this.llm.stream({
+          ...params,
+          model,
+          messages,
+          tools: step < MAX_TOOL_STEPS && tools.length ? tools : undefined,
+          signal: options.signal,
+        });
+
+        let text = '';
+        const calls: LlmToolCall[] = [];
+        for await (const chunk of stream) {
+          if (chunk.type === 'delta') {
+            text += chunk.content;
+            fullAnswer += chunk.content;
+            yield chunk;
+          } else if (chunk.type === 'tool_call') {
+            calls.push(chunk.call);
+          } else {
+            yield { type: 'usage', ...chunk.usage };
+          }
+        }
+        if (!calls.length) break;
+
+        messages.push({ role: 'assistant', content: text, toolCalls: calls });
+        for (const call of calls) {
+          yield { type: 'tool_call', ...call };
+          const result = await this.tools.run(call, toolContext);
+          await this.saveToolMessage(exchange, call, result.content, model);
+          messages.push({
+            role: 'tool',
+            content: result.content,
+            toolCallId: call.id,
+          });
+          yield { type: 'tool_result', id: call.id, ...result };
+        }
       }
+    } catch (err) {
+      // Keep whatever was produced before the failure or the cancellation
+      if (options.signal?.aborted) {
+        await this.finishExchange(exchange, fullAnswer, true);
+        yield { type: 'done', interrupted: true };
+        return;
+      }
+
+      await this.finishExchange(exchange, fullAnswer);
+      yield toErrorEvent(err);
+      return;
     }
 
-    // 2. Persist conversation once stream finished (if logged in)
-    await this.persistIfNeeded(messages, fullAnswer, options);
+    // 3. Persist the full answer
+    await this.finishExchange(exchange, fullAnswer);
+    void this.learnFromExchange(exchange, context, options, fullAnswer);
+    const generatedTitle = await title;
+    if (exchange && generatedTitle) {
+      yield { type: 'title', chatId: exchange.chatId, title: generatedTitle };
+    }
+    yield { type: 'done', interrupted: false };
   }
 
   /**
-   * Shared helper to store both the user's last message and the assistant reply
-   * when a user is authenticated.
+   * Provider messages for the context, fitted into the model's context window
+   * after the chat's system messages, what is remembered about the user and
+   * knowledge base sources, and the parameters the model accepts.
    */
-  private async persistIfNeeded(
-    messages: ChatMessage[],
-    assistantContent: string,
+  private async prepareMessages(
+    context: ChatContext,
+    options: ChatOptions,
+    chatId: string | undefined,
+  ): Promise<
+    FittedContext & {
+      params: GenerationParams;
+      sources: KnowledgeSource[];
+      memoryEnabled: boolean;
+    }
+  > {
+    const { model } = options;
+    const messages = await this.toLlmMessages(context.messages, model);
+    const setup = await this.chatSetup(options, chatId);
+
+    const definition = this.models.get(model);
+    const params = definition
+      ? supportedParams(setup.params, definition)
+      : setup.params;
+
+    // Retrieved and recalled for the user turn being answered
+    const question =
+      context.messages[context.messages.length - 1]?.content ?? '';
+    const sources = setup.knowledgeCollectionId
+      ? await this.knowledge.retrieve(setup.knowledgeCollectionId, question)
+      : [];
+    const memories =
+      setup.memoryEnabled && options.userId
+        ? await this.memory.recall(options.userId, question)
+        : [];
+
+    const pinned = [...setup.pinned];
+    if (memories.length) {
+      pinned.push({ role: 'system', content: memoryPrompt(memories) });
+    }
+    if (sources.length) {
+      pinned.push({ role: 'system', content: sourcesPrompt(sources) });
+    }
+    if (params.jsonMode) {
+      pinned.push({ role: 'system', content: JSON_MODE_PROMPT });
+    }
+
+    if (!definition) {
+      return {
+        messages: [...pinned, ...messages],
+        omitted: 0,
+        mode: null,
+        params,
+        sources,
+        memoryEnabled: setup.memoryEnabled,
+      };
+    }
+    const fitted = await this.contextWindow.fit(
+      context.messages,
+      messages,
+      definition,
+      pinned,
+      params.maxTokens,
+    );
+    return {
+      ...fitted,
+      params,
+      sources,
+      memoryEnabled: setup.memoryEnabled,
+    };
+  }
+
+  /**
+   * Configuration applied to every turn of a saved chat: the system prompt
+   * of its assistant, then the user's custom instructions unless they are
+   * empty or turned off for this chat, and its stored parameters over the
+   * assistant's temperature, the knowledge base it answers from and whether
+   * the user has memory on. Guests only have the parameters they sent.
+   */
+  private async chatSetup(
     options: ChatOptions,
-  ) {
-    if (!options.userId) return;
+    chatId: string | undefined,
+  ): Promise<ChatSetup> {
+    const { userId } = options;
+    if (!userId || !chatId) {
+      return {
+        pinned: [],
+        params: options.params ?? {},
+        knowledgeCollectionId: null,
+        memoryEnabled: false,
+      };
+    }
 
-    const model = options.model ?? 'gpt-4o';
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('chats')
+      .select(
+        'use_custom_instructions, assistant_id, generation_params, knowledge_collection_id',
+      )
+      .eq('id', chatId)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    const chat = data as Pick<
+      ChatSummary,
+      | 'use_custom_instructions'
+      | 'assistant_id'
+      | 'generation_params'
+      | 'knowledge_collection_id'
+    >;
 
-    const firstUserMsg = messages.find((m) => m.role === 'user') ?? messages[0];
-    const title = firstUserMsg?.content?.slice(0, 25) ?? 'New chat';
+    const pinned: LlmMessage[] = [];
+    const assistant = chat.assistant_id
+      ? await this.assistants.find(chat.assistant_id)
+      : null;
+    if (assistant?.system_prompt) {
+      pinned.push({ role: 'system', content: assistant.system_prompt });
+    }
 
-    const { chatId } = await this.ensureChatRecord(options.chatId, options.userId, title);
+    const { customInstructions, memoryEnabled } =
+      await this.settings.get(userId);
+    if (chat.use_custom_instructions !== false && customInstructions) {
+      pinned.push({
+        role: 'system',
+        content: `The user gave these instructions for all conversations:\n${customInstructions}`,
+      });
+    }
 
-    const latestUserMessage = messages[messages.length - 1] as ChatMessage;
-    await this.supabase.getClient().from('messages').insert([
-      {
-        chat_id: chatId,
-        role: latestUserMessage.role,
-        content: latestUserMessage.content,
-        model,
+    return {
+      pinned,
+      params: {
+        ...(assistant?.temperature != null
+          ? { temperature: assistant.temperature }
+          : {}),
+        ...chat.generation_params,
       },
-      {
+      knowledgeCollectionId: chat.knowledge_collection_id ?? null,
+      memoryEnabled,
+    };
+  }
+
+  /**
+   * Turn the context into provider messages: attached documents become text,
+   * images become image parts for vision models and a short note otherwise.
+   */
+  private async toLlmMessages(
+    messages: ContextMessage[],
+    model: string,
+  ): Promise<LlmMessage[]> {
+    const vision = this.models.get(model)?.capabilities.vision ?? false;
+
+    return Promise.all(
+      messages.map(async ({ role, content, attachments }) => {
+        const text = withAttachments(content, attachments);
+        const images = attachments.filter(isImage);
+        if (!images.length) {
+          return { role, content: text };
+        }
+        if (!vision) {
+          const notes = images.map((a) => `[image "${a.name}" not shown]`);
+          return { role, content: [text, ...notes].filter(Boolean).join('\n') };
+        }
+
+        const parts: LlmContentPart[] = text ? [{ type: 'text', text }] : [];
+        for (const image of images) {
+          const data = await this.attachments.load(image);
+          parts.push({
+            type: 'image',
+            mimeType: image.mime_type,
+            data: data.toString('base64'),
+          });
+        }
+        return { role, content: parts };
+      }),
+    );
+  }
+
+  /**
+   * Store the new user turn (unless regenerating) and an empty assistant reply
+   * below it when a user is authenticated. Returns `null` for anonymous users.
+   */
+  private async startExchange(
+    context: ChatContext,
+    options: ChatOptions,
+  ): Promise<ExchangeRecord | null> {
+    if (!options.userId) return null;
+
+    const { model } = options;
+    const { userTurn } = context;
+
+    // Only used when this turn starts a new chat
+    const title =
+      userTurn?.content.slice(0, 25) ||
+      userTurn?.attachments[0]?.name.slice(0, 25) ||
+      'New chat';
+
+    const { chatId, created } = await this.ensureChatRecord(
+      options.chatId,
+      options.userId,
+      title,
+      options.useCustomInstructions,
+      options.assistantId,
+      options.params,
+      options.knowledgeCollectionId,
+    );
+    if (!created && options.params) {
+      await this.saveParams(chatId, options.params);
+    }
+
+    let userMessageId = context.parentId as number;
+    if (userTurn) {
+      userMessageId = await this.insertMessage({
         chat_id: chatId,
-        role: 'assistant',
-        content: assistantContent,
+        parent_id: context.parentId,
+        role: 'user',
+        content: userTurn.content,
         model,
-      },
-    ]);
+      });
+      await this.attachments.linkToMessage(userTurn.attachments, userMessageId);
+    }
+
+    const assistantMessageId = await this.insertMessage({
+      chat_id: chatId,
+      parent_id: userMessageId,
+      role: 'assistant',
+      content: '',
+      model,
+    });
+
+    return {
+      chatId,
+      userMessageId,
+      assistantMessageId,
+      newChat: created,
+      toolMessageIds: [],
+      sources: [],
+      memoryEnabled: false,
+    };
+  }
+
+  /**
+   * Start generating a title when the exchange created the chat. Resolves to
+   * the stored title, or `null` when there is none to report.
+   */
+  private async nameNewChat(
+    exchange: ExchangeRecord | null,
+    context: ChatContext,
+  ): Promise<string | null> {
+    const { userTurn } = context;
+    if (!exchange?.newChat || !userTurn) return null;
+
+    const firstMessage =
+      userTurn.content || userTurn.attachments.map((a) => a.name).join(', ');
+    return this.titles.generate(exchange.chatId, firstMessage);
+  }
+
+  /**
+   * Start learning what a completed turn tells about the user, when they have
+   * memory on. Resolves to the memories stored.
+   */
+  private async learnFromExchange(
+    exchange: ExchangeRecord | null,
+    context: ChatContext,
+    options: ChatOptions,
+    answer: string,
+  ): Promise<Memory[]> {
+    if (!exchange?.memoryEnabled || !options.userId || !answer) return [];
+
+    const message = context.messages[context.messages.length - 1];
+    return this.memory.learn(
+      options.userId,
+      exchange.chatId,
+      message?.role === 'user' ? message.content : '',
+      answer,
+    );
+  }
+
+  /**
+   * Store a tool call and its result below the previous step, and move the
+   * reserved answer below it so the branch reads in order.
+   */
+  private async saveToolMessage(
+    exchange: ExchangeRecord | null,
+    call: LlmToolCall,
+    result: string,
+    model: string,
+  ): Promise<void> {
+    if (!exchange) return;
+
+    const id = await this.insertMessage({
+      chat_id: exchange.chatId,
+      parent_id: exchange.toolMessageIds.at(-1) ?? exchange.userMessageId,
+      role: 'tool',
+      content: result,
+      model,
+      tool_call: call,
+    });
+    exchange.toolMessageIds.push(id);
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('messages')
+      .update({ parent_id: id })
+      .eq('id', exchange.assistantMessageId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  private async insertMessage(row: {
+    chat_id: string;
+    parent_id: number | null;
+    role: string;
+    content: string;
+    model: string;
+    tool_call?: LlmToolCall;
+  }): Promise<number> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('messages')
+      .insert(row)
+      .select('id')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as { id: number }).id;
+  }
+
+  /**
+   * Fill in the reserved assistant row and the sources it was given, or drop
+   * it (with the tool calls that led to it) if nothing was produced.
+   * `interrupted` flags answers cut short by a stop or a disconnect.
+   */
+  private async finishExchange(
+    exchange: ExchangeRecord | null,
+    assistantContent: string,
+    interrupted = false,
+  ): Promise<void> {
+    if (!exchange) return;
+
+    const messages = this.supabase.getClient().from('messages');
+    const { error } = assistantContent
+      ? await messages
+          .update({
+            content: assistantContent,
+            interrupted,
+            ...(exchange.sources.length ? { sources: exchange.sources } : {}),
+          })
+          .eq('id', exchange.assistantMessageId)
+      : await messages
+          .delete()
+          .in('id', [exchange.assistantMessageId, ...exchange.toolMessageIds]);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Throw a 404 unless the chat exists and belongs to the given user.
+   *
+   * The service-role client bypasses RLS, so every read or write of a chat
+   * (or of its messages) on behalf of a user has to go through this check.
+   * Chats of other users are reported as missing rather than forbidden so
+   * their ids cannot be probed.
+   */
+  private async assertChatOwner(chatId: string, userId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('chats')
+      .select('id')
+      .eq('id', chatId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundException('Chat not found');
+    }
+  }
+
+  private async getUserRole(userId?: string): Promise<ModelRole> {
+    if (!userId) {
+      return 'anonymous';
+    }
+
+    const { data } = await this.supabase
+      .getClient()
+      .from('profile')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return data?.role === 'admin' ? 'admin' : 'user';
   }
 
   private async ensureChatRecord(
     chatId: string | undefined,
     userId: string,
     title?: string,
-  ): Promise<{ chatId: string }> {
+    useCustomInstructions = true,
+    assistantId?: string,
+    params: GenerationParams = {},
+    knowledgeCollectionId?: string,
+  ): Promise<{ chatId: string; created: boolean }> {
     const client = this.supabase.getClient();
 
     if (chatId) {
-      return { chatId };
+      await this.assertChatOwner(chatId, userId);
+      return { chatId, created: false };
     }
 
     const { data, error } = await client
       .from('chats')
       // Store optional title; chat row only groups a thread per user.
-      .insert([{ user_id: userId, title: title ?? 'New chat' }])
+      .insert([
+        {
+          user_id: userId,
+          title: title ?? 'New chat',
+          title_source: 'default',
+          use_custom_instructions: useCustomInstructions,
+          assistant_id: assistantId ?? null,
+          generation_params: params,
+          knowledge_collection_id: knowledgeCollectionId ?? null,
+        },
+      ])
       .select()
-      .single();
+      .single<{ id: string }>();
 
     if (error) {
       throw error;
     }
 
-    return { chatId: data.id };
+    return { chatId: data.id, created: true };
   }
 
-  async renameChat(chatId: string, userId: string, title: string): Promise<void> {
+  async renameChat(
+    chatId: string,
+    userId: string,
+    title: string,
+  ): Promise<void> {
+    await this.assertChatOwner(chatId, userId);
+
     const { error } = await this.supabase
       .getClient()
       .from('chats')
-      .update({ title })
+      // Marked so a generated title never replaces it
+      .update({ title, title_source: 'user' })
+      .eq('id', chatId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /** Keep the parameters of a turn for the next turns of the chat. */
+  private async saveParams(
+    chatId: string,
+    params: GenerationParams,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .getClient()
+      .from('chats')
+      .update({ generation_params: params })
+      .eq('id', chatId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /** Turn the user's custom instructions on or off for one chat. */
+  async setCustomInstructions(
+    chatId: string,
+    userId: string,
+    enabled: boolean,
+  ): Promise<void> {
+    await this.assertChatOwner(chatId, userId);
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('chats')
+      .update({ use_custom_instructions: enabled })
       .eq('id', chatId)
       .eq('user_id', userId);
 
@@ -216,9 +1250,38 @@ export class ChatService {
   }
 
   /**
-   * Delete a chat (and cascaded messages) for the given user.
+   * Link a chat to one of the user's knowledge base collections, or unlink it
+   * with `null`. Later turns retrieve their sources from it.
+   */
+  async setKnowledgeCollection(
+    chatId: string,
+    userId: string,
+    collectionId: string | null,
+  ): Promise<void> {
+    await this.assertChatOwner(chatId, userId);
+    if (collectionId !== null) {
+      await this.knowledge.getCollection(collectionId, userId);
+    }
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('chats')
+      .update({ knowledge_collection_id: collectionId })
+      .eq('id', chatId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a chat (and cascaded messages) for the given user, along with the
+   * files attached to it.
    */
   async deleteChat(chatId: string, userId: string): Promise<void> {
+    const history = await this.loadHistory(chatId, userId);
+
     const { error } = await this.supabase
       .getClient()
       .from('chats')
@@ -229,5 +1292,79 @@ export class ChatService {
     if (error) {
       throw error;
     }
+
+    await this.attachments.removeFiles(history.flatMap((m) => m.attachments));
   }
 }
+
+/** Context for a new user turn attached below `parentId`. */
+function branchContext(
+  history: HistoryMessage[],
+  parentId: number | null,
+  userTurn: NonNullable<ChatContext['userTurn']>,
+): ChatContext {
+  const newTurn: ContextMessage = { role: 'user', ...userTurn };
+
+  return {
+    messages: [...toContextMessages(pathTo(history, parentId)), newTurn],
+    parentId,
+    userTurn,
+  };
+}
+
+/**
+ * The model sees earlier answers without the tool calls behind them; those
+ * only matter while the answer is written. Stored system messages are never
+ * replayed: system prompts only come from settings and assistants.
+ */
+function toContextMessages(messages: HistoryMessage[]): ContextMessage[] {
+  return messages
+    .filter((m) => m.role !== 'tool' && m.role !== 'system')
+    .map((m) => ({
+      id: m.id,
+      role: m.role as ChatMessage['role'],
+      content: m.content,
+      attachments: m.attachments,
+      summary: m.summary,
+    }));
+}
+
+/** System message listing the facts recalled about the user. */
+function memoryPrompt(memories: string[]): string {
+  return [
+    'What you remember about the user from earlier conversations; use it ' +
+      'when it is relevant:',
+    ...memories.map((m) => `- ${m}`),
+  ].join('\n');
+}
+
+/**
+ * System message quoting the retrieved chunks, numbered as the model is asked
+ * to cite them.
+ */
+function sourcesPrompt(sources: KnowledgeSource[]): string {
+  const quoted = sources.map(
+    (s) =>
+      `<source index="${s.index}" document="${s.documentName}">\n${s.content}\n</source>`,
+  );
+
+  return [
+    "These excerpts from the user's documents may help answer the next message. " +
+      'Cite the ones you use by their index in square brackets, like [1], ' +
+      'right after the statement they support. If they do not cover the ' +
+      'question, say so before answering from general knowledge.',
+    ...quoted,
+  ].join('\n\n');
+}
+
+/** Append the extracted text of attached documents to a message. */
+function withAttachments(content: string, attachments: Attachment[]): string {
+  const files = attachments
+    .filter((a) => a.extracted_text !== null)
+    .map(
+      (a) =>
+        `<attachment name="${a.name}">\n${a.extracted_text}\n</attachment>`,
+    );
+
+  return [content, ...files].filter(Boolean).join('\n\n');
+}
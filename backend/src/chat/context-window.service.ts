@@ -0,0 +1,230 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmService } from '../llm/llm.service';
+import { LlmMessage, LlmProviderError, textOf } from '../llm/llm-provider';
+import { ModelDefinition } from '../llm/model-registry';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  contextBudget,
+  estimateTextTokens,
+  estimateTokens,
+  firstFitting,
+  summaryAllowance,
+} from './context-window';
+
+const DEFAULT_SUMMARY_MODEL = 'gpt-4o-mini';
+// Older turns beyond this are left out of the summary request itself
+const MAX_TRANSCRIPT_LENGTH = 200_000;
+
+const SUMMARY_PROMPT =
+  'Summarize the conversation below so the summary can replace it as context ' +
+  'for continuing it. Keep facts, decisions, names, numbers, code ' +
+  "identifiers, open questions and the user's preferences. Write in the " +
+  'language of the conversation, at most 250 words, without preamble.';
+
+/** A message of the context as far as the budget is concerned. */
+export interface BudgetedMessage {
+  /** Stored id; `undefined` for guests and for the new user turn. */
+  id?: number;
+  /** Stored summary of the path up to and including this message. */
+  summary?: string | null;
+}
+
+export interface FittedContext {
+  messages: LlmMessage[];
+  /** How many of the oldest context messages are not sent as they are. */
+  omitted: number;
+  /** How they were left out; `null` when everything fits. */
+  mode: 'summarized' | 'truncated' | null;
+}
+
+const summaryMessage = (summary: string): LlmMessage => ({
+  role: 'system',
+  content: `Summary of the earlier conversation:\n${summary}`,
+});
+
+/**
+ * Keeps the messages sent to a model within its context window.
+ *
+ * When a chat no longer fits, the oldest turns are rolled into a running
+ * summary written by `LLM_SUMMARY_MODEL` (`gpt-4o-mini` by default). The
+ * summary is stored on the last message it covers, so it is reused by every
+ * later turn of that branch and folded into the next summary when the chat
+ * grows again. Guests, an empty `LLM_SUMMARY_MODEL` and failed summaries fall
+ * back to dropping the oldest turns.
+ */
+@Injectable()
+export class ContextWindowService {
+  private readonly logger = new Logger(ContextWindowService.name);
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly llm: LlmService,
+    private readonly supabase: SupabaseService,
+  ) {}
+
+  /**
+   * Fit `messages` (the provider view of `context`, one for one) into the
+   * budget of `model`, after the `pinned` messages that are always sent
+   * first, leaving room for an answer of `maxTokens` when one is asked for.
+   * Throws `context_length_exceeded` when even the last message is too long
+   * on its own.
+   */
+  async fit(
+    context: BudgetedMessage[],
+    messages: LlmMessage[],
+    model: ModelDefinition,
+    pinned: LlmMessage[] = [],
+    maxTokens?: number,
+  ): Promise<FittedContext> {
+    const fitted = await this.fitTail(
+      context,
+      messages,
+      model,
+      contextBudget(model, maxTokens) -
+        pinned.map(estimateTokens).reduce((a, b) => a + b, 0),
+    );
+    return { ...fitted, messages: [...pinned, ...fitted.messages] };
+  }
+
+  private async fitTail(
+    context: BudgetedMessage[],
+    messages: LlmMessage[],
+    model: ModelDefinition,
+    budget: number,
+  ): Promise<FittedContext> {
+    const costs = messages.map(estimateTokens);
+
+    // Pick up from the latest summary on this branch
+    let start = 0;
+    let summary: string | null = null;
+    for (let i = context.length - 2; i >= 0; i--) {
+      if (context[i].summary) {
+        start = i + 1;
+        summary = context[i].summary!;
+        break;
+      }
+    }
+    const prefix = summary ? [summaryMessage(summary)] : [];
+
+    const total = [...prefix, ...messages.slice(start)]
+      .map(estimateTokens)
+      .reduce((a, b) => a + b, 0);
+    if (total <= budget) {
+      return {
+        messages: [...prefix, ...messages.slice(start)],
+        omitted: start,
+        mode: start ? 'summarized' : null,
+      };
+    }
+
+    const allowance = summaryAllowance(budget);
+    const cut = firstFitting(costs, start, budget - allowance);
+    if (cut === messages.length) {
+      throw new LlmProviderError(
+        `This message is too long for the context window of ${model.displayName}`,
+        'context_length_exceeded',
+      );
+    }
+    if (cut === start) {
+      // Only the summary does not fit; send the turns since without it
+      return {
+        messages: messages.slice(start),
+        omitted: start,
+        mode: 'truncated',
+      };
+    }
+
+    const coveredId = context[cut - 1].id;
+    const updated =
+      coveredId === undefined
+        ? null
+        : await this.summarize(summary, messages.slice(start, cut), allowance);
+
+    if (updated) {
+      await this.store(coveredId!, updated);
+      return {
+        messages: [summaryMessage(updated), ...messages.slice(cut)],
+        omitted: cut,
+        mode: 'summarized',
+      };
+    }
+
+    return {
+      messages: [...prefix, ...messages.slice(cut)],
+      omitted: cut,
+      mode: 'truncated',
+    };
+  }
+
+  /**
+   * Fold `messages` into the previous summary. Resolves to `null` when
+   * summaries are disabled or the model call fails.
+   */
+  private async summarize(
+    previous: string | null,
+    messages: LlmMessage[],
+    maxTokens: number,
+  ): Promise<string | null> {
+    const model =
+      this.config.get<string>('LLM_SUMMARY_MODEL') ?? DEFAULT_SUMMARY_MODEL;
+    if (!model) return null;
+
+    const transcript = messages
+      .map(
+        (m) =>
+          `${m.role === 'assistant' ? 'Assistant' : 'User'}: ${textOf(m.content)}`,
+      )
+      .join('\n\n');
+    const input = [
+      previous ? `Summary so far:\n${previous}` : '',
+      transcript.length > MAX_TRANSCRIPT_LENGTH
+        ? `[…]${transcript.slice(-MAX_TRANSCRIPT_LENGTH)}`
+        : transcript,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+
+    try {
+      const { content } = await this.llm.complete({
+        model,
+        messages: [
+          { role: 'system', content: SUMMARY_PROMPT },
+          { role: 'user', content: input },
+        ],
+      });
+      return clip(content.trim(), maxTokens) || null;
+    } catch (err) {
+      this.logger.warn(
+        `Could not summarize older messages: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return null;
+    }
+  }
+
+  private async store(messageId: number, summary: string): Promise<void> {
+    const { error } = await this.supabase
+      .getClient()
+      .from('messages')
+      .update({ summary })
+      .eq('id', messageId);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+/** Cut `text` to about `maxTokens` tokens, at a word boundary if possible. */
+function clip(text: string, maxTokens: number): string {
+  // The summary message adds its own heading and overhead
+  const limit = maxTokens - 16;
+  if (estimateTextTokens(text) <= limit) return text;
+
+  let end = text.length;
+  while (end > 0 && estimateTextTokens(text.slice(0, end)) > limit) {
+    end = Math.floor(end * 0.9);
+  }
+  const lastSpace = text.lastIndexOf(' ', end);
+  return `${text.slice(0, lastSpace > 0 ? lastSpace : end)}…`;
+}
@@ -0,0 +1,42 @@
+import {
+  contextBudget,
+  estimateTextTokens,
+  estimateTokens,
+  firstFitting,
+} from './context-window';
+import { ModelDefinition } from '../llm/model-registry';
+
+describe('context window', () => {
+  const model = (contextWindow: number) =>
+    ({ contextWindow }) as ModelDefinition;
+
+  it('estimates about four characters per token, one per CJK character', () => {
+    expect(estimateTextTokens('a'.repeat(40))).toBe(10);
+    expect(estimateTextTokens('撒马尔罕')).toBe(4);
+    expect(
+      estimateTokens({
+        role: 'user',
+        content: [
+          { type: 'text', text: 'abcd' },
+          { type: 'image', mimeType: 'image/png', data: '' },
+        ],
+      }),
+    ).toBe(4 + 1 + 765);
+  });
+
+  it('keeps room for the answer', () => {
+    expect(contextBudget(model(128_000))).toBe(128_000 - 4096);
+    expect(contextBudget(model(400))).toBe(300);
+  });
+
+  it('keeps room for the longest answer asked for', () => {
+    expect(contextBudget(model(128_000), 16_000)).toBe(112_000);
+    expect(contextBudget(model(128_000), 500)).toBe(127_500);
+  });
+
+  it('keeps the longest tail of messages that fits', () => {
+    expect(firstFitting([50, 50, 50, 50], 0, 120)).toBe(2);
+    expect(firstFitting([50, 50, 50, 50], 3, 500)).toBe(3);
+    expect(firstFitting([50, 500], 0, 120)).toBe(2);
+  });
+});
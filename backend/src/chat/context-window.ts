@@ -0,0 +1,74 @@
+import { LlmMessage } from '../llm/llm-provider';
+import { ModelDefinition } from '../llm/model-registry';
+
+// Rough per-message cost of the role and separators in chat formats
+const MESSAGE_OVERHEAD = 4;
+// What OpenAI bills for a high-detail image tile set; a safe upper bound
+const IMAGE_TOKENS = 765;
+const MAX_OUTPUT_RESERVE = 4096;
+const MAX_SUMMARY_TOKENS = 1024;
+
+/**
+ * Estimate the tokens of a piece of text without a tokenizer: about four
+ * characters per token for Latin scripts, one per character for CJK and other
+ * wide scripts. Errs on the high side so the budget is not overrun.
+ */
+export function estimateTextTokens(text: string): number {
+  let wide = 0;
+  for (const char of text) {
+    if (char.codePointAt(0)! >= 0x2e80) wide++;
+  }
+  return Math.ceil((text.length - wide) / 4) + wide;
+}
+
+export function estimateTokens(message: LlmMessage): number {
+  const parts =
+    typeof message.content === 'string'
+      ? [{ type: 'text' as const, text: message.content }]
+      : message.content;
+
+  return parts.reduce(
+    (total, part) =>
+      total +
+      (part.type === 'text' ? estimateTextTokens(part.text) : IMAGE_TOKENS),
+    MESSAGE_OVERHEAD,
+  );
+}
+
+/**
+ * Prompt tokens a model may be sent: its context window minus room for the
+ * answer. That is the `maxTokens` asked for, or else a quarter of the window,
+ * at most 4096 tokens.
+ */
+export function contextBudget(
+  model: ModelDefinition,
+  maxTokens?: number,
+): number {
+  const reserve =
+    maxTokens ??
+    Math.min(MAX_OUTPUT_RESERVE, Math.floor(model.contextWindow / 4));
+  return model.contextWindow - reserve;
+}
+
+/** Part of the budget kept for the running summary of older turns. */
+export function summaryAllowance(budget: number): number {
+  return Math.min(MAX_SUMMARY_TOKENS, Math.floor(budget / 4));
+}
+
+/**
+ * Index of the first message to keep so that the messages from there on cost
+ * at most `limit`, never before `start`. Returns `costs.length` when not even
+ * the last message fits.
+ */
+export function firstFitting(
+  costs: number[],
+  start: number,
+  limit: number,
+): number {
+  let total = 0;
+  let first = costs.length;
+  while (first > start && total + costs[first - 1] <= limit) {
+    total += costs[--first];
+  }
+  return first;
+}
@@ -0,0 +1,68 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseGenerationParams, supportedParams } from './generation-params';
+import { ModelCapabilities, ModelDefinition } from '../llm/model-registry';
+
+describe('generation params', () => {
+  const model = (capabilities: Partial<ModelCapabilities>) =>
+    ({
+      displayName: 'Model',
+      maxOutputTokens: 1000,
+      capabilities: {
+        sampling: true,
+        reasoning: false,
+        jsonMode: true,
+        ...capabilities,
+      },
+    }) as ModelDefinition;
+
+  it('keeps valid parameters and drops empty ones', () => {
+    expect(
+      parseGenerationParams(
+        {
+          temperature: 0.7,
+          topP: 0.9,
+          maxTokens: 500,
+          stop: ['END'],
+          jsonMode: false,
+          reasoningEffort: null,
+        },
+        model({}),
+      ),
+    ).toEqual({ temperature: 0.7, topP: 0.9, maxTokens: 500, stop: ['END'] });
+    expect(parseGenerationParams(undefined, model({}))).toEqual({});
+  });
+
+  it('rejects unknown names, bad values and what the model does not take', () => {
+    const reject = (input: unknown, capabilities = {}) =>
+      expect(() => parseGenerationParams(input, model(capabilities))).toThrow(
+        BadRequestException,
+      );
+
+    reject({ seed: 1 });
+    reject({ temperature: 3 });
+    reject({ topP: 0 });
+    reject({ maxTokens: 1.5 });
+    reject({ maxTokens: 1001 });
+    reject({ stop: ['a', 'b', 'c', 'd', 'e'] });
+    reject({ reasoningEffort: 'extreme' }, { reasoning: true });
+    reject({ temperature: 1 }, { sampling: false });
+    reject({ reasoningEffort: 'low' });
+    reject({ jsonMode: true }, { jsonMode: false });
+  });
+
+  it('leaves out stored parameters a newly picked model has no use for', () => {
+    const stored = {
+      temperature: 0.2,
+      maxTokens: 5000,
+      reasoningEffort: 'high' as const,
+    };
+
+    expect(supportedParams(stored, model({}))).toEqual({
+      temperature: 0.2,
+      maxTokens: 1000,
+    });
+    expect(
+      supportedParams(stored, model({ sampling: false, reasoning: true })),
+    ).toEqual({ maxTokens: 1000, reasoningEffort: 'high' });
+  });
+});
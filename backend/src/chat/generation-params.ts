@@ -0,0 +1,157 @@
+import { BadRequestException } from '@nestjs/common';
+import { GenerationParams, ReasoningEffort } from '../llm/llm-provider';
+import { ModelDefinition } from '../llm/model-registry';
+
+const PARAM_NAMES: Array<keyof GenerationParams> = [
+  'temperature',
+  'topP',
+  'maxTokens',
+  'stop',
+  'jsonMode',
+  'reasoningEffort',
+];
+
+const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high'];
+const MAX_STOP_SEQUENCES = 4;
+const MAX_STOP_LENGTH = 100;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check generation parameters from a request: known names, types and ranges,
+ * and only what `model` accepts (see `ModelCapabilities`). `null` and
+ * missing values are left out. Throws a 400 on the first problem.
+ */
+export function parseGenerationParams(
+  input: unknown,
+  model: ModelDefinition,
+): GenerationParams {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new BadRequestException('params must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const params: GenerationParams = {};
+  const given = (name: string) => raw[name] !== undefined && raw[name] !== null;
+  const requires = (name: string, capability: boolean) => {
+    if (!capability) {
+      throw new BadRequestException(
+        `${model.displayName} does not support ${name}`,
+      );
+    }
+  };
+
+  for (const name of Object.keys(raw)) {
+    if (!PARAM_NAMES.includes(name as keyof GenerationParams)) {
+      throw new BadRequestException(`Unknown parameter "${name}"`);
+    }
+  }
+
+  if (given('temperature')) {
+    const { temperature } = raw;
+    if (!isNumber(temperature) || temperature < 0 || temperature > 2) {
+      throw new BadRequestException('temperature must be between 0 and 2');
+    }
+    requires('temperature', model.capabilities.sampling);
+    params.temperature = temperature;
+  }
+
+  if (given('topP')) {
+    const { topP } = raw;
+    if (!isNumber(topP) || topP <= 0 || topP > 1) {
+      throw new BadRequestException('topP must be above 0 and at most 1');
+    }
+    requires('topP', model.capabilities.sampling);
+    params.topP = topP;
+  }
+
+  if (given('maxTokens')) {
+    const { maxTokens } = raw;
+    const limit = model.maxOutputTokens ?? Infinity;
+    if (!Number.isInteger(maxTokens) || (maxTokens as number) < 1) {
+      throw new BadRequestException('maxTokens must be a positive integer');
+    }
+    if ((maxTokens as number) > limit) {
+      throw new BadRequestException(
+        `maxTokens is limited to ${limit} for ${model.displayName}`,
+      );
+    }
+    params.maxTokens = maxTokens as number;
+  }
+
+  if (given('stop')) {
+    const { stop } = raw;
+    if (!Array.isArray(stop) || stop.some((s) => typeof s !== 'string' || !s)) {
+      throw new BadRequestException('stop must be an array of strings');
+    }
+    if (stop.length > MAX_STOP_SEQUENCES) {
+      throw new BadRequestException(
+        `stop is limited to ${MAX_STOP_SEQUENCES} sequences`,
+      );
+    }
+    if ((stop as string[]).some((s) => s.length > MAX_STOP_LENGTH)) {
+      throw new BadRequestException(
+        `stop sequences are limited to ${MAX_STOP_LENGTH} characters`,
+      );
+    }
+    if (stop.length) {
+      requires('stop', model.capabilities.sampling);
+      params.stop = stop as string[];
+    }
+  }
+
+  if (given('jsonMode')) {
+    const { jsonMode } = raw;
+    if (typeof jsonMode !== 'boolean') {
+      throw new BadRequestException('jsonMode must be a boolean');
+    }
+    if (jsonMode) {
+      requires('jsonMode', model.capabilities.jsonMode);
+      params.jsonMode = true;
+    }
+  }
+
+  if (given('reasoningEffort')) {
+    const { reasoningEffort } = raw;
+    if (!REASONING_EFFORTS.includes(reasoningEffort as ReasoningEffort)) {
+      throw new BadRequestException(
+        `reasoningEffort must be one of ${REASONING_EFFORTS.join(', ')}`,
+      );
+    }
+    requires('reasoningEffort', model.capabilities.reasoning);
+    params.reasoningEffort = reasoningEffort as ReasoningEffort;
+  }
+
+  return params;
+}
+
+/**
+ * The part of stored parameters `model` accepts. A chat keeps its parameters
+ * when it switches models; the ones the new model has no use for (say, a
+ * temperature for o3) are left out rather than failing the turn.
+ */
+export function supportedParams(
+  params: GenerationParams,
+  model: ModelDefinition,
+): GenerationParams {
+  const { sampling, reasoning, jsonMode } = model.capabilities;
+  const supported: GenerationParams = { ...params };
+
+  if (!sampling) {
+    delete supported.temperature;
+    delete supported.topP;
+    delete supported.stop;
+  }
+  if (!reasoning) delete supported.reasoningEffort;
+  if (!jsonMode) delete supported.jsonMode;
+  if (
+    supported.maxTokens !== undefined &&
+    model.maxOutputTokens !== undefined
+  ) {
+    supported.maxTokens = Math.min(supported.maxTokens, model.maxOutputTokens);
+  }
+
+  return supported;
+}
@@ -0,0 +1,85 @@
+import { ConfigService } from '@nestjs/config';
+import { ChatStreamEvent } from './chat-events';
+import { GenerationService } from './generation.service';
+
+describe('GenerationService', () => {
+  const createService = () =>
+    new GenerationService(
+      new ConfigService({
+        GENERATION_RESUME_GRACE_MS: 10,
+        GENERATION_RETENTION_MS: 1000,
+      }),
+    );
+
+  async function* deltas(
+    contents: string[],
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    for (const content of contents) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      signal?.throwIfAborted();
+      yield { type: 'delta', content };
+    }
+    yield { type: 'done', interrupted: false };
+  }
+
+  // Yields one delta, then hangs until aborted
+  async function* stalled(
+    signal: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    yield { type: 'delta', content: 'a' };
+    await new Promise((_, reject) =>
+      signal.addEventListener('abort', () => reject(new Error('aborted'))),
+    );
+  }
+
+  const collect = async (iterable: AsyncIterable<{ id: number }>) => {
+    const ids: number[] = [];
+    for await (const { id } of iterable) {
+      ids.push(id);
+    }
+    return ids;
+  };
+
+  it('replays buffered events after the last seen id', async () => {
+    const generations = createService();
+    const generation = generations.create({ userId: 'u1' });
+    generations.run(generation, deltas(['a', 'b', 'c']));
+
+    const detach = new AbortController();
+    expect(
+      await collect(generations.follow(generation, 0, detach.signal)),
+    ).toEqual([1, 2, 3, 4]);
+    expect(
+      await collect(generations.follow(generation, 2, detach.signal)),
+    ).toEqual([3, 4]);
+  });
+
+  it('hides generations from other users', () => {
+    const generations = createService();
+    const generation = generations.create({ userId: 'u1' });
+
+    expect(() => generations.get(generation.id, 'u2')).toThrow();
+    expect(generations.get(generation.id, 'u1').id).toBe(generation.id);
+  });
+
+  it('aborts a generation nobody reconnects to', async () => {
+    const generations = createService();
+    const generation = generations.create({});
+    generations.run(generation, stalled(generation.signal));
+
+    const detach = new AbortController();
+    for await (const buffered of generations.follow(
+      generation,
+      0,
+      detach.signal,
+    )) {
+      if (buffered.id === 1) {
+        detach.abort();
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(generation.signal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,191 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { ChatStreamEvent, toErrorEvent } from './chat-events';
+
+export interface BufferedEvent {
+  /** Sequence id, sent as the SSE `id:` so clients can resume after it. */
+  id: number;
+  event: ChatStreamEvent;
+}
+
+export interface Generation {
+  id: string;
+  userId?: string;
+  chatId: string | null;
+  signal: AbortSignal;
+}
+
+interface GenerationState extends Generation {
+  abort: AbortController;
+  events: BufferedEvent[];
+  finished: boolean;
+  subscribers: number;
+  /** Resolved (and replaced) every time an event is buffered or the run ends. */
+  changed: Promise<void>;
+  notify: () => void;
+  graceTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Runs generations independently of the HTTP request that started them and
+ * buffers their events in memory, so a client whose connection drops can
+ * reconnect and receive the rest without regenerating.
+ *
+ *  • `GENERATION_RESUME_GRACE_MS` – how long a generation keeps running with
+ *    no client attached before it is aborted (default 30s)
+ *  • `GENERATION_RETENTION_MS`    – how long a finished generation stays
+ *    available for replay (default 5min)
+ */
+@Injectable()
+export class GenerationService {
+  private readonly generations = new Map<string, GenerationState>();
+  private readonly graceMs: number;
+  private readonly retentionMs: number;
+
+  constructor(config: ConfigService) {
+    this.graceMs = Number(config.get('GENERATION_RESUME_GRACE_MS') ?? 30_000);
+    this.retentionMs = Number(config.get('GENERATION_RETENTION_MS') ?? 300_000);
+  }
+
+  /**
+   * Register a new generation. Its `signal` must be handed to the producer so
+   * cancelling the generation reaches the provider call.
+   */
+  create(owner: { userId?: string }): Generation {
+    const abort = new AbortController();
+    const state: GenerationState = {
+      id: randomUUID(),
+      userId: owner.userId,
+      chatId: null,
+      abort,
+      signal: abort.signal,
+      events: [],
+      finished: false,
+      subscribers: 0,
+      changed: Promise.resolve(),
+      notify: () => undefined,
+    };
+    this.resetChanged(state);
+    this.generations.set(state.id, state);
+
+    return state;
+  }
+
+  /**
+   * Pump the producer into the buffer in the background.
+   */
+  run(generation: Generation, source: AsyncIterable<ChatStreamEvent>): void {
+    const state = this.getState(generation.id);
+
+    void (async () => {
+      try {
+        for await (const event of source) {
+          if (event.type === 'meta') {
+            state.chatId = event.chatId;
+          }
+          this.push(state, event);
+        }
+      } catch (err) {
+        this.push(state, toErrorEvent(err));
+      } finally {
+        state.finished = true;
+        clearTimeout(state.graceTimer);
+        state.notify();
+        setTimeout(
+          () => this.generations.delete(state.id),
+          this.retentionMs,
+        ).unref();
+      }
+    })();
+  }
+
+  /**
+   * Look up a generation on behalf of a caller. Generations of other users,
+   * or of another chat, are reported as missing.
+   */
+  get(id: string, userId?: string, chatId?: string): Generation {
+    const state = this.generations.get(id);
+    if (
+      !state ||
+      state.userId !== userId ||
+      (chatId !== undefined && state.chatId !== chatId)
+    ) {
+      throw new NotFoundException('Generation not found');
+    }
+    return state;
+  }
+
+  /**
+   * Replay the events after `afterId`, then follow live ones until the
+   * generation ends or `detach` fires. A generation left without followers
+   * is aborted once the grace period elapses.
+   */
+  async *follow(
+    generation: Generation,
+    afterId: number,
+    detach: AbortSignal,
+  ): AsyncGenerator<BufferedEvent> {
+    const state = this.getState(generation.id);
+    const detached = new Promise<void>((resolve) =>
+      detach.addEventListener('abort', () => resolve(), { once: true }),
+    );
+
+    state.subscribers++;
+    clearTimeout(state.graceTimer);
+
+    try {
+      let cursor = afterId;
+      while (!detach.aborted) {
+        const changed = state.changed;
+
+        for (const buffered of state.events) {
+          if (buffered.id > cursor) {
+            cursor = buffered.id;
+            yield buffered;
+          }
+        }
+
+        if (state.finished) {
+          return;
+        }
+        await Promise.race([changed, detached]);
+      }
+    } finally {
+      state.subscribers--;
+      if (state.subscribers === 0 && !state.finished) {
+        state.graceTimer = setTimeout(() => state.abort.abort(), this.graceMs);
+        state.graceTimer.unref();
+      }
+    }
+  }
+
+  /**
+   * Stop a generation right away (the user pressed "Stop").
+   */
+  cancel(generation: Generation): void {
+    this.getState(generation.id).abort.abort();
+  }
+
+  private push(state: GenerationState, event: ChatStreamEvent): void {
+    state.events.push({ id: state.events.length + 1, event });
+    state.notify();
+  }
+
+  private resetChanged(state: GenerationState): void {
+    state.changed = new Promise<void>((resolve) => {
+      state.notify = () => {
+        this.resetChanged(state);
+        resolve();
+      };
+    });
+  }
+
+  private getState(id: string): GenerationState {
+    const state = this.generations.get(id);
+    if (!state) {
+      throw new NotFoundException('Generation not found');
+    }
+    return state;
+  }
+}
@@ -0,0 +1,25 @@
+export interface MessageNode {
+  id: number;
+  parent_id: number | null;
+}
+
+/**
+ * Return the branch ending at `leafId` (root first). Messages form a tree
+ * through `parent_id`; each branch is one version of the conversation.
+ */
+export function pathTo<T extends MessageNode>(
+  messages: T[],
+  leafId: number | null,
+): T[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const path: T[] = [];
+
+  let current = leafId === null ? undefined : byId.get(leafId);
+  while (current) {
+    path.unshift(current);
+    current =
+      current.parent_id === null ? undefined : byId.get(current.parent_id);
+  }
+
+  return path;
+}
@@ -0,0 +1,22 @@
+import { parseHeadline } from './search-snippet';
+
+describe('parseHeadline', () => {
+  it('turns markers into highlight ranges', () => {
+    expect(
+      parseHeadline('the \u0001road\u0002 to \u0001Samarkand\u0002'),
+    ).toEqual({
+      text: 'the road to Samarkand',
+      highlights: [
+        [4, 8],
+        [12, 21],
+      ],
+    });
+  });
+
+  it('returns plain text untouched', () => {
+    expect(parseHeadline('no match')).toEqual({
+      text: 'no match',
+      highlights: [],
+    });
+  });
+});
@@ -0,0 +1,37 @@
+// Markers `ts_headline` puts around matched terms (see the search migrations)
+const START = '\u0001';
+const STOP = '\u0002';
+
+/** Longest search query accepted, by the endpoint and the chat search tool. */
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+export interface SearchSnippet {
+  text: string;
+  /** `[start, end)` offsets of the matched terms in `text`. */
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Split a `ts_headline` result into plain text and highlight ranges, so
+ * clients can mark matches without rendering HTML from message content.
+ */
+export function parseHeadline(headline: string): SearchSnippet {
+  let text = '';
+  const highlights: Array<[number, number]> = [];
+  let start: number | null = null;
+
+  for (const char of headline) {
+    if (char === START) {
+      start = text.length;
+    } else if (char === STOP) {
+      if (start !== null && start < text.length) {
+        highlights.push([start, text.length]);
+      }
+      start = null;
+    } else {
+      text += char;
+    }
+  }
+
+  return { text, highlights };
+}
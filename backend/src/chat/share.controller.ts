@@ -0,0 +1,42 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthedRequest } from '../auth/authed-request';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { ChatShareService } from './chat-share.service';
+
+/** Share links as their viewers use them; owners manage them under /chat. */
+@Controller('share')
+export class ShareController {
+  constructor(private readonly shares: ChatShareService) {}
+
+  /** GET /share/:token – the shared conversation; no sign-in needed. */
+  @Get(':token')
+  async getShare(@Param('token') token: string) {
+    return { share: await this.shares.get(token) };
+  }
+
+  /**
+   * POST /share/:token/continue – copy the shared conversation into the
+   * caller's chats, to carry it on there.
+   */
+  @Post(':token/continue')
+  @UseGuards(JwtAuthGuard)
+  async continueShare(
+    @Param('token') token: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { chat: await this.shares.continue(token, userId) };
+  }
+}
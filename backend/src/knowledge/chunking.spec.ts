@@ -0,0 +1,46 @@
+import { chunkText } from './chunking';
+
+describe('chunkText', () => {
+  it('keeps short text in one chunk with its whitespace tidied', () => {
+    expect(chunkText('  Hello\r\n\r\n\r\n\tworld  ')).toEqual([
+      'Hello\n\nworld',
+    ]);
+    expect(chunkText(' \n ')).toEqual([]);
+  });
+
+  it('ends chunks on paragraphs, then sentences, within the size', () => {
+    const paragraph = 'Word '.repeat(30).trim() + '.';
+    const text = [paragraph, paragraph, paragraph].join('\n\n');
+
+    const chunks = chunkText(text, { size: 400, overlap: 0 });
+
+    expect(chunks).toEqual([`${paragraph}\n\n${paragraph}`, paragraph]);
+
+    const sentences = 'One two three. Four five six. Seven eight nine.';
+    expect(chunkText(sentences, { size: 35, overlap: 0 })).toEqual([
+      'One two three. Four five six.',
+      'Seven eight nine.',
+    ]);
+  });
+
+  it('repeats the end of a chunk at the start of the next, from a word', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `w${i}`).join(' ');
+
+    const chunks = chunkText(text, { size: 60, overlap: 20 });
+
+    expect(chunks.every((c) => c.length <= 60)).toBe(true);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].split(' ')[0]).toMatch(/^w\d+$/);
+      expect(chunks[i - 1]).toContain(chunks[i].split(' ')[0]);
+    }
+    expect(chunks.at(-1)).toMatch(/w39$/);
+  });
+
+  it('cuts text without any boundary at the size', () => {
+    expect(chunkText('x'.repeat(25), { size: 10, overlap: 0 })).toEqual([
+      'x'.repeat(10),
+      'x'.repeat(10),
+      'x'.repeat(5),
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+export interface ChunkOptions {
+  /** Longest chunk, in characters. */
+  size?: number;
+  /** Characters repeated at the start of a chunk from the end of the previous one. */
+  overlap?: number;
+}
+
+// Where a chunk may end, best first: paragraphs, sentences, lines, words
+const BOUNDARIES = [/\n\n/g, /[.!?](?=\s)/g, /\n/g, /\s/g];
+
+/**
+ * Split extracted text into overlapping chunks small enough to embed and to
+ * quote as a source. Chunks end on the best boundary found in their second
+ * half, so paragraphs and sentences stay whole where they fit.
+ */
+export function chunkText(
+  text: string,
+  { size = 1000, overlap = 200 }: ChunkOptions = {},
+): string[] {
+  const clean = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    let end = Math.min(start + size, clean.length);
+    if (end < clean.length) {
+      end = breakPoint(clean, start + Math.floor(size / 2), end);
+    }
+
+    const chunk = clean.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end === clean.length) break;
+
+    // Step back by the overlap, then forward to the start of a word
+    let next = Math.max(end - overlap, start + 1);
+    const space = clean.slice(next, end).search(/\s/);
+    if (space !== -1) next += space + 1;
+    start = next;
+  }
+
+  return chunks;
+}
+
+/** End of the last boundary between `from` and `to`, or `to` when there is none. */
+function breakPoint(text: string, from: number, to: number): number {
+  const window = text.slice(from, to);
+
+  for (const boundary of BOUNDARIES) {
+    let last = -1;
+    for (const match of window.matchAll(boundary)) {
+      last = match.index + match[0].length;
+    }
+    if (last > 0) return from + last;
+  }
+
+  return to;
+}
@@ -0,0 +1,17 @@
+/**
+ * Size of every embedding; `knowledge_chunks.embedding` is a `vector(1536)`,
+ * so providers have to produce exactly this many dimensions.
+ */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Turns text into vectors whose cosine similarity reflects how related the
+ * texts are. Documents and queries must go through the same provider.
+ */
+export interface EmbeddingsProvider {
+  /** One vector of `EMBEDDING_DIMENSIONS` numbers per text, in order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Injection token for the configured `EmbeddingsProvider`. */
+export const EMBEDDINGS_PROVIDER = Symbol('EMBEDDINGS_PROVIDER');
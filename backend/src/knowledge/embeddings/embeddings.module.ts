@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { EMBEDDINGS_PROVIDER } from './embeddings-provider';
+import { LocalEmbeddings } from './local.embeddings';
+import { OpenAiEmbeddings } from './openai.embeddings';
+
+/** Provides the configured `EmbeddingsProvider` as `EMBEDDINGS_PROVIDER`. */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: EMBEDDINGS_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) =>
+        config.get<string>('EMBEDDINGS_PROVIDER') === 'local'
+          ? new LocalEmbeddings()
+          : new OpenAiEmbeddings({
+              apiKey:
+                config.get<string>('EMBEDDINGS_API_KEY') ??
+                config.get<string>('OPENAI_API_KEY'),
+              baseURL: config.get<string>('EMBEDDINGS_BASE_URL'),
+              model:
+                config.get<string>('EMBEDDINGS_MODEL') ??
+                'text-embedding-3-small',
+            }),
+    },
+  ],
+  exports: [EMBEDDINGS_PROVIDER],
+})
+export class EmbeddingsModule {}
@@ -0,0 +1,29 @@
+import { EMBEDDING_DIMENSIONS } from './embeddings-provider';
+import { LocalEmbeddings } from './local.embeddings';
+
+const cosine = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('LocalEmbeddings', () => {
+  const embeddings = new LocalEmbeddings();
+
+  it('returns normalised vectors of the stored dimension, the same every time', async () => {
+    const [first, empty] = await embeddings.embed(['Tea from Uzbekistan', '']);
+    const [again] = await embeddings.embed(['tea FROM uzbekistan!']);
+
+    expect(first).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(Math.hypot(...first)).toBeCloseTo(1);
+    expect(again).toEqual(first);
+    expect(empty.every((value) => value === 0)).toBe(true);
+  });
+
+  it('scores texts sharing words above unrelated ones', async () => {
+    const [query, related, unrelated] = await embeddings.embed([
+      'When does the Samarkand museum open?',
+      'The museum in Samarkand opens at 9 every morning.',
+      'Our invoices are due within thirty days.',
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+});
@@ -0,0 +1,31 @@
+import { createHash } from 'crypto';
+import {
+  EMBEDDING_DIMENSIONS,
+  EmbeddingsProvider,
+} from './embeddings-provider';
+
+/**
+ * Deterministic offline stand-in: a bag of words hashed into the vector and
+ * normalised. Texts sharing words score higher, which is enough to run the
+ * knowledge base (and its tests) without any API key or network, but it knows
+ * nothing of synonyms or meaning.
+ */
+export class LocalEmbeddings implements EmbeddingsProvider {
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => embedText(text)));
+  }
+}
+
+function embedText(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const hash = createHash('sha1').update(word).digest();
+    // The sign bit spreads collisions out instead of piling them up
+    const slot = hash.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+    vector[slot] += hash[4] & 1 ? 1 : -1;
+  }
+
+  const norm = Math.hypot(...vector);
+  return norm ? vector.map((value) => value / norm) : vector;
+}
@@ -0,0 +1,45 @@
+import OpenAI from 'openai';
+import {
+  EMBEDDING_DIMENSIONS,
+  EmbeddingsProvider,
+} from './embeddings-provider';
+
+export interface OpenAiEmbeddingsOptions {
+  /** Checked on first use, so the API starts without one. */
+  apiKey?: string;
+  model: string;
+  baseURL?: string;
+}
+
+// Inputs per request, well below the API limits for chunk-sized texts
+const BATCH_SIZE = 100;
+
+/**
+ * Embeddings from the OpenAI API (or a compatible server). `text-embedding-3`
+ * models are asked for `EMBEDDING_DIMENSIONS` dimensions directly.
+ */
+export class OpenAiEmbeddings implements EmbeddingsProvider {
+  private client?: OpenAI;
+
+  constructor(private readonly options: OpenAiEmbeddingsOptions) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.client ??= new OpenAI({
+      apiKey: this.options.apiKey,
+      baseURL: this.options.baseURL,
+    });
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.options.model,
+        input: texts.slice(i, i + BATCH_SIZE),
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+      const batch = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(...batch.map((item) => item.embedding));
+    }
+
+    return vectors;
+  }
+}
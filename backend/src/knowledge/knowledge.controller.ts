@@ -0,0 +1,138 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Req,
+  UnauthorizedException,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { AuthedRequest } from '../auth/authed-request';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { KnowledgeService } from './knowledge.service';
+
+@Controller('knowledge')
+@UseGuards(JwtAuthGuard)
+export class KnowledgeController {
+  constructor(private readonly knowledge: KnowledgeService) {}
+
+  /** GET /knowledge/collections – the caller's collections. */
+  @Get('collections')
+  async listCollections(@Req() req: AuthedRequest) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { collections: await this.knowledge.listCollections(userId) };
+  }
+
+  /** POST /knowledge/collections – create an empty collection. */
+  @Post('collections')
+  async createCollection(
+    @Body() body: { name?: string },
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    const collection = await this.knowledge.createCollection(
+      userId,
+      body?.name,
+    );
+    return { collection };
+  }
+
+  /** PATCH /knowledge/collections/:id – rename a collection. */
+  @Patch('collections/:id')
+  async renameCollection(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: { name?: string },
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    await this.knowledge.renameCollection(id, userId, body?.name);
+    return { success: true };
+  }
+
+  /** DELETE /knowledge/collections/:id – delete a collection and its documents. */
+  @Delete('collections/:id')
+  async deleteCollection(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    await this.knowledge.deleteCollection(id, userId);
+    return { success: true };
+  }
+
+  /** GET /knowledge/collections/:id/documents – documents of a collection. */
+  @Get('collections/:id/documents')
+  async listDocuments(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { documents: await this.knowledge.listDocuments(id, userId) };
+  }
+
+  /**
+   * POST /knowledge/collections/:id/documents – upload one document
+   * (multipart field `file`). It is searchable once the request returns.
+   */
+  @Post('collections/:id/documents')
+  @UseInterceptors(FileInterceptor('file'))
+  async addDocument(
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+    if (!file) {
+      throw new BadRequestException('file is required');
+    }
+
+    const document = await this.knowledge.addDocument(id, userId, file);
+    return { document };
+  }
+
+  /** DELETE /knowledge/documents/:id – remove a document from its collection. */
+  @Delete('documents/:id')
+  async deleteDocument(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    await this.knowledge.deleteDocument(id, userId);
+    return { success: true };
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { EmbeddingsModule } from './embeddings/embeddings.module';
+import { KnowledgeController } from './knowledge.controller';
+import { KnowledgeService } from './knowledge.service';
+
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+
+@Module({
+  imports: [
+    ConfigModule,
+    SupabaseModule,
+    EmbeddingsModule,
+    // Documents are only read for their text, so they stay in memory
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        limits: {
+          files: 1,
+          fileSize: Number(
+            config.get<string>('KNOWLEDGE_MAX_BYTES') ?? DEFAULT_MAX_BYTES,
+          ),
+        },
+      }),
+    }),
+  ],
+  providers: [KnowledgeService],
+  controllers: [KnowledgeController],
+  exports: [KnowledgeService],
+})
+export class KnowledgeModule {}
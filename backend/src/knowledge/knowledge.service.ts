@@ -0,0 +1,352 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnprocessableEntityException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { UploadedAttachmentFile } from '../attachments/attachments.service';
+import { detectKind, extractText } from '../attachments/text-extraction';
+import { chunkText } from './chunking';
+import {
+  EMBEDDINGS_PROVIDER,
+  EmbeddingsProvider,
+} from './embeddings/embeddings-provider';
+
+const MAX_NAME_LENGTH = 80;
+// About 1000 chunks, embedded while the upload request waits
+const MAX_DOCUMENT_CHARS = 800_000;
+// Chunks quoted to the model for each turn
+const SOURCES_PER_TURN = 5;
+
+export interface KnowledgeCollection {
+  id: string;
+  name: string;
+  created_at: string;
+  document_count: number;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  collection_id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  chunk_count: number;
+  created_at: string;
+}
+
+/** A chunk quoted to the model, which cites it as `[index]`. */
+export interface KnowledgeSource {
+  index: number;
+  documentId: string;
+  documentName: string;
+  /** Position of the chunk in its document, from 0. */
+  position: number;
+  content: string;
+}
+
+interface MatchRow {
+  document_id: string;
+  document_name: string;
+  position: number;
+  content: string;
+  similarity: number;
+}
+
+/** The `match_knowledge_chunks` Postgres function, as called through `rpc()`. */
+interface MatchChunks {
+  Args: { p_collection_id: string; p_embedding: number[]; p_limit: number };
+  Returns: MatchRow[];
+}
+
+/**
+ * Users' knowledge bases: collections of documents, split into chunks and
+ * embedded on upload so chats linked to a collection can be grounded in the
+ * chunks closest to each question (see `retrieve`).
+ */
+@Injectable()
+export class KnowledgeService {
+  constructor(
+    private readonly supabase: SupabaseService,
+    @Inject(EMBEDDINGS_PROVIDER)
+    private readonly embeddings: EmbeddingsProvider,
+  ) {}
+
+  /** The user's collections by name, with how many documents they hold. */
+  async listCollections(userId: string): Promise<KnowledgeCollection[]> {
+    const client = this.supabase.getClient();
+    const [collections, documents] = await Promise.all([
+      client
+        .from('knowledge_collections')
+        .select('id, name, created_at')
+        .eq('owner_id', userId),
+      client
+        .from('knowledge_documents')
+        .select('collection_id')
+        .eq('owner_id', userId),
+    ]);
+
+    if (collections.error) {
+      throw collections.error;
+    }
+    if (documents.error) {
+      throw documents.error;
+    }
+
+    const counts = new Map<string, number>();
+    for (const { collection_id } of documents.data as {
+      collection_id: string;
+    }[]) {
+      counts.set(collection_id, (counts.get(collection_id) ?? 0) + 1);
+    }
+
+    return (collections.data as Omit<KnowledgeCollection, 'document_count'>[])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((c) => ({ ...c, document_count: counts.get(c.id) ?? 0 }));
+  }
+
+  /** A collection of the user. Throws a 404 otherwise. */
+  async getCollection(
+    id: string,
+    userId: string,
+  ): Promise<Omit<KnowledgeCollection, 'document_count'>> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('knowledge_collections')
+      .select('id, name, created_at')
+      .eq('id', id)
+      .eq('owner_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!data) {
+      throw new NotFoundException('Collection not found');
+    }
+
+    return data as Omit<KnowledgeCollection, 'document_count'>;
+  }
+
+  async createCollection(
+    userId: string,
+    name: unknown,
+  ): Promise<KnowledgeCollection> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('knowledge_collections')
+      .insert({ owner_id: userId, name: validName(name) })
+      .select('id, name, created_at')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return { ...(data as KnowledgeCollection), document_count: 0 };
+  }
+
+  async renameCollection(
+    id: string,
+    userId: string,
+    name: unknown,
+  ): Promise<void> {
+    await this.getCollection(id, userId);
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('knowledge_collections')
+      .update({ name: validName(name) })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a collection with its documents and chunks; chats linked to it
+   * carry on without it.
+   */
+  async deleteCollection(id: string, userId: string): Promise<void> {
+    await this.getCollection(id, userId);
+
+    const { error } = await this.supabase
+      .getClient()
+      .from('knowledge_collections')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /** Documents of a collection of the user, latest first. */
+  async listDocuments(
+    collectionId: string,
+    userId: string,
+  ): Promise<KnowledgeDocument[]> {
+    await this.getCollection(collectionId, userId);
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('knowledge_documents')
+      .select(
+        'id, collection_id, name, mime_type, size, chunk_count, created_at',
+      )
+      .eq('collection_id', collectionId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as KnowledgeDocument[];
+  }
+
+  /**
+   * Add a document to a collection: extract its text, split it into chunks
+   * and store each chunk with its embedding. Only the text is kept.
+   */
+  async addDocument(
+    collectionId: string,
+    userId: string,
+    file: UploadedAttachmentFile,
+  ): Promise<KnowledgeDocument> {
+    await this.getCollection(collectionId, userId);
+
+    // Multer decodes multipart file names as latin1
+    const name = Buffer.from(file.originalname, 'latin1').toString('utf8');
+    const mimeType = file.mimetype || 'application/octet-stream';
+
+    const kind = detectKind(name, mimeType);
+    if (!kind || kind === 'image') {
+      throw new UnsupportedMediaTypeException(
+        `Unsupported file type "${name}"`,
+      );
+    }
+
+    let text: string;
+    try {
+      text = await extractText(kind, file.buffer);
+    } catch {
+      throw new UnprocessableEntityException(`Could not read "${name}"`);
+    }
+    if (text.length > MAX_DOCUMENT_CHARS) {
+      throw new PayloadTooLargeException(
+        `Documents are limited to ${MAX_DOCUMENT_CHARS} characters of text`,
+      );
+    }
+
+    const chunks = chunkText(text);
+    if (!chunks.length) {
+      throw new UnprocessableEntityException(`"${name}" has no text`);
+    }
+    const vectors = await this.embeddings.embed(chunks);
+
+    const client = this.supabase.getClient();
+    const { data, error } = await client
+      .from('knowledge_documents')
+      .insert({
+        collection_id: collectionId,
+        owner_id: userId,
+        name,
+        mime_type: mimeType,
+        size: file.size,
+        chunk_count: chunks.length,
+      })
+      .select(
+        'id, collection_id, name, mime_type, size, chunk_count, created_at',
+      )
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    const document = data as KnowledgeDocument;
+
+    const { error: chunkError } = await client.from('knowledge_chunks').insert(
+      chunks.map((content, position) => ({
+        document_id: document.id,
+        collection_id: collectionId,
+        position,
+        content,
+        embedding: vectors[position],
+      })),
+    );
+
+    if (chunkError) {
+      await client.from('knowledge_documents').delete().eq('id', document.id);
+      throw chunkError;
+    }
+
+    return document;
+  }
+
+  /** Delete a document of the user and its chunks. */
+  async deleteDocument(id: string, userId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('knowledge_documents')
+      .delete()
+      .eq('id', id)
+      .eq('owner_id', userId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+    if (!data?.length) {
+      throw new NotFoundException('Document not found');
+    }
+  }
+
+  /**
+   * The chunks of a collection closest to the query, numbered from 1 in the
+   * order the model is asked to cite them.
+   */
+  async retrieve(
+    collectionId: string,
+    query: string,
+  ): Promise<KnowledgeSource[]> {
+    if (!query.trim()) return [];
+
+    const [embedding] = await this.embeddings.embed([query]);
+    const { data, error } = await this.supabase
+      .getClient()
+      .rpc<'match_knowledge_chunks', MatchChunks>('match_knowledge_chunks', {
+        p_collection_id: collectionId,
+        p_embedding: embedding,
+        p_limit: SOURCES_PER_TURN,
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    return data.map((row, i) => ({
+      index: i + 1,
+      documentId: row.document_id,
+      documentName: row.document_name,
+      position: row.position,
+      content: row.content,
+    }));
+  }
+}
+
+function validName(name: unknown): string {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new BadRequestException('name must be a non-empty string');
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    throw new BadRequestException(
+      `name is limited to ${MAX_NAME_LENGTH} characters`,
+    );
+  }
+  return name.trim();
+}
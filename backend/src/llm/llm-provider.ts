@@ -0,0 +1,120 @@
+export type LlmRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/** Part of a multimodal message; images are only sent to vision models. */
+export type LlmContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string /* base64 */ };
+
+/** A function the model asked to call; `arguments` is its JSON text. */
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string | LlmContentPart[];
+  /** Calls an `assistant` turn made; each is answered by a `tool` message. */
+  toolCalls?: LlmToolCall[];
+  /** Call a `tool` message answers. */
+  toolCallId?: string;
+}
+
+/** A function offered to the model, its parameters as a JSON schema. */
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * Optional knobs of a call; each one is left to the provider's default when
+ * omitted. Which ones a model accepts is in its `ModelCapabilities`.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  /** Most tokens the answer may have (reasoning tokens included). */
+  maxTokens?: number;
+  /** Up to four sequences that end the answer. */
+  stop?: string[];
+  /** Make the model answer with a single JSON object. */
+  jsonMode?: boolean;
+  reasoningEffort?: ReasoningEffort;
+}
+
+export interface LlmRequest extends GenerationParams {
+  model: string;
+  messages: LlmMessage[];
+  /** Functions the model may call instead of answering. */
+  tools?: LlmToolDefinition[];
+  /** Aborting stops the provider call (and billing) as soon as possible. */
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  usage?: LlmUsage;
+}
+
+/**
+ * One piece of a streamed answer: a text delta, a complete tool call (sent
+ * once all its arguments are in) or, usually once at the end, the token usage
+ * of the whole call.
+ */
+export type LlmStreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; call: LlmToolCall }
+  | { type: 'usage'; usage: LlmUsage };
+
+/**
+ * Contract every LLM backend has to fulfil. `complete` returns the whole
+ * answer at once while `stream` yields chunks as they are produced.
+ */
+export interface LlmProvider {
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+  stream(request: LlmRequest): AsyncIterable<LlmStreamChunk>;
+}
+
+export type LlmErrorCode =
+  | 'rate_limited'
+  | 'context_length_exceeded'
+  | 'provider_auth'
+  | 'provider_error';
+
+/**
+ * Error thrown by providers so callers can react to failures without knowing
+ * which SDK produced them.
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    readonly code: LlmErrorCode,
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+/**
+ * Plain-text view of a message, with images shown as `[image]`. Handy for
+ * providers and heuristics that only deal with text.
+ */
+export function textOf(content: LlmMessage['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .map((part) => (part.type === 'text' ? part.text : '[image]'))
+    .join('\n');
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { LlmService } from './llm.service';
+import { ModelRegistry } from './model-registry';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [LlmService, ModelRegistry],
+  exports: [LlmService, ModelRegistry],
+})
+export class LlmModule {}
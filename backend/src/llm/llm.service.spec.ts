@@ -0,0 +1,78 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmService } from './llm.service';
+import { MockLlmProvider } from './providers/mock.provider';
+import { ModelRegistry } from './model-registry';
+
+describe('LlmService', () => {
+  const createService = (env: Record<string, string>) => {
+    const config = new ConfigService(env);
+    return new LlmService(config, new ModelRegistry(config));
+  };
+
+  it('uses LLM_PROVIDER as the default provider', () => {
+    const llm = createService({ LLM_PROVIDER: 'mock' });
+    expect(llm.forModel('gpt-4o')).toBeInstanceOf(MockLlmProvider);
+  });
+
+  it('uses the provider declared by the model registry', () => {
+    const llm = createService({
+      LLM_PROVIDER: 'openai',
+      LLM_MODELS: JSON.stringify([
+        {
+          id: 'llama3',
+          displayName: 'Llama 3',
+          provider: 'mock',
+          contextWindow: 8192,
+          capabilities: { streaming: true, vision: false, tools: false },
+          roles: ['user'],
+        },
+      ]),
+    });
+    expect(llm.forModel('llama3')).toBeInstanceOf(MockLlmProvider);
+  });
+
+  it('only requires OPENAI_API_KEY when the openai provider is used', () => {
+    const llm = createService({});
+    expect(() => llm.forModel('gpt-4o')).toThrow();
+  });
+
+  it('streams the same deterministic answer it completes', async () => {
+    const llm = createService({ LLM_PROVIDER: 'mock' });
+    const request = {
+      model: 'gpt-4o',
+      messages: [{ role: 'user' as const, content: 'hello there' }],
+    };
+
+    let streamed = '';
+    for await (const chunk of llm.stream(request)) {
+      if (chunk.type === 'delta') {
+        streamed += chunk.content;
+      }
+    }
+
+    const { content } = await llm.complete(request);
+    expect(streamed).toBe(content);
+    expect(content).toBe('[gpt-4o] You said: hello there');
+  });
+
+  it('stops streaming once the request is aborted', async () => {
+    const llm = createService({ LLM_PROVIDER: 'mock' });
+    const abort = new AbortController();
+    const request = {
+      model: 'gpt-4o',
+      messages: [{ role: 'user' as const, content: 'a long question' }],
+      signal: abort.signal,
+    };
+
+    const received: string[] = [];
+    await expect(async () => {
+      for await (const chunk of llm.stream(request)) {
+        if (chunk.type === 'delta') {
+          received.push(chunk.content);
+          abort.abort();
+        }
+      }
+    }).rejects.toThrow();
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  LlmCompletion,
+  LlmProvider,
+  LlmRequest,
+  LlmStreamChunk,
+} from './llm-provider';
+import { OpenAiProvider } from './providers/openai.provider';
+import { MockLlmProvider } from './providers/mock.provider';
+import { ModelRegistry } from './model-registry';
+
+type ProviderFactory = () => LlmProvider;
+
+/**
+ * Registry of LLM providers. Which provider serves a model comes from the
+ * model's entry in `ModelRegistry`; models unknown to the registry fall back
+ * to `LLM_PROVIDER` (`openai` when unset).
+ *
+ * Providers are instantiated lazily so a missing key only fails when that
+ * provider is actually used.
+ */
+@Injectable()
+export class LlmService {
+  private readonly factories = new Map<string, ProviderFactory>();
+  private readonly instances = new Map<string, LlmProvider>();
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly models: ModelRegistry,
+  ) {
+    this.register(
+      'openai',
+      () =>
+        new OpenAiProvider({
+          apiKey: this.config.getOrThrow<string>('OPENAI_API_KEY'),
+        }),
+    );
+    this.register(
+      'openai-compatible',
+      () =>
+        new OpenAiProvider({
+          baseURL: this.config.getOrThrow<string>('OPENAI_COMPATIBLE_BASE_URL'),
+          // Most local servers ignore the key but the SDK insists on one
+          apiKey:
+            this.config.get<string>('OPENAI_COMPATIBLE_API_KEY') ??
+            'not-needed',
+        }),
+    );
+    this.register('mock', () => new MockLlmProvider());
+  }
+
+  /**
+   * Register (or replace) a provider implementation under the given name.
+   */
+  register(name: string, factory: ProviderFactory): void {
+    this.factories.set(name, factory);
+    this.instances.delete(name);
+  }
+
+  /**
+   * Resolve the provider configured for a model.
+   */
+  forModel(model: string): LlmProvider {
+    const name =
+      this.models.get(model)?.provider ??
+      this.config.get<string>('LLM_PROVIDER') ??
+      'openai';
+
+    return this.getProvider(name);
+  }
+
+  getProvider(name: string): LlmProvider {
+    let provider = this.instances.get(name);
+    if (provider) {
+      return provider;
+    }
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown LLM provider "${name}"`);
+    }
+
+    provider = factory();
+    this.instances.set(name, provider);
+    return provider;
+  }
+
+  complete(request: LlmRequest): Promise<LlmCompletion> {
+    return this.forModel(request.model).complete(request);
+  }
+
+  stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    return this.forModel(request.model).stream(request);
+  }
+}
@@ -0,0 +1,127 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+export type ModelRole = 'anonymous' | 'user' | 'admin';
+
+export interface ModelCapabilities {
+  streaming: boolean;
+  vision: boolean;
+  tools: boolean;
+  /** Accepts `temperature`, `topP` and `stop`; reasoning models do not. */
+  sampling: boolean;
+  /** Accepts a `reasoningEffort`. */
+  reasoning: boolean;
+  /** Can be made to answer with a JSON object. */
+  jsonMode: boolean;
+}
+
+export interface ModelDefinition {
+  id: string;
+  displayName: string;
+  /** Name of the provider registered in `LlmService`. */
+  provider: string;
+  /** Maximum number of tokens (prompt + completion) the model accepts. */
+  contextWindow: number;
+  capabilities: ModelCapabilities;
+  /** Longest answer the model can write, if known; bounds `maxTokens`. */
+  maxOutputTokens?: number;
+  /** Roles allowed to chat with this model. */
+  roles: ModelRole[];
+}
+
+/**
+ * A model as configured. `sampling` defaults to `true`, `reasoning` and
+ * `jsonMode` to `false`.
+ */
+type ModelConfig = Omit<ModelDefinition, 'provider' | 'capabilities'> & {
+  provider?: string;
+  capabilities: Omit<ModelCapabilities, 'sampling' | 'reasoning' | 'jsonMode'> &
+    Partial<ModelCapabilities>;
+};
+
+const DEFAULT_MODELS: ModelConfig[] = [
+  {
+    id: 'gpt-4o',
+    displayName: 'GPT-4o',
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    capabilities: {
+      streaming: true,
+      vision: true,
+      tools: true,
+      jsonMode: true,
+    },
+    roles: ['anonymous', 'user', 'admin'],
+  },
+  {
+    id: 'o3',
+    displayName: 'o3',
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    capabilities: {
+      streaming: true,
+      vision: true,
+      tools: true,
+      sampling: false,
+      reasoning: true,
+      jsonMode: true,
+    },
+    roles: ['user', 'admin'],
+  },
+];
+
+/**
+ * Server-side list of the models users may chat with.
+ *
+ * Defaults to `gpt-4o` and `o3`. Set `LLM_MODELS` to a JSON array of model
+ * definitions to replace them; entries without a `provider` use `LLM_PROVIDER`.
+ * The first model a role may use is its default unless `LLM_DEFAULT_MODEL` says otherwise.
+ */
+@Injectable()
+export class ModelRegistry {
+  private readonly models: ModelDefinition[];
+
+  constructor(private readonly config: ConfigService) {
+    const raw = this.config.get<string>('LLM_MODELS');
+    const configured = raw
+      ? (JSON.parse(raw) as ModelConfig[])
+      : DEFAULT_MODELS;
+    const defaultProvider = this.config.get<string>('LLM_PROVIDER') ?? 'openai';
+
+    this.models = configured.map((m) => ({
+      ...m,
+      provider: m.provider ?? defaultProvider,
+      capabilities: {
+        sampling: true,
+        reasoning: false,
+        jsonMode: false,
+        ...m.capabilities,
+      },
+    }));
+  }
+
+  list(): ModelDefinition[] {
+    return this.models;
+  }
+
+  get(id: string): ModelDefinition | undefined {
+    return this.models.find((m) => m.id === id);
+  }
+
+  /**
+   * Models the given role is allowed to use.
+   */
+  listFor(role: ModelRole): ModelDefinition[] {
+    return this.models.filter((m) => m.roles.includes(role));
+  }
+
+  isAllowed(id: string, role: ModelRole): boolean {
+    return this.get(id)?.roles.includes(role) ?? false;
+  }
+
+  defaultFor(role: ModelRole): ModelDefinition | undefined {
+    const allowed = this.listFor(role);
+    const preferred = this.config.get<string>('LLM_DEFAULT_MODEL');
+    return allowed.find((m) => m.id === preferred) ?? allowed[0];
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  LlmCompletion,
+  LlmProvider,
+  LlmRequest,
+  LlmStreamChunk,
+  LlmToolCall,
+  LlmUsage,
+  textOf,
+} from '../llm-provider';
+
+/**
+ * Deterministic offline provider. It echoes the latest user message back so
+ * the whole stack (and its e2e tests) can run without any API key or network.
+ *
+ * A user message like `call calculator {"expression":"1+1"}` makes it call
+ * that tool (when offered) instead, and it answers a tool result by quoting it.
+ */
+export class MockLlmProvider implements LlmProvider {
+  complete(request: LlmRequest): Promise<LlmCompletion> {
+    const content = this.reply(request);
+    return Promise.resolve({ content, usage: this.usage(request, content) });
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const call = this.toolCall(request);
+    if (call) {
+      await Promise.resolve();
+      request.signal?.throwIfAborted();
+      yield { type: 'tool_call', call };
+      yield { type: 'usage', usage: this.usage(request, '') };
+      return;
+    }
+
+    const content = this.reply(request);
+
+    // Split on word boundaries but keep the whitespace so chunks re-join exactly
+    for (const token of content.split(/(?<=\s)/)) {
+      await Promise.resolve();
+      request.signal?.throwIfAborted();
+      yield { type: 'delta', content: token };
+    }
+
+    yield { type: 'usage', usage: this.usage(request, content) };
+  }
+
+  private toolCall(request: LlmRequest): LlmToolCall | null {
+    const last = request.messages[request.messages.length - 1];
+    if (last?.role !== 'user' || !request.tools?.length) return null;
+
+    const match = /^call (\S+)(?: (.*))?$/s.exec(textOf(last.content).trim());
+    if (!match || !request.tools.some((t) => t.name === match[1])) return null;
+
+    return {
+      id: `call_${request.messages.length}`,
+      name: match[1],
+      arguments: match[2] ?? '{}',
+    };
+  }
+
+  private reply(request: LlmRequest): string {
+    const last = request.messages[request.messages.length - 1];
+    if (last?.role === 'tool') {
+      return `[${request.model}] The tool said: ${textOf(last.content)}`;
+    }
+
+    const lastUser = [...request.messages]
+      .reverse()
+      .find((m) => m.role === 'user');
+
+    return `[${request.model}] You said: ${lastUser ? textOf(lastUser.content) : ''}`;
+  }
+
+  /** Word counts stand in for tokens. */
+  private usage(request: LlmRequest, content: string): LlmUsage {
+    const count = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const promptTokens = request.messages.reduce(
+      (sum, m) => sum + count(textOf(m.content)),
+      0,
+    );
+    const completionTokens = count(content);
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+  }
+}
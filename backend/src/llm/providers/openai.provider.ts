@@ -0,0 +1,208 @@
+import OpenAI from 'openai';
+import {
+  GenerationParams,
+  LlmCompletion,
+  LlmErrorCode,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderError,
+  LlmRequest,
+  LlmStreamChunk,
+  LlmToolCall,
+  LlmToolDefinition,
+  LlmUsage,
+  textOf,
+} from '../llm-provider';
+
+export interface OpenAiProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+}
+
+/**
+ * Provider backed by the official OpenAI SDK. Passing a `baseURL` points it at
+ * any OpenAI-compatible server (vLLM, llama.cpp server, Ollama, …).
+ */
+export class OpenAiProvider implements LlmProvider {
+  private readonly client: OpenAI;
+
+  constructor(options: OpenAiProviderOptions) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    try {
+      const completion = await this.client.chat.completions.create(
+        {
+          model: request.model,
+          messages: toOpenAiMessages(request.messages),
+          tools: toOpenAiTools(request.tools),
+          ...toOpenAiParams(request),
+        },
+        { signal: request.signal },
+      );
+
+      return {
+        content: completion.choices[0]?.message?.content ?? '',
+        usage: toUsage(completion.usage),
+      };
+    } catch (err) {
+      throw toProviderError(err);
+    }
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          model: request.model,
+          messages: toOpenAiMessages(request.messages),
+          tools: toOpenAiTools(request.tools),
+          ...toOpenAiParams(request),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal },
+      );
+
+      // Tool calls arrive in pieces, keyed by their position in the answer
+      const calls: LlmToolCall[] = [];
+      let usage: LlmUsage | undefined;
+      for await (const part of stream) {
+        const delta = part.choices[0]?.delta;
+        const token = delta?.content ?? '';
+        if (token) {
+          yield { type: 'delta', content: token };
+        }
+
+        for (const piece of delta?.tool_calls ?? []) {
+          const call = (calls[piece.index] ??= {
+            id: '',
+            name: '',
+            arguments: '',
+          });
+          call.id ||= piece.id ?? '';
+          call.name ||= piece.function?.name ?? '';
+          call.arguments += piece.function?.arguments ?? '';
+        }
+
+        usage = toUsage(part.usage) ?? usage;
+      }
+
+      for (const call of calls) {
+        yield { type: 'tool_call', call };
+      }
+      if (usage) {
+        yield { type: 'usage', usage };
+      }
+    } catch (err) {
+      throw toProviderError(err);
+    }
+  }
+}
+
+function toOpenAiMessages(
+  messages: LlmMessage[],
+): OpenAI.ChatCompletionMessageParam[] {
+  return messages.map(({ role, content, toolCalls, toolCallId }) => {
+    if (role === 'tool') {
+      return {
+        role,
+        content: textOf(content),
+        tool_call_id: toolCallId ?? '',
+      };
+    }
+    if (toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: textOf(content) || null,
+        tool_calls: toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    if (typeof content === 'string') {
+      return { role, content };
+    }
+
+    // Only user turns carry images; the API accepts parts there
+    const parts = content.map(
+      (part): OpenAI.ChatCompletionContentPart =>
+        part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : {
+              type: 'image_url',
+              image_url: { url: `data:${part.mimeType};base64,${part.data}` },
+            },
+    );
+    return { role, content: parts } as OpenAI.ChatCompletionMessageParam;
+  });
+}
+
+function toOpenAiTools(
+  tools?: LlmToolDefinition[],
+): OpenAI.ChatCompletionTool[] | undefined {
+  if (!tools?.length) {
+    return undefined;
+  }
+
+  return tools.map(({ name, description, parameters }) => ({
+    type: 'function',
+    function: { name, description, parameters },
+  }));
+}
+
+function toOpenAiParams(
+  params: GenerationParams,
+): Pick<
+  OpenAI.ChatCompletionCreateParams,
+  | 'temperature'
+  | 'top_p'
+  | 'max_completion_tokens'
+  | 'stop'
+  | 'response_format'
+  | 'reasoning_effort'
+> {
+  return {
+    temperature: params.temperature,
+    top_p: params.topP,
+    max_completion_tokens: params.maxTokens,
+    stop: params.stop,
+    response_format: params.jsonMode ? { type: 'json_object' } : undefined,
+    reasoning_effort: params.reasoningEffort,
+  };
+}
+
+function toProviderError(err: unknown): unknown {
+  if (!(err instanceof OpenAI.APIError)) {
+    return err;
+  }
+
+  let code: LlmErrorCode = 'provider_error';
+  if (err.code === 'context_length_exceeded') {
+    code = 'context_length_exceeded';
+  } else if (err.status === 429) {
+    code = 'rate_limited';
+  } else if (err.status === 401 || err.status === 403) {
+    code = 'provider_auth';
+  }
+
+  return new LlmProviderError(err.message, code);
+}
+
+function toUsage(usage?: OpenAI.CompletionUsage | null): LlmUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
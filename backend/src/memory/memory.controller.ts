@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthedRequest } from '../auth/authed-request';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { MemoryService } from './memory.service';
+
+@Controller('memories')
+@UseGuards(JwtAuthGuard)
+export class MemoryController {
+  constructor(private readonly memory: MemoryService) {}
+
+  /** GET /memories – what is remembered about the caller, latest first. */
+  @Get()
+  async list(@Req() req: AuthedRequest) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { memories: await this.memory.list(userId) };
+  }
+
+  /** PATCH /memories/:id – correct a remembered fact. */
+  @Patch(':id')
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: { content?: string },
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { memory: await this.memory.update(id, userId, body?.content) };
+  }
+
+  /** DELETE /memories/:id – forget a fact. */
+  @Delete(':id')
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    await this.memory.remove(id, userId);
+    return { success: true };
+  }
+}
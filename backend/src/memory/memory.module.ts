@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { LlmModule } from '../llm/llm.module';
+import { EmbeddingsModule } from '../knowledge/embeddings/embeddings.module';
+import { MemoryController } from './memory.controller';
+import { MemoryService } from './memory.service';
+
+@Module({
+  imports: [ConfigModule, SupabaseModule, LlmModule, EmbeddingsModule],
+  providers: [MemoryService],
+  controllers: [MemoryController],
+  exports: [MemoryService],
+})
+export class MemoryModule {}
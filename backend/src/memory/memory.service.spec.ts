@@ -0,0 +1,26 @@
+import { parseMemoryReply } from './memory.service';
+
+describe('parseMemoryReply', () => {
+  it('reads the facts out of fenced or chatty JSON', () => {
+    const reply =
+      'Here you go:\n```json\n' +
+      '{"add": ["- Prefers   TypeScript.", "", 42], ' +
+      '"update": [{"id": 2, "content": "Works at Safar."}, {"id": "1", "content": "x"}]}\n```';
+
+    expect(parseMemoryReply(reply)).toEqual({
+      add: ['Prefers TypeScript.'],
+      update: [{ index: 2, content: 'Works at Safar.' }],
+    });
+  });
+
+  it('drops overlong facts and unreadable replies', () => {
+    expect(parseMemoryReply(`{"add": ["${'a'.repeat(301)}"]}`)).toEqual({
+      add: [],
+      update: [],
+    });
+    expect(parseMemoryReply('Nothing to remember.')).toEqual({
+      add: [],
+      update: [],
+    });
+  });
+});
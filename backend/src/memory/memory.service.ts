@@ -0,0 +1,336 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmService } from '../llm/llm.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  EMBEDDINGS_PROVIDER,
+  EmbeddingsProvider,
+} from '../knowledge/embeddings/embeddings-provider';
+
+export const MAX_MEMORY_LENGTH = 300;
+// Learning stops at this many facts until the user deletes some
+const MAX_MEMORIES = 200;
+// Facts told to the model each turn, the closest to the user's message
+const MEMORIES_PER_TURN = 10;
+// New facts kept from a single turn
+const MAX_FACTS_PER_TURN = 5;
+const DEFAULT_MEMORY_MODEL = 'gpt-4o-mini';
+// Enough of a turn to find what it says about the user
+const MAX_MESSAGE_LENGTH = 4000;
+const MAX_ANSWER_LENGTH = 2000;
+
+const MEMORY_COLUMNS = 'id, content, source_chat_id, created_at, updated_at';
+
+const EXTRACTION_PROMPT =
+  'You keep a memory of durable facts about the user across conversations. ' +
+  'Read their latest message (the answer is only there for context) and pick ' +
+  'out what is worth knowing in future conversations: preferences, their ' +
+  'work, projects, tools, location, the people they mention and their goals. ' +
+  'Skip anything temporary, trivial or only about the current task, and ' +
+  'anything sensitive (health, finances, credentials) unless the user asks ' +
+  'you to remember it. Write each fact as a short sentence about the user, ' +
+  'such as "Prefers TypeScript." Do not repeat known facts. Reply with JSON ' +
+  'only: {"add": ["new fact", ...], "update": [{"id": <id of a known fact ' +
+  'that is now wrong>, "content": "corrected fact"}]}, with empty lists when ' +
+  'there is nothing to remember.';
+
+/** A fact about a user, recalled in their chats. */
+export interface Memory {
+  id: string;
+  content: string;
+  /** The chat the fact was learned from, unless it has been deleted. */
+  source_chat_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What the extraction model asks to change; `index` counts known facts from 1. */
+export interface MemoryReply {
+  add: string[];
+  update: Array<{ index: number; content: string }>;
+}
+
+/** The `match_memories` Postgres function, as called through `rpc()`. */
+interface MatchMemories {
+  Args: { p_user_id: string; p_embedding: number[]; p_limit: number };
+  Returns: { content: string }[];
+}
+
+/**
+ * Read the extraction model's reply, tolerating the code fences and prose
+ * models wrap JSON in. Facts are trimmed to one line; empty or overlong ones
+ * are dropped. Anything unreadable counts as nothing to remember.
+ */
+export function parseMemoryReply(reply: string): MemoryReply {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(reply.slice(start, end + 1));
+  } catch {
+    return { add: [], update: [] };
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return { add: [], update: [] };
+  }
+
+  const { add, update } = parsed as { add?: unknown; update?: unknown };
+  return {
+    add: (Array.isArray(add) ? add : [])
+      .map(cleanFact)
+      .filter((fact): fact is string => fact !== null),
+    update: (Array.isArray(update) ? update : []).flatMap((entry) => {
+      const { id, content } = (entry ?? {}) as {
+        id?: unknown;
+        content?: unknown;
+      };
+      const fact = cleanFact(content);
+      return Number.isInteger(id) && fact !== null
+        ? [{ index: id as number, content: fact }]
+        : [];
+    }),
+  };
+}
+
+function cleanFact(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const fact = value
+    .replace(/^[-*•\s]+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return fact && fact.length <= MAX_MEMORY_LENGTH ? fact : null;
+}
+
+const sameFact = (fact: string) =>
+  fact
+    .toLowerCase()
+    .replace(/[.!]+$/, '')
+    .trim();
+
+/**
+ * Long-term memory: durable facts about a user, learned from their chats by
+ * a cheap model (`LLM_MEMORY_MODEL`, `gpt-4o-mini` by default; set it empty
+ * to stop learning) and embedded so each turn recalls the closest ones.
+ * Only used for users who turned memory on in their settings; callers check.
+ */
+@Injectable()
+export class MemoryService {
+  private readonly logger = new Logger(MemoryService.name);
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly llm: LlmService,
+    private readonly supabase: SupabaseService,
+    @Inject(EMBEDDINGS_PROVIDER)
+    private readonly embeddings: EmbeddingsProvider,
+  ) {}
+
+  /** The user's memories, latest first. */
+  async list(userId: string): Promise<Memory[]> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('memories')
+      .select(MEMORY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as Memory[];
+  }
+
+  /** Rewrite a memory, in the user's own words. */
+  async update(id: string, userId: string, content: unknown): Promise<Memory> {
+    const fact = validateContent(content);
+    const [embedding] = await this.embeddings.embed([fact]);
+
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('memories')
+      .update({
+        content: fact,
+        embedding,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(MEMORY_COLUMNS);
+
+    if (error) {
+      throw error;
+    }
+
+    const [memory] = data as Memory[];
+    if (!memory) {
+      throw new NotFoundException('Memory not found');
+    }
+    return memory;
+  }
+
+  async remove(id: string, userId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('memories')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    if (!(data as unknown[]).length) {
+      throw new NotFoundException('Memory not found');
+    }
+  }
+
+  /**
+   * The user's facts closest to the message being answered, or the latest
+   * ones for a message without text. Resolves to none when recalling fails:
+   * the chat goes on without them.
+   */
+  async recall(userId: string, message: string): Promise<string[]> {
+    try {
+      if (!message.trim()) {
+        const memories = await this.list(userId);
+        return memories.slice(0, MEMORIES_PER_TURN).map((m) => m.content);
+      }
+
+      const [embedding] = await this.embeddings.embed([
+        message.slice(0, MAX_MESSAGE_LENGTH),
+      ]);
+      const { data, error } = await this.supabase
+        .getClient()
+        .rpc<'match_memories', MatchMemories>('match_memories', {
+          p_user_id: userId,
+          p_embedding: embedding,
+          p_limit: MEMORIES_PER_TURN,
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      return data.map((m) => m.content);
+    } catch (err) {
+      this.logger.warn(
+        `Could not recall memories for user ${userId}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Store the new facts a completed turn tells about the user, and correct
+   * the known facts it contradicts. Facts already known, whatever their
+   * case, are skipped. Resolves to the stored memories; never rejects, as a
+   * turn simply teaches nothing when the model fails.
+   */
+  async learn(
+    userId: string,
+    chatId: string,
+    message: string,
+    answer: string,
+  ): Promise<Memory[]> {
+    const model =
+      this.config.get<string>('LLM_MEMORY_MODEL') ?? DEFAULT_MEMORY_MODEL;
+    if (!model || !message.trim()) return [];
+
+    try {
+      const known = await this.list(userId);
+      const { content } = await this.llm.complete({
+        model,
+        messages: [
+          { role: 'system', content: EXTRACTION_PROMPT },
+          {
+            role: 'user',
+            content: [
+              'Known facts:',
+              ...(known.length
+                ? known.map((m, i) => `${i + 1}. ${m.content}`)
+                : ['(none)']),
+              '',
+              `User: ${message.slice(0, MAX_MESSAGE_LENGTH)}`,
+              '',
+              `Assistant: ${answer.slice(0, MAX_ANSWER_LENGTH)}`,
+            ].join('\n'),
+          },
+        ],
+      });
+      const reply = parseMemoryReply(content);
+
+      const seen = new Set(known.map((m) => sameFact(m.content)));
+      const isNew = (fact: string) => {
+        const key = sameFact(fact);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      };
+
+      const updated: Memory[] = [];
+      for (const { index, content: fact } of reply.update) {
+        const memory = known[index - 1];
+        if (memory && isNew(fact)) {
+          updated.push(await this.update(memory.id, userId, fact));
+        }
+      }
+
+      const added = reply.add
+        .filter(isNew)
+        .slice(
+          0,
+          Math.max(
+            0,
+            Math.min(MAX_FACTS_PER_TURN, MAX_MEMORIES - known.length),
+          ),
+        );
+      if (!added.length) return updated;
+
+      const embeddings = await this.embeddings.embed(added);
+      const { data, error } = await this.supabase
+        .getClient()
+        .from('memories')
+        .insert(
+          added.map((fact, i) => ({
+            user_id: userId,
+            content: fact,
+            embedding: embeddings[i],
+            source_chat_id: chatId,
+          })),
+        )
+        .select(MEMORY_COLUMNS);
+
+      if (error) {
+        throw error;
+      }
+
+      return [...updated, ...(data as Memory[])];
+    } catch (err) {
+      this.logger.warn(
+        `Could not learn from chat ${chatId}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return [];
+    }
+  }
+}
+
+function validateContent(content: unknown): string {
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new BadRequestException('content is required');
+  }
+  if (content.trim().length > MAX_MEMORY_LENGTH) {
+    throw new BadRequestException(
+      `content is limited to ${MAX_MEMORY_LENGTH} characters`,
+    );
+  }
+  return content.trim();
+}
@@ -0,0 +1,45 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Patch,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthedRequest } from '../auth/authed-request';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { SettingsService, UserSettings } from './settings.service';
+
+type UpdateSettingsDto = Partial<UserSettings>;
+
+@Controller('settings')
+@UseGuards(JwtAuthGuard)
+export class SettingsController {
+  constructor(private readonly settings: SettingsService) {}
+
+  /** GET /settings – the signed-in user's settings. */
+  @Get()
+  async getSettings(@Req() req: AuthedRequest) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { settings: await this.settings.get(userId) };
+  }
+
+  /** PATCH /settings – update the given settings, leave the others as they are. */
+  @Patch()
+  async updateSettings(
+    @Body() body: UpdateSettingsDto,
+    @Req() req: AuthedRequest,
+  ) {
+    const userId = req.user?.sub;
+    if (!userId) {
+      throw new UnauthorizedException();
+    }
+
+    return { settings: await this.settings.update(userId, body ?? {}) };
+  }
+}
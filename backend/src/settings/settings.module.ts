@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SettingsController } from './settings.controller';
+import { SettingsService } from './settings.service';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [SettingsService],
+  controllers: [SettingsController],
+  exports: [SettingsService],
+})
+export class SettingsModule {}
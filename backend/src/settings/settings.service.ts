@@ -0,0 +1,81 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+
+export const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 1500;
+
+export interface UserSettings {
+  /** Told to the model at the start of every chat; empty when unset. */
+  customInstructions: string;
+  /** Whether facts are learned from chats and recalled in later ones. */
+  memoryEnabled: boolean;
+}
+
+/**
+ * Per-user preferences, stored on the user's `profile` row.
+ */
+@Injectable()
+export class SettingsService {
+  constructor(private readonly supabase: SupabaseService) {}
+
+  async get(userId: string): Promise<UserSettings> {
+    const { data, error } = await this.supabase
+      .getClient()
+      .from('profile')
+      .select('custom_instructions, memory_enabled')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    const row = data as {
+      custom_instructions: string | null;
+      memory_enabled: boolean | null;
+    } | null;
+    return {
+      customInstructions: row?.custom_instructions ?? '',
+      memoryEnabled: row?.memory_enabled ?? false,
+    };
+  }
+
+  async update(
+    userId: string,
+    patch: Partial<UserSettings>,
+  ): Promise<UserSettings> {
+    const { customInstructions, memoryEnabled } = patch;
+    // Nothing is stored unless every given setting is valid
+    const row: Record<string, unknown> = {};
+    if (customInstructions !== undefined) {
+      if (typeof customInstructions !== 'string') {
+        throw new BadRequestException('customInstructions must be a string');
+      }
+      if (customInstructions.length > MAX_CUSTOM_INSTRUCTIONS_LENGTH) {
+        throw new BadRequestException(
+          `customInstructions is limited to ${MAX_CUSTOM_INSTRUCTIONS_LENGTH} characters`,
+        );
+      }
+      row.custom_instructions = customInstructions.trim() || null;
+    }
+    if (memoryEnabled !== undefined) {
+      if (typeof memoryEnabled !== 'boolean') {
+        throw new BadRequestException('memoryEnabled must be a boolean');
+      }
+      row.memory_enabled = memoryEnabled;
+    }
+
+    if (Object.keys(row).length) {
+      const { error } = await this.supabase
+        .getClient()
+        .from('profile')
+        .update(row)
+        .eq('id', userId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    return this.get(userId);
+  }
+}
@@ -0,0 +1,32 @@
+import { ToolError } from '../tool';
+import { evaluate } from './calculator.tool';
+
+describe('calculator', () => {
+  it('follows the usual precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('-2 ** 2')).toBe(-4);
+    expect(evaluate('10 % 4 / 2')).toBe(1);
+    expect(evaluate('1.5e3 - .5')).toBe(1499.5);
+  });
+
+  it('knows constants and functions', () => {
+    expect(evaluate('sqrt(16) + max(1, 5, 3)')).toBe(9);
+    expect(evaluate('round(PI * 100)')).toBe(314);
+    expect(evaluate('log(1000)')).toBe(3);
+  });
+
+  it('rejects anything else', () => {
+    for (const expression of [
+      '',
+      '2 +',
+      '(1',
+      '1 2',
+      'process.exit()',
+      'foo(1)',
+    ]) {
+      expect(() => evaluate(expression)).toThrow(ToolError);
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { Tool, ToolError } from '../tool';
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+/**
+ * Evaluate an arithmetic expression: numbers, `+ - * / % ^` (`**` works too),
+ * parentheses, `pi`, `e` and the functions above. Written as a small parser
+ * rather than `eval` so a model can never run code through it.
+ */
+export function evaluate(expression: string): number {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+|\*\*|\S/gi);
+  if (!tokens) {
+    throw new ToolError('The expression is empty');
+  }
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw new ToolError(`Expected "${token}"`);
+    }
+  };
+
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  const product = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const operand = unary();
+      value =
+        operator === '*'
+          ? value * operand
+          : operator === '/'
+            ? value / operand
+            : value % operand;
+    }
+    return value;
+  };
+
+  // Unary minus binds looser than powers: -2^2 is -4
+  const unary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -unary();
+    }
+    if (peek() === '+') {
+      next();
+      return unary();
+    }
+    return power();
+  };
+
+  const power = (): number => {
+    const base = primary();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return base ** unary();
+    }
+    return base;
+  };
+
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new ToolError('The expression ends too early');
+    }
+    if (token === '(') {
+      const value = sum();
+      expect(')');
+      return value;
+    }
+    if (/^\d*\.?\d/.test(token)) {
+      return Number(token);
+    }
+
+    const name = token.toLowerCase();
+    if (name in CONSTANTS) {
+      return CONSTANTS[name];
+    }
+    if (name in FUNCTIONS) {
+      expect('(');
+      const args = [sum()];
+      while (peek() === ',') {
+        next();
+        args.push(sum());
+      }
+      expect(')');
+      return FUNCTIONS[name](...args);
+    }
+    throw new ToolError(`Unexpected "${token}"`);
+  };
+
+  const value = sum();
+  if (position < tokens.length) {
+    throw new ToolError(`Unexpected "${tokens[position]}"`);
+  }
+  return value;
+}
+
+export const calculatorTool: Tool = {
+  name: 'calculator',
+  description:
+    'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, exp, ln, log (base 10), sin, cos, tan, asin, acos, atan (radians), min, max, pow.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: {
+        type: 'string',
+        description: 'The expression, e.g. "(3 + 4) * 2^10 / sqrt(2)"',
+      },
+    },
+    required: ['expression'],
+  },
+
+  run(args) {
+    const expression = args.expression as string;
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new ToolError('The expression is too long');
+    }
+
+    const value = evaluate(expression);
+    if (!Number.isFinite(value)) {
+      throw new ToolError('The result is not a finite number');
+    }
+    // Drop floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+    return Promise.resolve(String(Number(value.toPrecision(15))));
+  },
+};
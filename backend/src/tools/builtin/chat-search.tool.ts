@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  MAX_SEARCH_QUERY_LENGTH,
+  parseHeadline,
+} from '../../chat/search-snippet';
+import { Tool, ToolContext, ToolError } from '../tool';
+
+const DEFAULT_LIMIT = 5;
+
+interface SearchRow {
+  chat_id: string;
+  chat_title: string | null;
+  chat_created_at: string;
+  role: string | null;
+  snippet: string;
+}
+
+/** The `search_chats` Postgres function, as called through `rpc()`. */
+interface SearchChats {
+  Args: { p_user_id: string; p_query: string; p_limit: number };
+  Returns: SearchRow[];
+}
+
+/**
+ * Full-text search over the signed-in user's other chats, through the same
+ * `search_chats` function as `GET /api/chat/search`.
+ */
+@Injectable()
+export class ChatSearchTool implements Tool {
+  readonly name = 'search_chats';
+  readonly description =
+    "Search the user's earlier chats by keywords. Returns matching chat titles with excerpts of the matching messages.";
+  readonly parameters: Tool['parameters'] = {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description:
+          'Keywords; supports "quoted phrases", OR and -excluded words',
+      },
+      limit: {
+        type: 'integer',
+        description: `Most chats to return, ${DEFAULT_LIMIT} by default`,
+        minimum: 1,
+        maximum: 10,
+      },
+    },
+    required: ['query'],
+  };
+
+  constructor(private readonly supabase: SupabaseService) {}
+
+  availableTo({ userId }: ToolContext): boolean {
+    return userId !== undefined;
+  }
+
+  async run(
+    args: Record<string, unknown>,
+    { userId, chatId }: ToolContext,
+  ): Promise<string> {
+    // Held to the same rules as GET /api/chat/search
+    const query = (args.query as string).trim();
+    if (!query) {
+      throw new ToolError('The query is empty');
+    }
+    if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+      throw new ToolError('The query is too long');
+    }
+
+    const limit = (args.limit as number | undefined) ?? DEFAULT_LIMIT;
+    const { data, error } = await this.supabase
+      .getClient()
+      .rpc<'search_chats', SearchChats>('search_chats', {
+        // Only offered to signed-in users
+        p_user_id: userId!,
+        p_query: query,
+        // One more in case the chat asking shows up
+        p_limit: limit + 1,
+      });
+
+    if (error) {
+      throw error;
+    }
+
+    const chats = new Map<
+      string,
+      { title: string | null; date: string; excerpts: string[] }
+    >();
+    for (const row of data) {
+      // The question itself and earlier tool results are no news to the model
+      if (row.chat_id === chatId || row.role === 'tool') continue;
+
+      let chat = chats.get(row.chat_id);
+      if (!chat) {
+        chat = {
+          title: row.chat_title,
+          date: row.chat_created_at,
+          excerpts: [],
+        };
+        chats.set(row.chat_id, chat);
+      }
+      // Title matches (no role) are covered by the title
+      if (row.role) {
+        chat.excerpts.push(`${row.role}: ${parseHeadline(row.snippet).text}`);
+      }
+    }
+
+    if (!chats.size) {
+      return 'No matching chats.';
+    }
+    return JSON.stringify([...chats.values()].slice(0, limit));
+  }
+}
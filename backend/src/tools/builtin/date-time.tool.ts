@@ -0,0 +1,36 @@
+import { Tool, ToolError } from '../tool';
+
+export const dateTimeTool: Tool = {
+  name: 'current_datetime',
+  description:
+    'Get the current date and time, in UTC and optionally in an IANA time zone such as "Europe/Paris".',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: {
+        type: 'string',
+        description: 'IANA time zone name; UTC when omitted',
+      },
+    },
+  },
+
+  run(args) {
+    const now = new Date();
+    const timeZone = (args.timeZone as string | undefined) ?? 'UTC';
+
+    let local: string;
+    try {
+      local = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        dateStyle: 'full',
+        timeStyle: 'long',
+      }).format(now);
+    } catch {
+      throw new ToolError(`Unknown time zone "${timeZone}"`);
+    }
+
+    return Promise.resolve(
+      JSON.stringify({ utc: now.toISOString(), timeZone, local }),
+    );
+  },
+};
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { CodeSandbox, SandboxLanguage } from '../sandbox/code-sandbox';
+import { Tool, ToolContext, ToolError } from '../tool';
+
+const MAX_CODE_LENGTH = 20_000;
+
+/**
+ * Runs a snippet in the `CodeSandbox` and reports its exit code, output and
+ * the files it wrote. Only offered to signed-in users.
+ */
+@Injectable()
+export class RunCodeTool implements Tool {
+  readonly name = 'run_code';
+
+  constructor(private readonly sandbox: CodeSandbox) {}
+
+  get description(): string {
+    return `Run a ${this.sandbox.available().join(' or ')} program in an isolated sandbox without network access and return its exit code, stdout, stderr and the files it wrote to its working directory. Print what you need to see.`;
+  }
+
+  get parameters(): Tool['parameters'] {
+    return {
+      type: 'object',
+      properties: {
+        language: { type: 'string', enum: this.sandbox.available() },
+        code: { type: 'string', description: 'The complete program' },
+      },
+      required: ['language', 'code'],
+    };
+  }
+
+  availableTo({ userId }: ToolContext): boolean {
+    return userId !== undefined && this.sandbox.available().length > 0;
+  }
+
+  async run(
+    args: Record<string, unknown>,
+    { signal }: ToolContext,
+  ): Promise<string> {
+    const code = args.code as string;
+    if (code.length > MAX_CODE_LENGTH) {
+      throw new ToolError('The code is too long');
+    }
+
+    const result = await this.sandbox.run(
+      args.language as SandboxLanguage,
+      code,
+      signal,
+    );
+    return JSON.stringify(result);
+  }
+}
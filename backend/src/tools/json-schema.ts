@@ -0,0 +1,83 @@
+import { JsonSchema } from './tool';
+
+/**
+ * Check a value against a `JsonSchema`. Returns the first problem as a
+ * sentence the model can act on, or `null` when the value is valid.
+ */
+export function validateArguments(
+  schema: JsonSchema,
+  value: unknown,
+  path = 'arguments',
+): string | null {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${path} must be an object`;
+      }
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+
+      for (const name of schema.required ?? []) {
+        if (record[name] === undefined) {
+          return `${path}.${name} is required`;
+        }
+      }
+      for (const [name, item] of Object.entries(record)) {
+        const property = properties[name];
+        if (!property) {
+          return `${path}.${name} is not a known argument`;
+        }
+        const problem = validateArguments(property, item, `${path}.${name}`);
+        if (problem) return problem;
+      }
+      return null;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return `${path} must be an array`;
+      }
+      for (const [i, item] of value.entries()) {
+        const problem = schema.items
+          ? validateArguments(schema.items, item, `${path}[${i}]`)
+          : null;
+        if (problem) return problem;
+      }
+      return null;
+    }
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${path} must be a number`;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return `${path} must be an integer`;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return `${path} must be at least ${schema.minimum}`;
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return `${path} must be at most ${schema.maximum}`;
+      }
+      break;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return `${path} must be a string`;
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return `${path} must be a boolean`;
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return `${path} must be one of ${schema.enum.join(', ')}`;
+  }
+  return null;
+}
@@ -0,0 +1,93 @@
+import { spawnSync } from 'node:child_process';
+import { ConfigService } from '@nestjs/config';
+import { CodeSandbox } from './code-sandbox';
+
+// Runs real processes, so only where bubblewrap can make its namespaces
+const supported =
+  spawnSync('bwrap', ['--unshare-all', '--ro-bind', '/', '/', 'true'])
+    .status === 0;
+
+(supported ? describe : describe.skip)('CodeSandbox', () => {
+  let sandbox: CodeSandbox;
+
+  beforeAll(async () => {
+    sandbox = new CodeSandbox(
+      new ConfigService({
+        CODE_TIMEOUT_MS: '2000',
+        CODE_MEMORY_MB: '128',
+        CODE_MAX_FILE_MB: '1',
+      }),
+    );
+    await sandbox.onModuleInit();
+  });
+
+  it('runs JavaScript and returns output and files', async () => {
+    const result = await sandbox.run(
+      'javascript',
+      `require('fs').writeFileSync('out.csv', 'a,b\\n1,2');
+       console.log(6 * 7);
+       console.error('careful');`,
+    );
+
+    expect(result).toEqual({
+      exitCode: 0,
+      timedOut: false,
+      stdout: '42\n',
+      stderr: 'careful\n',
+      files: [{ name: 'out.csv', size: 7, content: 'a,b\n1,2' }],
+    });
+  });
+
+  it('keeps code away from the network and the files of the host', async () => {
+    const result = await sandbox.run(
+      'javascript',
+      `const { existsSync } = require('fs');
+       const { spawnSync } = require('child_process');
+       console.log(existsSync('/etc/hostname'), existsSync(process.cwd()));
+       console.log(spawnSync('unshare', ['--user', 'true']).status);
+       fetch('http://1.1.1.1').catch((e) => console.log(e.cause.code));`,
+    );
+
+    expect(result.stdout).toBe('false true\n1\nENETUNREACH\n');
+  });
+
+  it('stops code that runs too long', async () => {
+    const result = await sandbox.run('javascript', 'for (;;) {}');
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+  });
+
+  it('stops code that writes too much', async () => {
+    const result = await sandbox.run(
+      'javascript',
+      `require('fs').writeFileSync('big.bin', Buffer.alloc(2 * 1024 * 1024));
+       console.log('written');`,
+    );
+
+    expect(result.stdout).toBe('');
+    expect(result.stderr).toContain('EFBIG');
+    expect(result.exitCode).toBe(1);
+    expect(result.files).toEqual([
+      expect.objectContaining({ name: 'big.bin', size: 1024 * 1024 }),
+    ]);
+  });
+
+  it('runs Python under the same rules when it is installed', async () => {
+    if (!sandbox.available().includes('python')) return;
+
+    const result = await sandbox.run(
+      'python',
+      `import ctypes, json, os
+print(json.dumps({"sum": 1 + 2}))
+print(os.path.exists('/etc/hostname'))
+libc = ctypes.CDLL(None, use_errno=True)
+print(libc.mount(b'none', b'/tmp', b'tmpfs', 0, None), ctypes.get_errno())
+x = bytearray(512 * 1024 * 1024)`,
+    );
+
+    expect(result.stdout).toBe('{"sum": 3}\nFalse\n-1 1\n');
+    expect(result.stderr).toContain('MemoryError');
+    expect(result.exitCode).toBe(1);
+  });
+});
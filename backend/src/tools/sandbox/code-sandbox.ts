@@ -0,0 +1,367 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { execFile, spawn } from 'node:child_process';
+import {
+  chown,
+  mkdtemp,
+  readFile,
+  readdir,
+  realpath,
+  rm,
+  stat,
+  writeFile,
+} from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { Writable } from 'node:stream';
+import { seccompFilter } from './seccomp';
+
+export type SandboxLanguage = 'javascript' | 'python';
+
+export interface SandboxFile {
+  name: string;
+  size: number;
+  /** Text of small text files; left out for larger or binary ones. */
+  content?: string;
+}
+
+export interface SandboxResult {
+  exitCode: number | null;
+  timedOut: boolean;
+  stdout: string;
+  stderr: string;
+  /** Files the code left in its working directory. */
+  files: SandboxFile[];
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MEMORY_MB = 256;
+const DEFAULT_MAX_PROCESSES = 64;
+const DEFAULT_MAX_FILE_MB = 10;
+// `nobody`
+const DEFAULT_UID = 65534;
+const MAX_STDOUT_LENGTH = 3000;
+const MAX_STDERR_LENGTH = 1500;
+const MAX_FILES = 5;
+const MAX_FILE_CONTENT_LENGTH = 1000;
+
+const SCRIPTS: Record<SandboxLanguage, string> = {
+  javascript: 'main.js',
+  python: 'main.py',
+};
+
+// Shared libraries the interpreters load, next to the `/usr` they live in
+const SYSTEM_FILES = ['/lib', '/lib64', '/etc/ld.so.cache'];
+
+// bwrap reads the seccomp filter from this file descriptor of its own
+const SECCOMP_FD = 3;
+
+/** An interpreter and the directories it needs to start. */
+interface Runtime {
+  command: string[];
+  dirs: string[];
+}
+
+/**
+ * Runs untrusted snippets with bubblewrap (`bwrap`). Each run gets fresh
+ * user, mount, PID, network, IPC and UTS namespaces: it sees its temporary
+ * working directory, read-write, and the interpreter with its libraries,
+ * read-only, and nothing else of the host, not even the network. A seccomp
+ * filter (`seccomp.ts`) refuses the system calls that reach past that. When
+ * the API runs as root, runs drop to `CODE_UID` (`nobody` by default) first.
+ * `prlimit` caps memory at `CODE_MEMORY_MB`, processes at
+ * `CODE_MAX_PROCESSES` and the files written at `CODE_MAX_FILE_MB`, and runs
+ * are killed after `CODE_TIMEOUT_MS`.
+ *
+ * Each language is checked by running it once at startup. Without `bwrap`
+ * (with unprivileged user namespaces), `prlimit` and `setpriv`, on an
+ * architecture without a seccomp filter, or with `CODE_EXECUTION=off`,
+ * nothing is available and the `run_code` tool is not offered. Python is
+ * offered when `CODE_PYTHON` (`python3` by default) runs in the sandbox.
+ */
+@Injectable()
+export class CodeSandbox implements OnModuleInit {
+  private readonly logger = new Logger(CodeSandbox.name);
+  private readonly timeoutMs: number;
+  private readonly memoryMb: number;
+  private readonly maxProcesses: number;
+  private readonly maxFileMb: number;
+  private readonly uid: number;
+  private readonly python: string;
+  private readonly seccomp = seccompFilter();
+  private runtimes: Partial<Record<SandboxLanguage, Runtime>> = {};
+
+  constructor(private readonly config: ConfigService) {
+    this.timeoutMs = Number(
+      this.config.get<string>('CODE_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS,
+    );
+    this.memoryMb = Number(
+      this.config.get<string>('CODE_MEMORY_MB') ?? DEFAULT_MEMORY_MB,
+    );
+    this.maxProcesses = Number(
+      this.config.get<string>('CODE_MAX_PROCESSES') ?? DEFAULT_MAX_PROCESSES,
+    );
+    this.maxFileMb = Number(
+      this.config.get<string>('CODE_MAX_FILE_MB') ?? DEFAULT_MAX_FILE_MB,
+    );
+    this.uid = Number(this.config.get<string>('CODE_UID') ?? DEFAULT_UID);
+    this.python = this.config.get<string>('CODE_PYTHON') || 'python3';
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (this.config.get<string>('CODE_EXECUTION') === 'off') return;
+    if (!this.seccomp) {
+      this.logger.warn(
+        `Code execution is off: no seccomp filter for ${process.arch}`,
+      );
+      return;
+    }
+
+    const node = await nodeRuntime();
+    if (!(await this.works('javascript', node))) {
+      this.logger.warn(
+        'Code execution is off: `bwrap`, `prlimit` or `setpriv` is not available, or user namespaces are not allowed',
+      );
+      return;
+    }
+    this.runtimes = { javascript: node };
+
+    const python = await pythonRuntime(this.python);
+    if (python && (await this.works('python', python))) {
+      this.runtimes.python = python;
+    } else if (python) {
+      this.logger.warn(`${this.python} does not start in the sandbox`);
+    }
+  }
+
+  /** Languages code can be run in; empty when execution is off. */
+  available(): SandboxLanguage[] {
+    return Object.keys(this.runtimes) as SandboxLanguage[];
+  }
+
+  async run(
+    language: SandboxLanguage,
+    code: string,
+    signal?: AbortSignal,
+  ): Promise<SandboxResult> {
+    const runtime = this.runtimes[language];
+    if (!runtime) {
+      throw new Error(`Cannot run ${language} code`);
+    }
+    return this.execute(language, runtime, code, signal);
+  }
+
+  /** Whether a trivial program of the language runs in the sandbox. */
+  private async works(
+    language: SandboxLanguage,
+    runtime: Runtime,
+  ): Promise<boolean> {
+    try {
+      const result = await this.execute(language, runtime, '');
+      return result.exitCode === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private async execute(
+    language: SandboxLanguage,
+    runtime: Runtime,
+    code: string,
+    signal?: AbortSignal,
+  ): Promise<SandboxResult> {
+    const dir = await mkdtemp(join(tmpdir(), 'sandbox-'));
+    try {
+      const script = SCRIPTS[language];
+      await writeFile(join(dir, script), code);
+      if (isRoot()) {
+        await chown(dir, this.uid, this.uid);
+        await chown(join(dir, script), this.uid, this.uid);
+      }
+      const result = await this.spawn(
+        this.command(language, runtime, dir),
+        dir,
+        signal,
+      );
+      return { ...result, files: await listFiles(dir, script) };
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private command(
+    language: SandboxLanguage,
+    runtime: Runtime,
+    dir: string,
+  ): string[] {
+    const bytes = this.memoryMb * 1024 * 1024;
+    // Only root can switch users; others run sandboxes as themselves
+    const user = isRoot()
+      ? [
+          'setpriv',
+          `--reuid=${this.uid}`,
+          `--regid=${this.uid}`,
+          '--clear-groups',
+          '--',
+        ]
+      : [];
+    const dirs = runtime.dirs.filter(
+      (d) => d !== '/usr' && !d.startsWith('/usr/'),
+    );
+    const mounts = [
+      ...['/usr', ...dirs].flatMap((d) => ['--ro-bind', d, d]),
+      ...SYSTEM_FILES.flatMap((f) => ['--ro-bind-try', f, f]),
+      '--bind',
+      dir,
+      dir,
+      '--proc',
+      '/proc',
+      '--dev',
+      '/dev',
+    ];
+
+    return [
+      ...user,
+      'prlimit',
+      // V8 reserves lots of address space up front, so for JavaScript the
+      // data size is capped instead of the address space
+      language === 'python' ? `--as=${bytes}` : `--data=${bytes}`,
+      `--nproc=${this.maxProcesses}`,
+      // Writes past it fail with EFBIG, or SIGXFSZ where not ignored
+      `--fsize=${this.maxFileMb * 1024 * 1024}`,
+      '--',
+      'bwrap',
+      '--unshare-all',
+      '--die-with-parent',
+      '--new-session',
+      ...mounts,
+      '--chdir',
+      dir,
+      '--seccomp',
+      String(SECCOMP_FD),
+      '--',
+      ...runtime.command,
+      ...(language === 'javascript'
+        ? [`--max-old-space-size=${this.memoryMb}`]
+        : []),
+      SCRIPTS[language],
+    ];
+  }
+
+  private spawn(
+    [command, ...args]: string[],
+    dir: string,
+    signal?: AbortSignal,
+  ): Promise<Omit<SandboxResult, 'files'>> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, args, {
+        cwd: dir,
+        env: {
+          PATH: process.env.PATH ?? '/usr/bin:/bin',
+          HOME: dir,
+          TMPDIR: dir,
+        },
+        stdio: ['ignore', 'pipe', 'pipe', 'pipe'],
+        // Own process group, so whatever it starts is killed with it
+        detached: true,
+      });
+
+      const filter = child.stdio[SECCOMP_FD] as Writable;
+      // A sandbox that fails to start reports its own error
+      filter.on('error', () => undefined);
+      filter.end(this.seccomp!);
+
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      child.stdout!.on('data', (chunk: Buffer) => {
+        stdout = (stdout + chunk.toString()).slice(0, MAX_STDOUT_LENGTH + 1);
+      });
+      child.stderr!.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(0, MAX_STDERR_LENGTH + 1);
+      });
+
+      const kill = () => {
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          // Already gone
+        }
+      };
+      const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, this.timeoutMs);
+      signal?.addEventListener('abort', kill, { once: true });
+
+      child.on('error', (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+      child.on('close', (exitCode) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', kill);
+        resolve({
+          exitCode,
+          timedOut,
+          stdout: truncate(stdout, MAX_STDOUT_LENGTH),
+          stderr: truncate(stderr, MAX_STDERR_LENGTH),
+        });
+      });
+    });
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+const isRoot = () => process.getuid?.() === 0;
+
+/** Node runs sandboxed code with the API's own binary. */
+async function nodeRuntime(): Promise<Runtime> {
+  const binary = await realpath(process.execPath);
+  return {
+    command: [binary, '--no-warnings'],
+    dirs: [dirname(dirname(binary))],
+  };
+}
+
+/** The interpreter `python` starts and its installation, if it runs. */
+function pythonRuntime(python: string): Promise<Runtime | null> {
+  const script =
+    'import sys; print(sys.executable); print(sys.prefix); print(sys.base_prefix)';
+  return new Promise((resolve) => {
+    execFile(python, ['-c', script], (err, stdout) => {
+      if (err) return resolve(null);
+      const [executable, ...prefixes] = stdout.trim().split('\n');
+      resolve({ command: [executable, '-I'], dirs: [...new Set(prefixes)] });
+    });
+  });
+}
+
+/** Files in `dir` (and below) other than the script, text ones with content. */
+async function listFiles(dir: string, script: string): Promise<SandboxFile[]> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  const files: SandboxFile[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const path = join(entry.parentPath, entry.name);
+    const name = path.slice(dir.length + 1);
+    if (name === script) continue;
+    if (files.length === MAX_FILES) break;
+
+    const { size } = await stat(path);
+    const file: SandboxFile = { name, size };
+    if (size <= MAX_FILE_CONTENT_LENGTH) {
+      const data = await readFile(path);
+      if (!data.includes(0)) {
+        file.content = data.toString('utf8');
+      }
+    }
+    files.push(file);
+  }
+
+  return files;
+}
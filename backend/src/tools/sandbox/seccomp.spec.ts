@@ -0,0 +1,20 @@
+import { seccompFilter } from './seccomp';
+
+describe('seccompFilter', () => {
+  it('builds a filter of whole BPF instructions that ends by allowing', () => {
+    for (const arch of ['x64', 'arm64'] as const) {
+      const filter = seccompFilter(arch)!;
+
+      expect(filter.length % 8).toBe(0);
+      // Checks the architecture first…
+      expect(filter.readUInt16LE(0)).toBe(0x20);
+      expect(filter.readUInt32LE(4)).toBe(4);
+      // …and lets through whatever is not refused
+      expect(filter.readUInt32LE(filter.length - 4)).toBe(0x7fff0000);
+    }
+  });
+
+  it('has no filter for architectures without a call table', () => {
+    expect(seccompFilter('ia32')).toBeNull();
+  });
+});
@@ -0,0 +1,256 @@
+// Classic BPF opcodes used below (see linux/filter.h)
+const LD_W_ABS = 0x20;
+const JEQ_K = 0x15;
+const JGE_K = 0x35;
+const JSET_K = 0x45;
+const RET_K = 0x06;
+
+const RET_KILL_PROCESS = 0x80000000;
+const RET_ERRNO = 0x00050000;
+const RET_ALLOW = 0x7fff0000;
+const EPERM = 1;
+const ENOSYS = 38;
+
+// Offsets in `struct seccomp_data`
+const NR = 0;
+const ARCH = 4;
+const ARG0 = 16;
+
+// x86-64 also accepts x32 system calls, numbered from this bit up
+const X32_SYSCALL_BIT = 0x40000000;
+
+const CLONE_NEW_NAMESPACES =
+  0x00020000 | // CLONE_NEWNS
+  0x02000000 | // CLONE_NEWCGROUP
+  0x04000000 | // CLONE_NEWUTS
+  0x08000000 | // CLONE_NEWIPC
+  0x10000000 | // CLONE_NEWUSER
+  0x20000000 | // CLONE_NEWPID
+  0x40000000; // CLONE_NEWNET
+
+/** Calls sandboxed code has no use for, mostly system administration. */
+const DENIED = [
+  'ptrace',
+  'process_vm_readv',
+  'process_vm_writev',
+  'mount',
+  'umount2',
+  'pivot_root',
+  'chroot',
+  'open_tree',
+  'move_mount',
+  'fsopen',
+  'fsconfig',
+  'fsmount',
+  'fspick',
+  'mount_setattr',
+  'unshare',
+  'setns',
+  'init_module',
+  'finit_module',
+  'delete_module',
+  'kexec_load',
+  'kexec_file_load',
+  'bpf',
+  'perf_event_open',
+  'userfaultfd',
+  'kcmp',
+  'fanotify_init',
+  'keyctl',
+  'add_key',
+  'request_key',
+  'io_uring_setup',
+  'io_uring_enter',
+  'io_uring_register',
+  'open_by_handle_at',
+  'name_to_handle_at',
+  'lookup_dcookie',
+  'swapon',
+  'swapoff',
+  'reboot',
+  'sethostname',
+  'setdomainname',
+  'iopl',
+  'ioperm',
+  'quotactl',
+  'acct',
+  'settimeofday',
+  'clock_settime',
+  'clock_adjtime',
+  'adjtimex',
+  'syslog',
+] as const;
+
+type Call = (typeof DENIED)[number] | 'clone' | 'clone3';
+
+interface Arch {
+  audit: number;
+  /** System call numbers; calls an architecture lacks are left out. */
+  calls: Partial<Record<Call, number>>;
+}
+
+const ARCHES: Partial<Record<NodeJS.Architecture, Arch>> = {
+  x64: {
+    audit: 0xc000003e,
+    calls: {
+      ptrace: 101,
+      process_vm_readv: 310,
+      process_vm_writev: 311,
+      mount: 165,
+      umount2: 166,
+      pivot_root: 155,
+      chroot: 161,
+      open_tree: 428,
+      move_mount: 429,
+      fsopen: 430,
+      fsconfig: 431,
+      fsmount: 432,
+      fspick: 433,
+      mount_setattr: 442,
+      unshare: 272,
+      setns: 308,
+      init_module: 175,
+      finit_module: 313,
+      delete_module: 176,
+      kexec_load: 246,
+      kexec_file_load: 320,
+      bpf: 321,
+      perf_event_open: 298,
+      userfaultfd: 323,
+      kcmp: 312,
+      fanotify_init: 300,
+      keyctl: 250,
+      add_key: 248,
+      request_key: 249,
+      io_uring_setup: 425,
+      io_uring_enter: 426,
+      io_uring_register: 427,
+      open_by_handle_at: 304,
+      name_to_handle_at: 303,
+      lookup_dcookie: 212,
+      swapon: 167,
+      swapoff: 168,
+      reboot: 169,
+      sethostname: 170,
+      setdomainname: 171,
+      iopl: 172,
+      ioperm: 173,
+      quotactl: 179,
+      acct: 163,
+      settimeofday: 164,
+      clock_settime: 227,
+      clock_adjtime: 305,
+      adjtimex: 159,
+      syslog: 103,
+      clone: 56,
+      clone3: 435,
+    },
+  },
+  arm64: {
+    audit: 0xc00000b7,
+    calls: {
+      ptrace: 117,
+      process_vm_readv: 270,
+      process_vm_writev: 271,
+      mount: 40,
+      umount2: 39,
+      pivot_root: 41,
+      chroot: 51,
+      open_tree: 428,
+      move_mount: 429,
+      fsopen: 430,
+      fsconfig: 431,
+      fsmount: 432,
+      fspick: 433,
+      mount_setattr: 442,
+      unshare: 97,
+      setns: 268,
+      init_module: 105,
+      finit_module: 273,
+      delete_module: 106,
+      kexec_load: 104,
+      kexec_file_load: 294,
+      bpf: 280,
+      perf_event_open: 241,
+      userfaultfd: 282,
+      kcmp: 272,
+      fanotify_init: 262,
+      keyctl: 219,
+      add_key: 217,
+      request_key: 218,
+      io_uring_setup: 425,
+      io_uring_enter: 426,
+      io_uring_register: 427,
+      open_by_handle_at: 265,
+      name_to_handle_at: 264,
+      lookup_dcookie: 18,
+      swapon: 224,
+      swapoff: 225,
+      reboot: 142,
+      sethostname: 161,
+      setdomainname: 162,
+      quotactl: 60,
+      acct: 89,
+      settimeofday: 170,
+      clock_settime: 112,
+      clock_adjtime: 266,
+      adjtimex: 171,
+      syslog: 116,
+      clone: 220,
+      clone3: 435,
+    },
+  },
+};
+
+const instruction = (code: number, k: number, jt = 0, jf = 0) => {
+  const data = Buffer.alloc(8);
+  data.writeUInt16LE(code, 0);
+  data.writeUInt8(jt, 2);
+  data.writeUInt8(jf, 3);
+  data.writeUInt32LE(k >>> 0, 4);
+  return data;
+};
+
+/**
+ * A seccomp filter for sandboxed code, as the raw `sock_filter` array that
+ * `bwrap --seccomp` reads. It refuses the calls that reach past the sandbox:
+ * debugging other processes, mounting, new namespaces, kernel modules and
+ * the like. `clone3` fails with ENOSYS, since its flags cannot be inspected,
+ * and C libraries then fall back to `clone`. Returns null on architectures
+ * without a call table here.
+ */
+export function seccompFilter(
+  arch: NodeJS.Architecture = process.arch,
+): Buffer | null {
+  const table = ARCHES[arch];
+  if (!table) return null;
+  const { calls } = table;
+
+  const deny = (errno: number) => instruction(RET_K, RET_ERRNO | errno);
+  const program = [
+    instruction(LD_W_ABS, ARCH),
+    instruction(JEQ_K, table.audit, 1, 0),
+    instruction(RET_K, RET_KILL_PROCESS),
+    instruction(LD_W_ABS, NR),
+  ];
+  if (arch === 'x64') {
+    program.push(instruction(JGE_K, X32_SYSCALL_BIT, 0, 1), deny(EPERM));
+  }
+  for (const call of DENIED) {
+    const nr = calls[call];
+    if (nr !== undefined) {
+      program.push(instruction(JEQ_K, nr, 0, 1), deny(EPERM));
+    }
+  }
+  program.push(
+    instruction(JEQ_K, calls.clone3!, 0, 1),
+    deny(ENOSYS),
+    // Threads and processes may be started, namespaces may not
+    instruction(JEQ_K, calls.clone!, 0, 3),
+    instruction(LD_W_ABS, ARG0),
+    instruction(JSET_K, CLONE_NEW_NAMESPACES, 0, 1),
+    deny(EPERM),
+    instruction(RET_K, RET_ALLOW),
+  );
+  return Buffer.concat(program);
+}
@@ -0,0 +1,76 @@
+import { ToolRegistry } from './tool-registry';
+import { ChatSearchTool } from './builtin/chat-search.tool';
+import { RunCodeTool } from './builtin/run-code.tool';
+import { ToolError } from './tool';
+
+describe('ToolRegistry', () => {
+  const registry = new ToolRegistry(
+    {
+      name: 'search_chats',
+      availableTo: ({ userId }: { userId?: string }) => userId !== undefined,
+    } as unknown as ChatSearchTool,
+    {
+      name: 'run_code',
+      availableTo: () => false,
+    } as unknown as RunCodeTool,
+  );
+  registry.register({
+    name: 'echo',
+    description: 'Echo the text',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string' },
+        times: { type: 'integer', minimum: 1 },
+      },
+      required: ['text'],
+    },
+    run: ({ text }) => {
+      if (text === 'fail') throw new ToolError('Asked to fail');
+      if (text === 'crash') throw new Error('secret details');
+      return Promise.resolve(text as string);
+    },
+  });
+
+  const run = (name: string, args: string, userId?: string) =>
+    registry.run({ id: 'call_1', name, arguments: args }, { userId });
+
+  it('offers the tools available to the caller', () => {
+    const names = (userId?: string) =>
+      registry.definitions({ userId }).map((t) => t.name);
+
+    expect(names()).toEqual(['calculator', 'current_datetime', 'echo']);
+    expect(names('user-1')).toContain('search_chats');
+  });
+
+  it('runs a call with valid arguments', async () => {
+    await expect(run('echo', '{"text":"hi","times":2}')).resolves.toEqual({
+      content: 'hi',
+      error: false,
+    });
+  });
+
+  it('turns problems into error results', async () => {
+    const error = async (name: string, args: string) =>
+      (await run(name, args)).content;
+
+    expect(await error('nope', '{}')).toBe('Error: Unknown tool "nope"');
+    expect(await error('search_chats', '{}')).toBe(
+      'Error: Unknown tool "search_chats"',
+    );
+    expect(await error('echo', '{text:')).toBe(
+      'Error: The arguments are not valid JSON',
+    );
+    expect(await error('echo', '{}')).toBe('Error: arguments.text is required');
+    expect(await error('echo', '{"text":"a","times":0}')).toBe(
+      'Error: arguments.times must be at least 1',
+    );
+    expect(await error('echo', '{"text":"a","loud":true}')).toBe(
+      'Error: arguments.loud is not a known argument',
+    );
+    expect(await error('echo', '{"text":"fail"}')).toBe('Error: Asked to fail');
+    expect(await error('echo', '{"text":"crash"}')).toBe(
+      'Error: The tool failed',
+    );
+  });
+});
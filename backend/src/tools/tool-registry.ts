@@ -0,0 +1,103 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LlmToolCall, LlmToolDefinition } from '../llm/llm-provider';
+import { validateArguments } from './json-schema';
+import { Tool, ToolContext, ToolError } from './tool';
+import { calculatorTool } from './builtin/calculator.tool';
+import { dateTimeTool } from './builtin/date-time.tool';
+import { ChatSearchTool } from './builtin/chat-search.tool';
+import { RunCodeTool } from './builtin/run-code.tool';
+
+// Results beyond this are cut so one call cannot fill the context window
+const MAX_RESULT_LENGTH = 8000;
+
+export interface ToolResult {
+  /** What the model reads: the tool's output, or what went wrong. */
+  content: string;
+  error: boolean;
+}
+
+/**
+ * Tools the model may call while answering: the calculator, the current date
+ * and time, and for signed-in users a search over their chats and a code
+ * sandbox.
+ */
+@Injectable()
+export class ToolRegistry {
+  private readonly logger = new Logger(ToolRegistry.name);
+  private readonly tools = new Map<string, Tool>();
+
+  constructor(chatSearch: ChatSearchTool, runCode: RunCodeTool) {
+    [calculatorTool, dateTimeTool, chatSearch, runCode].forEach((tool) =>
+      this.register(tool),
+    );
+  }
+
+  /**
+   * Register (or replace) a tool under its name.
+   */
+  register(tool: Tool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Definitions of the tools offered in this context, as sent to the model.
+   */
+  definitions(context: ToolContext): LlmToolDefinition[] {
+    return [...this.tools.values()]
+      .filter((tool) => isAvailable(tool, context))
+      .map(({ name, description, parameters }) => ({
+        name,
+        description,
+        parameters: { ...parameters },
+      }));
+  }
+
+  /**
+   * Run a call the model made. Never rejects: unknown tools, bad arguments
+   * and failures become an error result the model can react to.
+   */
+  async run(call: LlmToolCall, context: ToolContext): Promise<ToolResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool || !isAvailable(tool, context)) {
+      return failure(`Unknown tool "${call.name}"`);
+    }
+
+    let args: unknown;
+    try {
+      args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    } catch {
+      return failure('The arguments are not valid JSON');
+    }
+    const problem = validateArguments(tool.parameters, args);
+    if (problem) {
+      return failure(problem);
+    }
+
+    try {
+      const content = await tool.run(args as Record<string, unknown>, context);
+      return {
+        content:
+          content.length > MAX_RESULT_LENGTH
+            ? `${content.slice(0, MAX_RESULT_LENGTH)}…`
+            : content,
+        error: false,
+      };
+    } catch (err) {
+      if (err instanceof ToolError) {
+        return failure(err.message);
+      }
+      this.logger.warn(
+        `Tool ${call.name} failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return failure('The tool failed');
+    }
+  }
+}
+
+function isAvailable(tool: Tool, context: ToolContext): boolean {
+  return tool.availableTo?.(context) ?? true;
+}
+
+function failure(message: string): ToolResult {
+  return { content: `Error: ${message}`, error: true };
+}
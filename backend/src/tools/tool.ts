@@ -0,0 +1,47 @@
+/**
+ * The subset of JSON Schema used to describe tool arguments. It is sent to the
+ * model as is and checked by `validateArguments` before a tool runs.
+ */
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ToolContext {
+  /** User the tool acts for; guests have none. */
+  userId?: string;
+  /** Saved chat the call is made from. */
+  chatId?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * A server-side function the model may call while answering. `run` gets
+ * arguments already checked against `parameters` and returns the text the
+ * model reads.
+ */
+export interface Tool {
+  name: string;
+  description: string;
+  parameters: JsonSchema & { type: 'object' };
+  /** Whether the tool is offered in this context; always when omitted. */
+  availableTo?(context: ToolContext): boolean;
+  run(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
+/**
+ * A failure the model should hear about, e.g. an expression that does not
+ * parse. Its message is sent back as the tool result; other errors are not.
+ */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
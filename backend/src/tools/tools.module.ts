@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { ToolRegistry } from './tool-registry';
+import { ChatSearchTool } from './builtin/chat-search.tool';
+import { RunCodeTool } from './builtin/run-code.tool';
+import { CodeSandbox } from './sandbox/code-sandbox';
+
+@Module({
+  imports: [ConfigModule, SupabaseModule],
+  providers: [ToolRegistry, ChatSearchTool, RunCodeTool, CodeSandbox],
+  exports: [ToolRegistry],
+})
+export class ToolsModule {}
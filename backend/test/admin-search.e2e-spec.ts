@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+
+const admin = '33333333-3333-4333-8333-333333333333';
+const alice = '11111111-1111-4111-8111-111111111111';
+const bob = '22222222-2222-4222-8222-222222222222';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Substring stand-in for the `admin_search_messages` SQL function: same
+ * arguments and row shape, newest messages first.
+ */
+const adminSearchMessages = (db: InMemorySupabase) => (args: Row) => {
+  const query = (args.p_query as string | null)?.toLowerCase() ?? null;
+  const email = (args.p_email as string | null)?.toLowerCase() ?? null;
+
+  const hits = db
+    .rows('messages')
+    .map((m) => {
+      const chat = db.rows('chats').find((c) => c.id === m.chat_id)!;
+      const profile = db.rows('profile').find((p) => p.id === chat.user_id);
+      return { m, chat, email: (profile?.email as string | undefined) ?? null };
+    })
+    .filter(
+      ({ m, email: userEmail }) =>
+        (!query || String(m.content).toLowerCase().includes(query)) &&
+        (!email || userEmail?.toLowerCase().includes(email)) &&
+        (!args.p_model || m.model === args.p_model) &&
+        (!args.p_role || m.role === args.p_role),
+    )
+    .reverse();
+
+  const offset = args.p_offset as number;
+  const page = hits.slice(offset, offset + (args.p_limit as number));
+  const rows = page.map(({ m, chat, email: userEmail }) => ({
+    total: hits.length,
+    message_id: m.id,
+    chat_id: chat.id,
+    chat_title: chat.title,
+    user_id: chat.user_id,
+    user_email: userEmail,
+    role: m.role,
+    model: m.model,
+    snippet: String(m.content),
+    created_at: m.created_at,
+  }));
+  return rows.length ? rows : [{ total: hits.length, message_id: null }];
+};
+
+describe('Admin search (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+
+  const say = (userId: string, content: string) =>
+    request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(userId))
+      .send({ messages: [{ role: 'user', content }] })
+      .expect(201);
+
+  const search = (query: Record<string, string | string[]>, userId = admin) =>
+    request(app.getHttpServer())
+      .get('/admin/search')
+      .query(query)
+      .set('Authorization', bearer(userId));
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    db.functions.admin_search_messages = adminSearchMessages(db);
+    db.rows('profile').push(
+      { id: admin, email: 'admin@safar.dev', role: 'admin' },
+      { id: alice, email: 'alice@example.com', role: 'user' },
+      { id: bob, email: 'bob@example.com', role: 'user' },
+    );
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("filters everyone's messages and pages through them", async () => {
+    await say(alice, 'Trains to Samarkand');
+    await say(bob, 'Samarkand in winter');
+    await say(bob, 'Plov recipes');
+
+    const res = await search({
+      q: 'samarkand',
+      role: 'user',
+      pageSize: '1',
+    }).expect(200);
+    const body = res.body as {
+      results: Array<{
+        userEmail: string;
+        role: string;
+        snippet: { text: string };
+      }>;
+      total: number;
+      page: number;
+    };
+    expect(body.total).toBe(2);
+    expect(body.page).toBe(1);
+    expect(body.results).toHaveLength(1);
+    expect(body.results[0]).toMatchObject({
+      userEmail: 'bob@example.com',
+      role: 'user',
+      snippet: { text: 'Samarkand in winter' },
+    });
+
+    const byEmail = await search({
+      q: 'samarkand',
+      email: 'ALICE',
+      role: 'user',
+    }).expect(200);
+    expect((byEmail.body as { total: number }).total).toBe(1);
+
+    const pastEnd = await search({
+      q: 'samarkand',
+      role: 'user',
+      page: '3',
+      pageSize: '1',
+    }).expect(200);
+    expect(pastEnd.body).toMatchObject({ results: [], total: 2 });
+  });
+
+  it('rejects invalid filters', async () => {
+    await search({ role: 'robot' }).expect(400);
+    await search({ from: 'yesterday' }).expect(400);
+    await search({ page: '0' }).expect(400);
+    // ?q=a&q=b
+    await search({ q: ['samarkand', 'bukhara'] })
+      .expect(400)
+      .expect((res) =>
+        expect((res.body as { message: string }).message).toBe(
+          'q must be given once',
+        ),
+      );
+  });
+
+  it('is admin only', () => {
+    return search({ q: 'samarkand' }, alice).expect(403);
+  });
+});
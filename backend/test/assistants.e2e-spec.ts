@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { LlmService } from './../src/llm/llm.service';
+import { LlmRequest } from './../src/llm/llm-provider';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const bob = '22222222-2222-4222-8222-222222222222';
+const admin = '33333333-3333-4333-8333-333333333333';
+
+const reviewer = {
+  name: 'Code reviewer',
+  systemPrompt: 'You review TypeScript code and point out bugs.',
+  model: 'o3',
+  temperature: 0.2,
+  starters: ['Review this function', '  '],
+};
+
+describe('Assistants (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+  let stream: jest.SpyInstance<unknown, [LlmRequest]>;
+
+  const create = (userId: string, body: Record<string, unknown>) =>
+    request(app.getHttpServer())
+      .post('/assistants')
+      .set('Authorization', bearer(userId))
+      .send(body);
+
+  const send = (userId: string, body: Record<string, unknown>) =>
+    request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(userId))
+      .send({ messages: [{ role: 'user', content: 'Hello' }], ...body });
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    db.rows('profile').push(
+      { id: alice, email: 'alice@example.com', role: 'user' },
+      { id: bob, email: 'bob@example.com', role: 'user' },
+      { id: admin, email: 'admin@example.com', role: 'admin' },
+    );
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    stream = jest.spyOn(app.get(LlmService), 'stream');
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('applies the assistant to every turn of chats started from it', async () => {
+    const created = await create(alice, reviewer).expect(201);
+    const assistant = (created.body as { assistant: { id: string } }).assistant;
+    expect(created.body).toMatchObject({
+      assistant: { name: 'Code reviewer', starters: ['Review this function'] },
+    });
+
+    await send(alice, { assistantId: assistant.id }).expect(201);
+    const chat = db.rows('chats')[0];
+    expect(chat.assistant_id).toBe(assistant.id);
+
+    await send(alice, { chatId: chat.id }).expect(201);
+
+    for (const [req] of stream.mock.calls) {
+      expect(req).toMatchObject({ model: 'o3' });
+      expect(req.messages[0]).toEqual({
+        role: 'system',
+        content: reviewer.systemPrompt,
+      });
+    }
+    expect(stream).toHaveBeenCalledTimes(2);
+
+    const chats = await request(app.getHttpServer())
+      .get('/chat')
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    expect(chats.body).toMatchObject({
+      chats: [{ assistant_id: assistant.id }],
+    });
+  });
+
+  it('keeps assistants private unless an admin shares them', async () => {
+    const own = await create(alice, reviewer).expect(201);
+    const ownId = (own.body as { assistant: { id: string } }).assistant.id;
+
+    await create(alice, { ...reviewer, shared: true }).expect(403);
+    await send(bob, { assistantId: ownId }).expect(404);
+
+    const shared = await create(admin, {
+      name: 'Translator',
+      systemPrompt: 'Translate everything to French.',
+      shared: true,
+    }).expect(201);
+    const sharedId = (shared.body as { assistant: { id: string } }).assistant
+      .id;
+
+    const list = await request(app.getHttpServer())
+      .get('/assistants')
+      .set('Authorization', bearer(bob))
+      .expect(200);
+    expect(list.body).toEqual({
+      assistants: [expect.objectContaining({ id: sharedId, editable: false })],
+      canPublish: false,
+    });
+
+    await request(app.getHttpServer())
+      .patch(`/assistants/${sharedId}`)
+      .set('Authorization', bearer(bob))
+      .send({ name: 'Mine now' })
+      .expect(403);
+    await send(bob, { assistantId: sharedId }).expect(201);
+  });
+
+  it('validates assistants and lets chats outlive them', async () => {
+    await create(alice, { name: '' }).expect(400);
+    await create(alice, { ...reviewer, model: 'nope' }).expect(400);
+    await create(alice, { ...reviewer, temperature: 3 }).expect(400);
+
+    const created = await create(alice, reviewer).expect(201);
+    const { id } = (created.body as { assistant: { id: string } }).assistant;
+    await send(alice, { assistantId: id }).expect(201);
+
+    await request(app.getHttpServer())
+      .delete(`/assistants/${id}`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    // The database sets the chat's assistant to null on delete
+    db.rows('chats')[0].assistant_id = null;
+
+    await send(alice, { chatId: db.rows('chats')[0].id }).expect(201);
+    expect(stream.mock.lastCall![0].messages[0].role).toBe('user');
+  });
+});
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const mallory = '22222222-2222-4222-8222-222222222222';
+
+// PNG signature; the backend never decodes images
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('Attachments (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+
+  const createApp = async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    const nestApp =
+      moduleFixture.createNestApplication<INestApplication<App>>();
+    await nestApp.init();
+    return nestApp;
+  };
+
+  const upload = (userId: string, name: string, contents: string | Buffer) =>
+    request(app.getHttpServer())
+      .post('/chat/attachments')
+      .set('Authorization', bearer(userId))
+      .attach('file', Buffer.from(contents), name);
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    app = await createApp();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('sends extracted text to the model and lists it with the message', async () => {
+    const uploaded = await upload(
+      alice,
+      'plan.md',
+      '# Day 1\nVisit Bukhara',
+    ).expect(201);
+    const { attachment } = uploaded.body as {
+      attachment: { id: string; name: string };
+    };
+    expect(attachment).toMatchObject({ name: 'plan.md', size: 21 });
+
+    const res = await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(alice))
+      .send({
+        messages: [{ role: 'user', content: 'summarize' }],
+        attachmentIds: [attachment.id],
+      })
+      .expect(201);
+    expect((res.body as { answer: string }).answer).toContain('Visit Bukhara');
+
+    const chatId = db.rows('chats')[0].id as string;
+    const listed = await request(app.getHttpServer())
+      .get(`/chat/${chatId}/messages`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    const [userMessage] = (
+      listed.body as {
+        messages: Array<{ content: string; attachments: unknown[] }>;
+      }
+    ).messages;
+    expect(userMessage.content).toBe('summarize');
+    expect(userMessage.attachments).toEqual([
+      {
+        id: attachment.id,
+        name: 'plan.md',
+        mime_type: 'text/markdown',
+        size: 21,
+      },
+    ]);
+
+    const file = await request(app.getHttpServer())
+      .get(`/chat/attachments/${attachment.id}`)
+      .set('Authorization', bearer(alice))
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => callback(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+    expect((file.body as Buffer).toString()).toBe('# Day 1\nVisit Bukhara');
+  });
+
+  it('passes images to vision models', async () => {
+    const uploaded = await upload(alice, 'screenshot.png', png).expect(201);
+    const { attachment } = uploaded.body as {
+      attachment: { id: string; mime_type: string };
+    };
+    expect(attachment.mime_type).toBe('image/png');
+
+    const res = await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(alice))
+      .send({
+        messages: [{ role: 'user', content: 'what is this?' }],
+        attachmentIds: [attachment.id],
+      })
+      .expect(201);
+    expect((res.body as { answer: string }).answer).toBe(
+      '[gpt-4o] You said: what is this?\n[image]',
+    );
+  });
+
+  it('refuses images for models without vision', async () => {
+    await app.close();
+    process.env.LLM_MODELS = JSON.stringify([
+      {
+        id: 'text-only',
+        displayName: 'Text only',
+        provider: 'mock',
+        contextWindow: 8192,
+        capabilities: { streaming: true, vision: false, tools: false },
+        roles: ['user'],
+      },
+    ]);
+    try {
+      app = await createApp();
+    } finally {
+      delete process.env.LLM_MODELS;
+    }
+
+    const uploaded = await upload(alice, 'screenshot.png', png).expect(201);
+    const { id } = (uploaded.body as { attachment: { id: string } }).attachment;
+
+    await request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({
+        messages: [{ role: 'user', content: 'what is this?' }],
+        model: 'text-only',
+        attachmentIds: [id],
+      })
+      .expect(400);
+    expect(db.rows('messages')).toHaveLength(0);
+  });
+
+  it('rejects unsupported files', () => {
+    return upload(alice, 'setup.exe', 'MZ').expect(415);
+  });
+
+  it('keeps attachments private to their owner', async () => {
+    const uploaded = await upload(alice, 'secret.txt', 'top secret').expect(
+      201,
+    );
+    const { id } = (uploaded.body as { attachment: { id: string } }).attachment;
+
+    await request(app.getHttpServer())
+      .get(`/chat/attachments/${id}`)
+      .set('Authorization', bearer(mallory))
+      .expect(404);
+    await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(mallory))
+      .send({
+        messages: [{ role: 'user', content: 'read it' }],
+        attachmentIds: [id],
+      })
+      .expect(400);
+  });
+
+  it('requires sign-in to upload', () => {
+    return request(app.getHttpServer())
+      .post('/chat/attachments')
+      .attach('file', Buffer.from('hi'), 'hi.txt')
+      .expect(403);
+  });
+});
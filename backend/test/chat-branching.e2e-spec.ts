@@ -0,0 +1,164 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const mallory = '22222222-2222-4222-8222-222222222222';
+
+interface MessageRow {
+  id: number;
+  parent_id: number | null;
+  role: string;
+  content: string;
+}
+
+describe('Chat branching (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+  let chatId: string;
+
+  const messages = () => db.rows('messages') as unknown as MessageRow[];
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content: 'hello' }] })
+      .expect(201);
+    chatId = db.rows('chats')[0].id as string;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('chains new turns to the latest message', async () => {
+    await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(alice))
+      .send({ chatId, messages: [{ role: 'user', content: 'again' }] })
+      .expect(201);
+
+    const [user, answer, next, nextAnswer] = messages();
+    expect(user.parent_id).toBeNull();
+    expect(answer.parent_id).toBe(user.id);
+    expect(next.parent_id).toBe(answer.id);
+    expect(nextAnswer.parent_id).toBe(next.id);
+  });
+
+  it('stores a regenerated answer as a sibling', async () => {
+    const [user, answer] = messages();
+
+    const res = await request(app.getHttpServer())
+      .post(`/chat/${chatId}/messages/${answer.id}/regenerate`)
+      .set('Authorization', bearer(alice))
+      .send({})
+      .expect(201);
+
+    expect(res.text).toContain('event: done');
+    const rows = messages();
+    expect(rows).toHaveLength(3);
+    expect(rows[2]).toMatchObject({
+      role: 'assistant',
+      parent_id: user.id,
+      content: '[gpt-4o] You said: hello',
+    });
+  });
+
+  it('stores an edited user message as a new branch', async () => {
+    const [user, answer] = messages();
+
+    const res = await request(app.getHttpServer())
+      .post(`/chat/${chatId}/messages/${user.id}/edit`)
+      .set('Authorization', bearer(alice))
+      .send({ content: 'hello there' })
+      .expect(201);
+
+    expect(res.text).toContain('event: done');
+    const rows = messages();
+    expect(rows.slice(0, 2)).toEqual([user, answer]);
+    expect(rows[2]).toMatchObject({
+      role: 'user',
+      content: 'hello there',
+      parent_id: null,
+    });
+    expect(rows[3]).toMatchObject({
+      role: 'assistant',
+      parent_id: rows[2].id,
+      content: '[gpt-4o] You said: hello there',
+    });
+  });
+
+  it('rejects editing an assistant message or empty content', async () => {
+    const [user, answer] = messages();
+
+    await request(app.getHttpServer())
+      .post(`/chat/${chatId}/messages/${answer.id}/edit`)
+      .set('Authorization', bearer(alice))
+      .send({ content: 'nope' })
+      .expect(404);
+    await request(app.getHttpServer())
+      .post(`/chat/${chatId}/messages/${user.id}/edit`)
+      .set('Authorization', bearer(alice))
+      .send({ content: '  ' })
+      .expect(400);
+  });
+
+  it('continues the branch given by parentId', async () => {
+    const [user] = messages();
+
+    await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(alice))
+      .send({
+        chatId,
+        parentId: null,
+        messages: [{ role: 'user', content: 'hi instead' }],
+      })
+      .expect(201);
+
+    const rows = messages();
+    expect(rows[2]).toMatchObject({ content: 'hi instead', parent_id: null });
+    expect(rows[0].id).toBe(user.id);
+  });
+
+  it('rejects regenerating a user message or one of another chat', async () => {
+    const [user, answer] = messages();
+
+    await request(app.getHttpServer())
+      .post(`/chat/${chatId}/messages/${user.id}/regenerate`)
+      .set('Authorization', bearer(alice))
+      .send({})
+      .expect(404);
+    await request(app.getHttpServer())
+      .post(`/chat/${chatId}/messages/${answer.id}/regenerate`)
+      .set('Authorization', bearer(mallory))
+      .send({})
+      .expect(404);
+    await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(alice))
+      .send({
+        chatId,
+        parentId: 999,
+        messages: [{ role: 'user', content: 'lost' }],
+      })
+      .expect(400);
+  });
+});
@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+import { parseSse } from './support/sse';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+
+type StreamEvent = {
+  type: string;
+  chatId?: string;
+  mode?: string;
+  omitted?: number;
+  code?: string;
+};
+
+// 400 tokens: 300 for the prompt, of which 75 for the summary
+const tinyModel = {
+  id: 'tiny',
+  displayName: 'Tiny',
+  contextWindow: 400,
+  capabilities: { streaming: true, vision: false, tools: false },
+  roles: ['anonymous', 'user', 'admin'],
+};
+
+// About 66 tokens; the mock answer echoes it, so each exchange is ~137
+const turn = (n: number) => `Turn ${n}: ${'lorem ipsum '.repeat(20)}`;
+
+describe('Context window (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+
+  const send = (content: string, chatId?: string) =>
+    request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ chatId, model: 'tiny', messages: [{ role: 'user', content }] })
+      .expect(201)
+      .then((res) => parseSse<StreamEvent>(res.text));
+
+  beforeEach(async () => {
+    process.env.LLM_MODELS = JSON.stringify([tinyModel]);
+    process.env.LLM_SUMMARY_MODEL = 'summary-model';
+    db = new InMemorySupabase();
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    delete process.env.LLM_MODELS;
+    delete process.env.LLM_SUMMARY_MODEL;
+    await app.close();
+  });
+
+  it('rolls older turns into a stored summary once the chat outgrows the window', async () => {
+    const first = await send(turn(1));
+    const chatId = first[0].chatId!;
+    expect(first.map((e) => e.type)).not.toContain('context');
+
+    await send(turn(2), chatId);
+    const third = await send(turn(3), chatId);
+
+    const context = third.find((e) => e.type === 'context');
+    expect(context).toEqual({
+      type: 'context',
+      mode: 'summarized',
+      omitted: 2,
+    });
+    expect(third[third.length - 1].type).toBe('done');
+
+    const summarized = db.rows('messages').filter((m) => m.summary);
+    expect(summarized).toHaveLength(1);
+    expect(summarized[0].summary).toContain('[summary-model]');
+
+    const res = await request(app.getHttpServer())
+      .get(`/chat/${chatId}/messages`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    const { messages } = res.body as {
+      messages: Array<{ id: number; summarized: boolean; summary?: string }>;
+    };
+    expect(messages.filter((m) => m.summarized).map((m) => m.id)).toEqual([
+      summarized[0].id,
+    ]);
+    expect(messages[0]).not.toHaveProperty('summary');
+  });
+
+  it('drops the oldest turns when summaries are off', async () => {
+    process.env.LLM_SUMMARY_MODEL = '';
+    const first = await send(turn(1));
+    const chatId = first[0].chatId!;
+    await send(turn(2), chatId);
+    const third = await send(turn(3), chatId);
+
+    expect(third.find((e) => e.type === 'context')).toEqual({
+      type: 'context',
+      mode: 'truncated',
+      omitted: 2,
+    });
+    expect(db.rows('messages').some((m) => m.summary)).toBe(false);
+  });
+
+  it('reports a single message that does not fit at all', async () => {
+    const events = await send('lorem ipsum '.repeat(200));
+
+    expect(events[events.length - 1]).toMatchObject({
+      type: 'error',
+      code: 'context_length_exceeded',
+    });
+  });
+});
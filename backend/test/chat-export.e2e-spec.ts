@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import * as JSZip from 'jszip';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { ChatExport } from './../src/chat/chat-export';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const bob = '22222222-2222-4222-8222-222222222222';
+
+describe('Chat export (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+
+  const send = (content: string) =>
+    request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content }] })
+      .expect(201);
+
+  const download = (path: string, userId = alice) =>
+    request(app.getHttpServer())
+      .get(path)
+      .set('Authorization', bearer(userId))
+      .buffer(true)
+      .parse((response, callback) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('exports a chat with timestamps and models in each format', async () => {
+    await send('Show me a loop:\n\n```ts\nfor (;;) {}\n```');
+    const chatId = db.rows('chats')[0].id as string;
+    db.rows('chats')[0].title = 'Loops: in TypeScript';
+
+    const markdown = await download(`/chat/${chatId}/export?format=md`).expect(
+      200,
+    );
+    expect(markdown.headers['content-type']).toBe(
+      'text/markdown; charset=utf-8',
+    );
+    expect(markdown.headers['content-disposition']).toBe(
+      `attachment; filename*=UTF-8''Loops%20in%20TypeScript.md`,
+    );
+    const text = (markdown.body as Buffer).toString();
+    expect(text).toMatch(/^# Loops: in TypeScript\n/);
+    expect(text).toMatch(/### You · \d{4}-\d\d-\d\d \d\d:\d\d UTC/);
+    expect(text).toContain('```ts\nfor (;;) {}\n```');
+    expect(text).toMatch(/### Assistant · gpt-4o · /);
+
+    const json = await download(`/chat/${chatId}/export?format=json`).expect(
+      200,
+    );
+    const doc = JSON.parse((json.body as Buffer).toString()) as ChatExport;
+    expect(doc).toMatchObject({
+      format: 'safargpt.chat',
+      version: 1,
+      chat: { id: chatId },
+      messages: [
+        { role: 'user', parent_id: null, model: 'gpt-4o' },
+        { role: 'assistant', model: 'gpt-4o' },
+      ],
+    });
+
+    const html = await download(`/chat/${chatId}/export?format=html`).expect(
+      200,
+    );
+    expect((html.body as Buffer).toString()).toContain(
+      '<pre><code class="language-ts">for (;;) {}\n</code></pre>',
+    );
+
+    const pdf = await download(`/chat/${chatId}/export?format=pdf`).expect(200);
+    expect(pdf.headers['content-type']).toBe('application/pdf');
+    expect((pdf.body as Buffer).subarray(0, 5).toString()).toBe('%PDF-');
+
+    await download(`/chat/${chatId}/export?format=docx`).expect(400);
+    await download(`/chat/${chatId}/export`, bob).expect(404);
+  });
+
+  it('zips every chat of the user', async () => {
+    await send('Trains to Bukhara');
+    await send('Trains to Bukhara');
+    await request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(bob))
+      .send({ messages: [{ role: 'user', content: 'Not for Alice' }] })
+      .expect(201);
+
+    const res = await download('/chat/export?format=json').expect(200);
+    expect(res.headers['content-type']).toBe('application/zip');
+
+    const zip = await JSZip.loadAsync(res.body as Buffer);
+    const names = Object.keys(zip.files).sort();
+    expect(names).toEqual([
+      expect.stringMatching(/^\d{4}-\d\d-\d\d Trains to Bukhara \(2\)\.json$/),
+      expect.stringMatching(/^\d{4}-\d\d-\d\d Trains to Bukhara\.json$/),
+    ]);
+    const doc = JSON.parse(
+      await zip.file(names[0])!.async('string'),
+    ) as ChatExport;
+    expect(doc.messages[0].content).toBe('Trains to Bukhara');
+  });
+});
@@ -0,0 +1,226 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import * as JSZip from 'jszip';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { ImportReport } from './../src/chat/chat-import.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { importChat } from './support/import-chat';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+
+// A ChatGPT conversation with one prompt and its answer
+const conversation = (id: string, title: string) => ({
+  id,
+  title,
+  create_time: 1700000000,
+  default_model_slug: 'gpt-4',
+  mapping: {
+    root: { id: 'root', parent: null, children: ['q'], message: null },
+    q: {
+      id: 'q',
+      parent: 'root',
+      children: ['a'],
+      message: {
+        author: { role: 'user' },
+        create_time: 1700000001,
+        content: { content_type: 'text', parts: [`Tell me about ${title}`] },
+      },
+    },
+    a: {
+      id: 'a',
+      parent: 'q',
+      children: [],
+      message: {
+        author: { role: 'assistant' },
+        create_time: 1700000002,
+        content: { content_type: 'text', parts: [`${title} is lovely.`] },
+        metadata: { model_slug: 'gpt-4o' },
+      },
+    },
+  },
+});
+
+describe('Chat import (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+
+  const upload = (data: Buffer | string, name = 'conversations.json') =>
+    request(app.getHttpServer())
+      .post('/chat/import')
+      .set('Authorization', bearer(alice))
+      .attach('file', Buffer.from(data), name);
+
+  beforeEach(async () => {
+    process.env.IMPORT_MAX_UNZIPPED_BYTES = String(1024 * 1024);
+    db = new InMemorySupabase();
+    db.functions.import_chat = importChat(db);
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    delete process.env.IMPORT_MAX_UNZIPPED_BYTES;
+    await app.close();
+  });
+
+  it('imports ChatGPT conversations once, reporting each one', async () => {
+    const file = JSON.stringify([
+      conversation('c-1', 'Samarkand'),
+      { ...conversation('c-2', 'Khiva'), mapping: {} },
+    ]);
+
+    const res = await upload(file).expect(201);
+    const report = res.body as ImportReport;
+    expect(report).toMatchObject({ imported: 1, skipped: 0, failed: 1 });
+    const [imported, failed] = report.results;
+    expect(imported).toMatchObject({ title: 'Samarkand', status: 'imported' });
+    expect(failed).toEqual({
+      title: 'Khiva',
+      status: 'failed',
+      message: 'No messages to import',
+    });
+
+    expect(db.rows('chats')).toEqual([
+      expect.objectContaining({
+        id: imported.chatId,
+        user_id: alice,
+        title: 'Samarkand',
+        import_source: 'chatgpt',
+        import_id: 'c-1',
+        created_at: '2023-11-14T22:13:20.000Z',
+      }),
+    ]);
+    const messages = await request(app.getHttpServer())
+      .get(`/chat/${imported.chatId}/messages`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    const [prompt, answer] = (
+      messages.body as { messages: Array<Record<string, unknown>> }
+    ).messages;
+    expect(prompt).toMatchObject({
+      role: 'user',
+      parent_id: null,
+      content: 'Tell me about Samarkand',
+      created_at: '2023-11-14T22:13:21.000Z',
+    });
+    expect(answer).toMatchObject({
+      role: 'assistant',
+      parent_id: prompt.id,
+      model: 'gpt-4o',
+      created_at: '2023-11-14T22:13:22.000Z',
+    });
+
+    // The same export again, zipped as ChatGPT sends it
+    const zip = new JSZip();
+    zip.file('user.json', JSON.stringify({ id: 'user-1' }));
+    zip.file('conversations.json', file);
+    const again = await upload(
+      await zip.generateAsync({ type: 'nodebuffer' }),
+      'export.zip',
+    ).expect(201);
+    expect(again.body).toMatchObject({ imported: 0, skipped: 1, failed: 1 });
+    expect(db.rows('chats')).toHaveLength(1);
+  });
+
+  it('imports its own JSON exports into another account', async () => {
+    await request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content: 'Trains to Bukhara' }] })
+      .expect(201);
+    const chatId = db.rows('chats')[0].id as string;
+    const exported = await request(app.getHttpServer())
+      .get(`/chat/${chatId}/export?format=json`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    const file = JSON.stringify(exported.body);
+
+    // Alice already has this chat
+    await upload(file, 'chat.json')
+      .expect(201)
+      .expect((res) =>
+        expect(res.body).toMatchObject({ imported: 0, skipped: 1 }),
+      );
+
+    const bob = '22222222-2222-4222-8222-222222222222';
+    const res = await request(app.getHttpServer())
+      .post('/chat/import')
+      .set('Authorization', bearer(bob))
+      .attach('file', Buffer.from(file), 'chat.json')
+      .expect(201);
+    expect(res.body).toMatchObject({ imported: 1 });
+    const copy = db.rows('messages').slice(-2);
+    expect(copy).toEqual([
+      expect.objectContaining({
+        parent_id: null,
+        content: 'Trains to Bukhara',
+      }),
+      expect.objectContaining({
+        parent_id: copy[0].id,
+        role: 'assistant',
+        model: 'gpt-4o',
+        created_at: db.rows('messages')[1].created_at,
+      }),
+    ]);
+  });
+
+  it('rejects zip archives that unpack to too much', async () => {
+    // 2 MB of conversations, past the 1 MB allowed here, zipped to a few KB
+    const zip = new JSZip();
+    zip.file(
+      'conversations.json',
+      JSON.stringify([conversation('c-1', 'X'.repeat(2 * 1024 * 1024))]),
+    );
+    const data = await zip.generateAsync({
+      type: 'nodebuffer',
+      compression: 'DEFLATE',
+    });
+    // Sizes claimed in the central directory are not trusted
+    const entry = data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    data.writeUInt32LE(10, entry + 24);
+    await upload(data, 'export.zip')
+      .expect(400)
+      .expect((res) =>
+        expect((res.body as { message: string }).message).toBe(
+          'The archive unpacks to too much data to import',
+        ),
+      );
+
+    const many = new JSZip();
+    for (let i = 0; i <= 10_000; i++) many.file(`${i}.txt`, '');
+    await upload(await many.generateAsync({ type: 'nodebuffer' }), 'x.zip')
+      .expect(400)
+      .expect((res) =>
+        expect((res.body as { message: string }).message).toBe(
+          'The archive holds too many files',
+        ),
+      );
+  });
+
+  it('rejects files it does not recognise', async () => {
+    await upload('not json').expect(400);
+    await upload(JSON.stringify({ hello: 'world' }))
+      .expect(400)
+      .expect((res) =>
+        expect((res.body as { message: string }).message).toMatch(
+          /^No conversations found/,
+        ),
+      );
+    await request(app.getHttpServer())
+      .post('/chat/import')
+      .set('Authorization', bearer(alice))
+      .expect(400);
+    await request(app.getHttpServer()).post('/chat/import').expect(403);
+  });
+});
@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const mallory = '22222222-2222-4222-8222-222222222222';
+
+describe('Chat ownership (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+  let chatId: string;
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    // Alice starts a chat
+    await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content: 'my secret plan' }] })
+      .expect(201);
+    chatId = db.rows('chats')[0].id as string;
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('lets the owner read their messages', async () => {
+    const res = await request(app.getHttpServer())
+      .get(`/chat/${chatId}/messages`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+
+    const { messages } = res.body as { messages: Array<{ content: string }> };
+    expect(messages.map((m) => m.content)).toEqual([
+      'my secret plan',
+      '[gpt-4o] You said: my secret plan',
+    ]);
+  });
+
+  it("hides another user's messages", () => {
+    return request(app.getHttpServer())
+      .get(`/chat/${chatId}/messages`)
+      .set('Authorization', bearer(mallory))
+      .expect(404);
+  });
+
+  it("refuses to append to another user's chat", async () => {
+    const before = db.rows('messages').length;
+
+    await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(mallory))
+      .send({ chatId, messages: [{ role: 'user', content: 'injected' }] })
+      .expect(404);
+    await request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(mallory))
+      .send({ chatId, messages: [{ role: 'user', content: 'injected' }] })
+      .expect(404);
+
+    expect(db.rows('messages')).toHaveLength(before);
+  });
+
+  it("refuses to rename or delete another user's chat", async () => {
+    await request(app.getHttpServer())
+      .patch(`/chat/${chatId}`)
+      .set('Authorization', bearer(mallory))
+      .send({ title: 'pwned' })
+      .expect(404);
+    await request(app.getHttpServer())
+      .delete(`/chat/${chatId}`)
+      .set('Authorization', bearer(mallory))
+      .expect(404);
+
+    expect(db.rows('chats')).toEqual([
+      expect.objectContaining({ id: chatId, title: 'my secret plan' }),
+    ]);
+  });
+
+  it('does not list chats of other users', async () => {
+    const res = await request(app.getHttpServer())
+      .get('/chat')
+      .set('Authorization', bearer(mallory))
+      .expect(200);
+
+    expect(res.body).toEqual({ chats: [] });
+  });
+});
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { LlmService } from './../src/llm/llm.service';
+import { LlmRequest } from './../src/llm/llm-provider';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+
+describe('Generation parameters (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+  let stream: jest.SpyInstance<unknown, [LlmRequest]>;
+
+  const send = (body: Record<string, unknown>) =>
+    request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content: 'Hello' }], ...body });
+
+  const lastRequest = () => stream.mock.lastCall![0];
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    db.rows('profile').push({ id: alice, email: 'alice@example.com' });
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    stream = jest.spyOn(app.get(LlmService), 'stream');
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('sends the parameters and keeps them for the next turns', async () => {
+    const params = { temperature: 0.3, maxTokens: 200, stop: ['END'] };
+    await send({ model: 'gpt-4o', params }).expect(201);
+    expect(lastRequest()).toMatchObject(params);
+
+    const chatId = db.rows('chats')[0].id as string;
+    await send({ model: 'gpt-4o', chatId }).expect(201);
+    expect(lastRequest()).toMatchObject(params);
+
+    const chats = await request(app.getHttpServer())
+      .get('/chat')
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    expect(chats.body).toMatchObject({
+      chats: [{ generation_params: params }],
+    });
+
+    // A reasoning model gets the parameters it accepts
+    await send({ model: 'o3', chatId }).expect(201);
+    expect(lastRequest()).toMatchObject({ model: 'o3', maxTokens: 200 });
+    expect(lastRequest().temperature).toBeUndefined();
+    expect(lastRequest().stop).toBeUndefined();
+  });
+
+  it('checks the parameters against the model', async () => {
+    await send({ model: 'gpt-4o', params: { reasoningEffort: 'high' } })
+      .expect(400)
+      .expect(({ body }) =>
+        expect((body as { message: string }).message).toBe(
+          'GPT-4o does not support reasoningEffort',
+        ),
+      );
+    await send({ model: 'o3', params: { temperature: 1 } }).expect(400);
+    await send({ model: 'gpt-4o', params: { topP: 2 } }).expect(400);
+    expect(stream).not.toHaveBeenCalled();
+
+    await send({ model: 'o3', params: { reasoningEffort: 'high' } }).expect(
+      201,
+    );
+    expect(lastRequest()).toMatchObject({ reasoningEffort: 'high' });
+  });
+
+  it("uses the assistant's temperature unless the chat sets one", async () => {
+    const created = await request(app.getHttpServer())
+      .post('/assistants')
+      .set('Authorization', bearer(alice))
+      .send({ name: 'Poet', temperature: 1.2 })
+      .expect(201);
+    const { id } = (created.body as { assistant: { id: string } }).assistant;
+
+    await send({ model: 'gpt-4o', assistantId: id }).expect(201);
+    expect(lastRequest().temperature).toBe(1.2);
+
+    const chatId = db.rows('chats')[0].id as string;
+    await send({ model: 'gpt-4o', chatId, params: { temperature: 0 } }).expect(
+      201,
+    );
+    expect(lastRequest().temperature).toBe(0);
+  });
+
+  it('asks for JSON in JSON mode', async () => {
+    await send({ model: 'gpt-4o', params: { jsonMode: true } }).expect(201);
+
+    expect(lastRequest().jsonMode).toBe(true);
+    expect(lastRequest().messages[0]).toEqual({
+      role: 'system',
+      content: 'Reply with a single valid JSON object.',
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { searchChats } from './support/search-chats';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const mallory = '22222222-2222-4222-8222-222222222222';
+
+describe('Chat search (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+
+  const say = (userId: string, content: string) =>
+    request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(userId))
+      .send({ messages: [{ role: 'user', content }] })
+      .expect(201);
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    db.functions.search_chats = searchChats(db);
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("groups matches by chat and only searches the caller's chats", async () => {
+    await say(alice, 'Trains to Samarkand');
+    await say(alice, 'Best plov in Tashkent');
+    await say(mallory, 'Samarkand for mallory');
+
+    const res = await request(app.getHttpServer())
+      .get('/chat/search')
+      .query({ q: 'samarkand' })
+      .set('Authorization', bearer(alice))
+      .expect(200);
+
+    const { results } = res.body as {
+      results: Array<{
+        title: string;
+        matches: Array<{
+          messageId: number | null;
+          snippet: { text: string; highlights: number[][] };
+        }>;
+      }>;
+    };
+    expect(results).toHaveLength(1);
+    expect(results[0].title).toBe('Trains to Samarkand');
+    // The title, the user message and the echoed answer all match
+    expect(results[0].matches).toHaveLength(3);
+    expect(results[0].matches[0]).toMatchObject({
+      messageId: null,
+      snippet: { text: 'Trains to Samarkand', highlights: [[10, 19]] },
+    });
+    expect(results[0].matches[1].messageId).toEqual(expect.any(Number));
+  });
+
+  it('requires a query', () => {
+    return request(app.getHttpServer())
+      .get('/chat/search')
+      .query({ q: '  ' })
+      .set('Authorization', bearer(alice))
+      .expect(400);
+  });
+});
@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { ChatShare, SharedChat } from './../src/chat/chat-share.service';
+import { ChatSummary } from './../src/chat/chat.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { importChat } from './support/import-chat';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const bob = '22222222-2222-4222-8222-222222222222';
+
+describe('Chat sharing (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+
+  const send = (content: string, chatId?: string) =>
+    request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content }], chatId })
+      .expect(201);
+
+  const share = async (chatId: string) => {
+    const res = await request(app.getHttpServer())
+      .post(`/chat/${chatId}/share`)
+      .set('Authorization', bearer(alice))
+      .expect(201);
+    return (res.body as { share: ChatShare }).share;
+  };
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    db.functions.import_chat = importChat(db);
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('shares a frozen snapshot with anyone who has the link', async () => {
+    await send('Trains to Bukhara');
+    const chatId = db.rows('chats')[0].id as string;
+
+    const link = await share(chatId);
+    expect(link).toMatchObject({ chat_id: chatId, title: 'Trains to Bukhara' });
+    expect(link.token).toMatch(/^[\w-]{32}$/);
+
+    await send('And to Khiva?', chatId);
+
+    const res = await request(app.getHttpServer())
+      .get(`/share/${link.token}`)
+      .expect(200);
+    const shared = (res.body as { share: SharedChat }).share;
+    expect(shared.title).toBe('Trains to Bukhara');
+    expect(shared.messages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Trains to Bukhara'],
+      ['assistant', '[gpt-4o] You said: Trains to Bukhara'],
+    ]);
+    expect(shared).not.toHaveProperty('chat');
+
+    await request(app.getHttpServer()).get('/share/made-up-token').expect(404);
+    await request(app.getHttpServer())
+      .post(`/chat/${chatId}/share`)
+      .set('Authorization', bearer(bob))
+      .expect(404);
+  });
+
+  it('publishes tool calls and cited sources without their content', async () => {
+    await send('call calculator {"expression":"6*7"}');
+    const answer = db.rows('messages').find((m) => m.role === 'assistant')!;
+    answer.sources = [
+      {
+        index: 1,
+        documentId: 'doc-1',
+        documentName: 'Diary.md',
+        position: 2,
+        content: 'Private notes',
+      },
+    ];
+    const link = await share(db.rows('chats')[0].id as string);
+
+    const res = await request(app.getHttpServer())
+      .get(`/share/${link.token}`)
+      .expect(200);
+    const [, call, shared] = (res.body as { share: SharedChat }).share.messages;
+    expect(call).toMatchObject({
+      role: 'tool',
+      content: '',
+      tool_call: { name: 'calculator', arguments: '{"expression":"6*7"}' },
+    });
+    expect(shared.sources).toEqual([
+      {
+        index: 1,
+        documentId: '',
+        documentName: 'Diary.md',
+        position: 2,
+        content: '',
+      },
+    ]);
+  });
+
+  it('lets viewers continue the chat in their own account', async () => {
+    await send('Trains to Bukhara');
+    const link = await share(db.rows('chats')[0].id as string);
+
+    await request(app.getHttpServer())
+      .post(`/share/${link.token}/continue`)
+      .expect(403);
+    const res = await request(app.getHttpServer())
+      .post(`/share/${link.token}/continue`)
+      .set('Authorization', bearer(bob))
+      .expect(201);
+    const chat = (res.body as { chat: ChatSummary }).chat;
+    expect(chat.title).toBe('Trains to Bukhara');
+    expect(db.rows('chats')[1]).toMatchObject({
+      id: chat.id,
+      user_id: bob,
+      import_source: null,
+    });
+
+    const messages = await request(app.getHttpServer())
+      .get(`/chat/${chat.id}/messages`)
+      .set('Authorization', bearer(bob))
+      .expect(200);
+    const [prompt, answer] = (
+      messages.body as { messages: Array<Record<string, unknown>> }
+    ).messages;
+    expect(prompt).toMatchObject({ parent_id: null, role: 'user' });
+    expect(answer).toMatchObject({ parent_id: prompt.id, model: 'gpt-4o' });
+  });
+
+  it('lets owners list and revoke their links', async () => {
+    await send('Trains to Bukhara');
+    const link = await share(db.rows('chats')[0].id as string);
+
+    const listed = await request(app.getHttpServer())
+      .get('/chat/shares')
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    expect((listed.body as { shares: ChatShare[] }).shares).toEqual([link]);
+    await request(app.getHttpServer())
+      .get('/chat/shares')
+      .set('Authorization', bearer(bob))
+      .expect(200)
+      .expect({ shares: [] });
+
+    await request(app.getHttpServer())
+      .delete(`/chat/shares/${link.id}`)
+      .set('Authorization', bearer(bob))
+      .expect(404);
+    await request(app.getHttpServer())
+      .delete(`/chat/shares/${link.id}`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    await request(app.getHttpServer()).get(`/share/${link.token}`).expect(404);
+  });
+});
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { ChatTitleService } from './../src/chat/chat-title.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+import { parseSse } from './support/sse';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+
+type StreamEvent = { type: string; chatId?: string; title?: string };
+
+describe('Chat titles (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+
+  beforeEach(async () => {
+    // The mock provider echoes the prompt, so titles are predictable
+    process.env.LLM_TITLE_MODEL = 'title-model';
+    db = new InMemorySupabase();
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    process.env.LLM_TITLE_MODEL = '';
+    await app.close();
+  });
+
+  it('names a new chat and streams the title before done', async () => {
+    const res = await request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content: 'Trains to Samarkand' }] })
+      .expect(201);
+
+    const events = parseSse<StreamEvent>(res.text);
+    const chatId = events[0].chatId;
+    expect(events.slice(-2)).toEqual([
+      {
+        type: 'title',
+        chatId,
+        title: '[title-model] You said: Trains to Samarkand',
+      },
+      { type: 'done', interrupted: false },
+    ]);
+    expect(db.rows('chats')[0]).toMatchObject({
+      title: '[title-model] You said: Trains to Samarkand',
+      title_source: 'generated',
+    });
+
+    // Later turns keep the title
+    const next = await request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ chatId, messages: [{ role: 'user', content: 'And back?' }] })
+      .expect(201);
+    expect(parseSse<StreamEvent>(next.text).map((e) => e.type)).not.toContain(
+      'title',
+    );
+  });
+
+  it('never replaces a title set by the user', async () => {
+    await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content: 'Trains to Samarkand' }] })
+      .expect(201);
+    // As if the title generated in the background had not been stored yet
+    const chat = db.rows('chats')[0];
+    chat.title_source = 'default';
+
+    await request(app.getHttpServer())
+      .patch(`/chat/${chat.id as string}`)
+      .set('Authorization', bearer(alice))
+      .send({ title: 'Silk road trip' })
+      .expect(200);
+
+    const titles = app.get(ChatTitleService);
+    await expect(
+      titles.generate(chat.id as string, 'Trains to Samarkand'),
+    ).resolves.toBeNull();
+    expect(chat).toMatchObject({
+      title: 'Silk road trip',
+      title_source: 'user',
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { LlmService } from './../src/llm/llm.service';
+import { LlmRequest } from './../src/llm/llm-provider';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { searchChats } from './support/search-chats';
+import { bearer } from './support/auth';
+import { StreamEvent, parseSse } from './support/sse';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+
+describe('Chat tools (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+  let stream: jest.SpyInstance<unknown, [LlmRequest]>;
+
+  // The mock provider calls the tool named by a "call <tool> <arguments>" message
+  const send = (content: string, body: Record<string, unknown> = {}) =>
+    request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ model: 'gpt-4o', messages: [{ role: 'user', content }], ...body })
+      .expect(201)
+      .then((res) => parseSse(res.text));
+
+  const toolEvents = (events: StreamEvent[]) =>
+    events.filter((e) => e.type.startsWith('tool_'));
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    db.functions.search_chats = searchChats(db);
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    stream = jest.spyOn(app.get(LlmService), 'stream');
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('runs the tool, streams the step and stores it before the answer', async () => {
+    const events = await send('call calculator {"expression":"2 * (3 + 4)"}');
+
+    expect(toolEvents(events)).toEqual([
+      {
+        type: 'tool_call',
+        id: 'call_1',
+        name: 'calculator',
+        arguments: '{"expression":"2 * (3 + 4)"}',
+      },
+      { type: 'tool_result', id: 'call_1', content: '14', error: false },
+    ]);
+    expect(stream).toHaveBeenCalledTimes(2);
+    expect(stream.mock.lastCall![0].messages.slice(-2)).toMatchObject([
+      { role: 'assistant', toolCalls: [{ id: 'call_1', name: 'calculator' }] },
+      { role: 'tool', toolCallId: 'call_1', content: '14' },
+    ]);
+
+    // user → tool → answer
+    const meta = events[0];
+    const messages = db.rows('messages');
+    const tool = messages.find((m) => m.role === 'tool')!;
+    expect(tool).toMatchObject({
+      parent_id: meta.userMessageId,
+      content: '14',
+      tool_call: { id: 'call_1', name: 'calculator' },
+    });
+    expect(
+      messages.find((m) => m.id === meta.assistantMessageId),
+    ).toMatchObject({
+      parent_id: tool.id,
+      content: '[gpt-4o] The tool said: 14',
+    });
+
+    // The next turn follows the answer and leaves the tool call out
+    await send('Thanks', { chatId: meta.chatId });
+    expect(db.rows('messages').at(-2)).toMatchObject({
+      role: 'user',
+      parent_id: meta.assistantMessageId,
+    });
+    expect(stream.mock.lastCall![0].messages.map((m) => m.role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+    ]);
+  });
+
+  it('tells the model when a call fails', async () => {
+    const events = await send('call calculator {"expression":"2 +"}');
+    expect(toolEvents(events)[1]).toEqual({
+      type: 'tool_result',
+      id: 'call_1',
+      content: 'Error: The expression ends too early',
+      error: true,
+    });
+
+    const invalid = await send('call current_datetime {"timeZone":42}');
+    expect(toolEvents(invalid)[1]).toMatchObject({
+      content: 'Error: arguments.timeZone must be a string',
+      error: true,
+    });
+  });
+
+  it('searches the other chats of the user', async () => {
+    await send('Best pasta in Rome?');
+    const events = await send('call search_chats {"query":"pasta"}');
+
+    const result = toolEvents(events)[1];
+    expect(result.error).toBe(false);
+    const chats = JSON.parse(result.content as string) as Array<{
+      title: string;
+      excerpts: string[];
+    }>;
+    // Only the earlier chat: the one asking also mentions pasta
+    expect(chats).toHaveLength(1);
+    expect(chats[0].excerpts).toContain('user: Best pasta in Rome?');
+  });
+
+  it('holds chat search queries to the search endpoint limits', async () => {
+    const blank = await send('call search_chats {"query":"   "}');
+    expect(toolEvents(blank)[1]).toMatchObject({
+      content: 'Error: The query is empty',
+      error: true,
+    });
+
+    const long = await send(
+      `call search_chats {"query":"${'pasta '.repeat(40)}"}`,
+    );
+    expect(toolEvents(long)[1]).toMatchObject({
+      content: 'Error: The query is too long',
+      error: true,
+    });
+  });
+
+  it('only offers the chat search to signed-in users', async () => {
+    await request(app.getHttpServer())
+      .post('/chat/stream')
+      .send({ model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] })
+      .expect(201);
+    expect(stream.mock.lastCall![0].tools!.map((t) => t.name)).toEqual([
+      'calculator',
+      'current_datetime',
+    ]);
+
+    await send('Hi');
+    expect(stream.mock.lastCall![0].tools!.map((t) => t.name)).toContain(
+      'search_chats',
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { LlmService } from './../src/llm/llm.service';
+import { LlmRequest, textOf } from './../src/llm/llm-provider';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { matchKnowledgeChunks } from './support/match-knowledge-chunks';
+import { bearer } from './support/auth';
+import { parseSse } from './support/sse';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const bob = '22222222-2222-4222-8222-222222222222';
+
+const museum =
+  'The Registan museum in Samarkand opens at nine in the morning.\n\n' +
+  'Tickets for the museum cost 40,000 som.';
+const invoices = 'Invoices are due within thirty days of delivery.';
+
+describe('Knowledge base (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+  let stream: jest.SpyInstance<unknown, [LlmRequest]>;
+
+  const createCollection = (userId: string, name: string) =>
+    request(app.getHttpServer())
+      .post('/knowledge/collections')
+      .set('Authorization', bearer(userId))
+      .send({ name })
+      .expect(201)
+      .then((res) => (res.body as { collection: { id: string } }).collection);
+
+  const upload = (
+    userId: string,
+    collectionId: string,
+    name: string,
+    contents: string | Buffer,
+  ) =>
+    request(app.getHttpServer())
+      .post(`/knowledge/collections/${collectionId}/documents`)
+      .set('Authorization', bearer(userId))
+      .attach('file', Buffer.from(contents), name);
+
+  const send = (body: Record<string, unknown>) =>
+    request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({
+        messages: [{ role: 'user', content: 'When does the museum open?' }],
+        ...body,
+      })
+      .expect(201)
+      .then((res) => parseSse(res.text));
+
+  const systemPrompt = () =>
+    stream.mock
+      .lastCall![0].messages.filter((m) => m.role === 'system')
+      .map((m) => textOf(m.content))
+      .join('\n');
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    db.functions.match_knowledge_chunks = matchKnowledgeChunks(db);
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    stream = jest.spyOn(app.get(LlmService), 'stream');
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('chunks and embeds uploaded documents into the owner’s collections', async () => {
+    const travel = await createCollection(alice, 'Travel');
+
+    const uploaded = await upload(alice, travel.id, 'samarkand.md', museum);
+    expect(uploaded.status).toBe(201);
+    expect(uploaded.body).toMatchObject({
+      document: { name: 'samarkand.md', chunk_count: 1 },
+    });
+    const chunks = db.rows('knowledge_chunks');
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ collection_id: travel.id, position: 0 });
+    expect(chunks[0].embedding).toHaveLength(1536);
+
+    await upload(alice, travel.id, 'photo.png', 'png').expect(415);
+    await upload(bob, travel.id, 'notes.txt', invoices).expect(404);
+
+    const listed = await request(app.getHttpServer())
+      .get('/knowledge/collections')
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    expect(listed.body).toEqual({
+      collections: [
+        expect.objectContaining({ name: 'Travel', document_count: 1 }),
+      ],
+    });
+
+    const document = (uploaded.body as { document: { id: string } }).document;
+    await request(app.getHttpServer())
+      .delete(`/knowledge/documents/${document.id}`)
+      .set('Authorization', bearer(bob))
+      .expect(404);
+    await request(app.getHttpServer())
+      .delete(`/knowledge/documents/${document.id}`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    const documents = await request(app.getHttpServer())
+      .get(`/knowledge/collections/${travel.id}/documents`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    expect(documents.body).toEqual({ documents: [] });
+  });
+
+  it('answers chats linked to a collection from its closest chunks', async () => {
+    const travel = await createCollection(alice, 'Travel');
+    await upload(alice, travel.id, 'billing.txt', invoices).expect(201);
+    await upload(alice, travel.id, 'samarkand.md', museum).expect(201);
+
+    const events = await send({ knowledgeCollectionId: travel.id });
+
+    const sources = events.find((e) => e.type === 'sources');
+    expect(sources).toMatchObject({
+      sources: [
+        { index: 1, documentName: 'samarkand.md', position: 0 },
+        { index: 2, documentName: 'billing.txt' },
+      ],
+    });
+    expect(systemPrompt()).toContain(
+      `<source index="1" document="samarkand.md">\n${museum}\n</source>`,
+    );
+
+    const chat = db.rows('chats')[0];
+    expect(chat.knowledge_collection_id).toBe(travel.id);
+    const messages = await request(app.getHttpServer())
+      .get(`/chat/${chat.id as string}/messages`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    const answer = (
+      messages.body as { messages: { role: string; sources: unknown }[] }
+    ).messages.find((m) => m.role === 'assistant');
+    expect(answer?.sources).toEqual(sources?.sources);
+  });
+
+  it('links and unlinks existing chats, only to the user’s collections', async () => {
+    const travel = await createCollection(alice, 'Travel');
+    await upload(alice, travel.id, 'samarkand.md', museum).expect(201);
+    const bobs = await createCollection(bob, 'Private');
+
+    await send({});
+    const chatId = db.rows('chats')[0].id as string;
+    const patch = (knowledgeCollectionId: string | null) =>
+      request(app.getHttpServer())
+        .patch(`/chat/${chatId}`)
+        .set('Authorization', bearer(alice))
+        .send({ knowledgeCollectionId });
+
+    await patch(bobs.id).expect(404);
+    await patch(travel.id).expect(200);
+    let events = await send({ chatId });
+    expect(events.some((e) => e.type === 'sources')).toBe(true);
+
+    await patch(null).expect(200);
+    events = await send({ chatId });
+    expect(events.some((e) => e.type === 'sources')).toBe(false);
+    expect(systemPrompt()).not.toContain('<source');
+
+    await request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({
+        messages: [{ role: 'user', content: 'Hi' }],
+        knowledgeCollectionId: bobs.id,
+      })
+      .expect(404);
+  });
+
+  it('is not available to guests', async () => {
+    await request(app.getHttpServer())
+      .post('/chat/stream')
+      .send({
+        messages: [{ role: 'user', content: 'Hi' }],
+        knowledgeCollectionId: '44444444-4444-4444-8444-444444444444',
+      })
+      .expect(400);
+    await request(app.getHttpServer())
+      .get('/knowledge/collections')
+      .expect(403);
+  });
+});
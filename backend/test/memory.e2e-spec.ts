@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { LlmService } from './../src/llm/llm.service';
+import { LlmCompletion, LlmRequest, textOf } from './../src/llm/llm-provider';
+import { Memory, MemoryService } from './../src/memory/memory.service';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { matchMemories } from './support/match-memories';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+const bob = '22222222-2222-4222-8222-222222222222';
+
+describe('Memory (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+  let stream: jest.SpyInstance<unknown, [LlmRequest]>;
+  let complete: jest.SpyInstance<Promise<LlmCompletion>, [LlmRequest]>;
+  let learn: jest.SpyInstance<
+    Promise<Memory[]>,
+    [string, string, string, string]
+  >;
+
+  const send = (content: string) =>
+    request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content }] })
+      .expect(201);
+
+  // The extraction model's reply
+  const extract = (reply: Record<string, unknown>) =>
+    complete.mockResolvedValue({ content: JSON.stringify(reply) });
+
+  const learned = () => learn.mock.results.at(-1)!.value as Promise<Memory[]>;
+
+  const systemPrompt = () =>
+    stream.mock
+      .lastCall![0].messages.filter((m) => m.role === 'system')
+      .map((m) => textOf(m.content))
+      .join('\n');
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    db.functions.match_memories = matchMemories(db);
+    db.rows('profile').push({ id: alice, email: 'alice@example.com' });
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    stream = jest.spyOn(app.get(LlmService), 'stream');
+    complete = jest.spyOn(app.get(LlmService), 'complete');
+    learn = jest.spyOn(app.get(MemoryService), 'learn');
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('is off until the user turns it on', async () => {
+    await send('I work at Safar.');
+    expect(learn).not.toHaveBeenCalled();
+
+    await request(app.getHttpServer())
+      .patch('/settings')
+      .set('Authorization', bearer(alice))
+      // Nothing is stored when any of the settings is invalid
+      .send({ customInstructions: 'Be brief.', memoryEnabled: 'yes' })
+      .expect(400);
+    await request(app.getHttpServer())
+      .patch('/settings')
+      .set('Authorization', bearer(alice))
+      .send({ memoryEnabled: true })
+      .expect(200)
+      .expect({ settings: { customInstructions: '', memoryEnabled: true } });
+
+    extract({ add: ['Works at Safar.'], update: [] });
+    await send('I work at Safar.');
+    expect(learn).toHaveBeenCalledWith(
+      alice,
+      db.rows('chats')[1].id,
+      'I work at Safar.',
+      expect.any(String),
+    );
+    await expect(learned()).resolves.toHaveLength(1);
+  });
+
+  it('learns durable facts and recalls them in later chats', async () => {
+    db.rows('profile')[0].memory_enabled = true;
+
+    extract({ add: ['Prefers TypeScript.', 'Works at Safar.'], update: [] });
+    await send('I work at Safar, and I prefer TypeScript.');
+    await learned();
+    const firstChat = db.rows('chats')[0].id;
+    expect(db.rows('memories')).toEqual([
+      expect.objectContaining({
+        user_id: alice,
+        content: 'Prefers TypeScript.',
+        source_chat_id: firstChat,
+      }),
+      expect.objectContaining({ content: 'Works at Safar.' }),
+    ]);
+    expect(db.rows('memories')[0].embedding).toHaveLength(1536);
+    // Known facts are numbered for the model latest first
+    db.rows('memories')[0].created_at = '2026-10-01T00:00:00.000Z';
+    db.rows('memories')[1].created_at = '2026-10-02T00:00:00.000Z';
+
+    // Known facts are not stored twice; outdated ones are corrected
+    extract({
+      add: ['prefers typescript', 'Has a dog named Kosh.'],
+      update: [{ id: 1, content: 'Works at Safar as a designer.' }],
+    });
+    await send('Which language should I pick for the new TypeScript service?');
+    await learned();
+    expect(systemPrompt()).toContain(
+      'What you remember about the user from earlier conversations',
+    );
+    expect(systemPrompt()).toContain('- Prefers TypeScript.');
+    expect(
+      db
+        .rows('memories')
+        .map((m) => m.content)
+        .sort(),
+    ).toEqual([
+      'Has a dog named Kosh.',
+      'Prefers TypeScript.',
+      'Works at Safar as a designer.',
+    ]);
+    const [, turn] = complete.mock.lastCall![0].messages;
+    expect(textOf(turn.content)).toContain('2. Prefers TypeScript.');
+
+    db.rows('profile')[0].memory_enabled = false;
+    await send('Which language should I use?');
+    expect(systemPrompt()).not.toContain('Prefers TypeScript.');
+  });
+
+  it('lets users review, correct and delete what is remembered', async () => {
+    db.rows('profile')[0].memory_enabled = true;
+    extract({ add: ['Lives in Tashkent.'], update: [] });
+    await send('I live in Tashkent.');
+    await learned();
+
+    const listed = await request(app.getHttpServer())
+      .get('/memories')
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    const [memory] = (listed.body as { memories: Memory[] }).memories;
+    expect(memory).toMatchObject({ content: 'Lives in Tashkent.' });
+    expect(memory).not.toHaveProperty('embedding');
+
+    const edit = (userId: string, content: unknown) =>
+      request(app.getHttpServer())
+        .patch(`/memories/${memory.id}`)
+        .set('Authorization', bearer(userId))
+        .send({ content });
+
+    await edit(bob, 'Lives in Paris.').expect(404);
+    await edit(alice, '  ').expect(400);
+    await edit(alice, 'x'.repeat(301)).expect(400);
+    const edited = await edit(alice, ' Lives in Samarkand. ').expect(200);
+    expect(edited.body).toMatchObject({
+      memory: { id: memory.id, content: 'Lives in Samarkand.' },
+    });
+
+    await request(app.getHttpServer())
+      .delete(`/memories/${memory.id}`)
+      .set('Authorization', bearer(bob))
+      .expect(404);
+    await request(app.getHttpServer())
+      .delete(`/memories/${memory.id}`)
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    expect(db.rows('memories')).toEqual([]);
+
+    await request(app.getHttpServer()).get('/memories').expect(403);
+  });
+});
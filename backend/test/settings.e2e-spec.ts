@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/supabase/supabase.service';
+import { LlmService } from './../src/llm/llm.service';
+import { LlmRequest } from './../src/llm/llm-provider';
+import { InMemorySupabase } from './support/in-memory-supabase';
+import { bearer } from './support/auth';
+
+const alice = '11111111-1111-4111-8111-111111111111';
+
+describe('Custom instructions (e2e)', () => {
+  let app: INestApplication<App>;
+  let db: InMemorySupabase;
+  let stream: jest.SpyInstance<unknown, [LlmRequest]>;
+
+  const send = (body: Record<string, unknown>) =>
+    request(app.getHttpServer())
+      .post('/chat/stream')
+      .set('Authorization', bearer(alice))
+      .send({ messages: [{ role: 'user', content: 'Hello' }], ...body })
+      .expect(201);
+
+  const chatId = () => db.rows('chats')[0].id as string;
+  const lastSystemPrompt = () =>
+    stream.mock.lastCall![0].messages.find((m) => m.role === 'system')?.content;
+
+  beforeEach(async () => {
+    db = new InMemorySupabase();
+    db.rows('profile').push({ id: alice, email: 'alice@example.com' });
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(db)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+
+    // Record what the model is sent
+    stream = jest.spyOn(app.get(LlmService), 'stream');
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('stores the instructions on the profile', async () => {
+    await request(app.getHttpServer())
+      .patch('/settings')
+      .set('Authorization', bearer(alice))
+      .send({ customInstructions: '  Answer concisely.  ' })
+      .expect(200)
+      .expect({
+        settings: {
+          customInstructions: 'Answer concisely.',
+          memoryEnabled: false,
+        },
+      });
+
+    await request(app.getHttpServer())
+      .get('/settings')
+      .set('Authorization', bearer(alice))
+      .expect(200)
+      .expect({
+        settings: {
+          customInstructions: 'Answer concisely.',
+          memoryEnabled: false,
+        },
+      });
+
+    await request(app.getHttpServer())
+      .patch('/settings')
+      .set('Authorization', bearer(alice))
+      .send({ customInstructions: 'x'.repeat(1501) })
+      .expect(400);
+  });
+
+  it('sends them with every chat unless turned off for it', async () => {
+    db.rows('profile')[0].custom_instructions = "I'm a Python developer.";
+
+    await send({});
+    expect(lastSystemPrompt()).toContain("I'm a Python developer.");
+
+    await request(app.getHttpServer())
+      .patch(`/chat/${chatId()}`)
+      .set('Authorization', bearer(alice))
+      .send({ useCustomInstructions: false })
+      .expect(200);
+    await send({ chatId: chatId() });
+    expect(lastSystemPrompt()).toBeUndefined();
+
+    const chats = await request(app.getHttpServer())
+      .get('/chat')
+      .set('Authorization', bearer(alice))
+      .expect(200);
+    expect(chats.body).toMatchObject({
+      chats: [{ use_custom_instructions: false }],
+    });
+  });
+
+  it('can start a chat without them', async () => {
+    db.rows('profile')[0].custom_instructions = "I'm a Python developer.";
+
+    await send({ useCustomInstructions: false });
+    expect(lastSystemPrompt()).toBeUndefined();
+    expect(db.rows('chats')[0].use_custom_instructions).toBe(false);
+  });
+});
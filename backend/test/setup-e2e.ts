@@ -0,0 +1,16 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// e2e tests run fully offline: a deterministic mock LLM and a placeholder
+// Supabase project that is never contacted unless a test needs it. The
+// providers are forced, so a developer's shell never makes them paid calls.
+process.env.LLM_PROVIDER = 'mock';
+process.env.SUPABASE_URL ??= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'e2e-service-role-key';
+process.env.SUPABASE_JWT_SECRET ??= 'e2e-jwt-secret';
+process.env.ATTACHMENT_DIR ??= join(tmpdir(), 'safargpt-e2e-attachments');
+// Generated titles would race with assertions on the placeholder title; the
+// title tests turn them back on
+process.env.LLM_TITLE_MODEL ??= '';
+// Bag-of-words embeddings, computed locally
+process.env.EMBEDDINGS_PROVIDER = 'local';
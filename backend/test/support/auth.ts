@@ -0,0 +1,5 @@
+import * as jwt from 'jsonwebtoken';
+
+/** `Authorization` header for a user, signed like Supabase access tokens. */
+export const bearer = (userId: string) =>
+  `Bearer ${jwt.sign({ sub: userId }, process.env.SUPABASE_JWT_SECRET!)}`;
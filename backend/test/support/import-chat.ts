@@ -0,0 +1,25 @@
+import { InMemorySupabase } from './in-memory-supabase';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Stand-in for the `import_chat` SQL function: stores the chat, then its
+ * messages in order, pointing each one at its parent's new id.
+ */
+export const importChat = (db: InMemorySupabase) => (args: Row) => {
+  const chat = db.newRow('chats', args.p_chat as Row);
+  db.rows('chats').push(chat);
+
+  const ids: number[] = [];
+  for (const { parent, ...message } of args.p_messages as Row[]) {
+    const row = db.newRow('messages', {
+      ...message,
+      chat_id: chat.id,
+      parent_id: parent === null ? null : ids[parent as number],
+    });
+    db.rows('messages').push(row);
+    ids.push(row.id as number);
+  }
+
+  return chat.id;
+};
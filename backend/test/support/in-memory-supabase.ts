@@ -0,0 +1,185 @@
+import { randomUUID } from 'crypto';
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type Result = { data: unknown; error: { message: string } | null };
+
+/**
+ * Tiny in-memory stand-in for the Supabase client used by the e2e tests. It
+ * implements just the query-builder calls the backend makes, against plain
+ * arrays of rows, so tests run without a database.
+ */
+export class InMemorySupabase {
+  readonly tables: Record<string, Row[]> = {};
+  /** Stand-ins for Postgres functions called through `rpc()`. */
+  readonly functions: Record<string, (args: Row) => unknown> = {};
+  /** Tables whose primary key is an identity column rather than a uuid. */
+  private readonly identityTables = new Set(['messages']);
+  private sequence = 0;
+
+  getClient() {
+    return {
+      from: (table: string) => new QueryBuilder(this, table),
+      rpc: (name: string, args: Row = {}) =>
+        Promise.resolve(this.call(name, args)),
+    };
+  }
+
+  private call(name: string, args: Row): Result {
+    const fn = this.functions[name];
+    if (!fn) {
+      return { data: null, error: { message: `Unknown function ${name}` } };
+    }
+    return { data: fn(args), error: null };
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables[table] ??= []);
+  }
+
+  newRow(table: string, values: Row): Row {
+    return {
+      id: this.identityTables.has(table) ? ++this.sequence : randomUUID(),
+      created_at: new Date().toISOString(),
+      ...values,
+    };
+  }
+}
+
+class QueryBuilder implements PromiseLike<Result> {
+  private operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private columns: string | null = null;
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private readonly filters: Filter[] = [];
+  private readonly orders: Array<{ column: string; ascending: boolean }> = [];
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(
+    private readonly db: InMemorySupabase,
+    private readonly table: string,
+  ) {}
+
+  select(columns = '*') {
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = 'insert';
+    this.payload = ([] as Row[]).concat(values);
+    return this;
+  }
+
+  update(values: Row) {
+    this.operation = 'update';
+    this.patch = values;
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: unknown) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null,
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private execute(): Result {
+    const rows = this.db.rows(this.table);
+    const matches = () => rows.filter((r) => this.filters.every((f) => f(r)));
+    let affected: Row[];
+
+    switch (this.operation) {
+      case 'insert':
+        affected = this.payload.map((values) =>
+          this.db.newRow(this.table, values),
+        );
+        rows.push(...affected);
+        break;
+      case 'update':
+        affected = matches();
+        affected.forEach((row) => Object.assign(row, this.patch));
+        break;
+      case 'delete':
+        affected = matches();
+        this.db.tables[this.table] = rows.filter((r) => !affected.includes(r));
+        break;
+      default:
+        affected = matches();
+    }
+
+    if (this.operation !== 'select' && this.columns === null) {
+      return { data: null, error: null };
+    }
+
+    const data = this.sort(affected).map((row) => this.project(row));
+    if (this.mode === 'many') {
+      return { data, error: null };
+    }
+    if (data.length > 1 || (this.mode === 'single' && data.length === 0)) {
+      return { data: null, error: { message: 'Expected a single row' } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+
+  private sort(rows: Row[]): Row[] {
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const left = a[column] as string | number;
+        const right = b[column] as string | number;
+        if (left === right) continue;
+        const cmp = left < right ? -1 : 1;
+        return ascending ? cmp : -cmp;
+      }
+      return 0;
+    });
+  }
+
+  private project(row: Row): Row {
+    if (!this.columns || this.columns.trim() === '*') {
+      return { ...row };
+    }
+    const picked: Row = {};
+    for (const column of this.columns.split(',').map((c) => c.trim())) {
+      picked[column] = row[column] ?? null;
+    }
+    return picked;
+  }
+}
@@ -0,0 +1,31 @@
+import { InMemorySupabase } from './in-memory-supabase';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Stand-in for the `match_knowledge_chunks` SQL function: cosine similarity
+ * computed over every chunk of the collection, best first.
+ */
+export const matchKnowledgeChunks = (db: InMemorySupabase) => (args: Row) => {
+  const query = args.p_embedding as number[];
+  const cosine = (vector: number[]) => {
+    const dot = vector.reduce((sum, value, i) => sum + value * query[i], 0);
+    return dot / (Math.hypot(...vector) * Math.hypot(...query) || 1);
+  };
+
+  return db
+    .rows('knowledge_chunks')
+    .filter((chunk) => chunk.collection_id === args.p_collection_id)
+    .map((chunk) => ({
+      id: chunk.id,
+      document_id: chunk.document_id,
+      document_name: db
+        .rows('knowledge_documents')
+        .find((d) => d.id === chunk.document_id)?.name,
+      position: chunk.position,
+      content: chunk.content,
+      similarity: cosine(chunk.embedding as number[]),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, Number(args.p_limit));
+};
@@ -0,0 +1,26 @@
+import { InMemorySupabase } from './in-memory-supabase';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Stand-in for the `match_memories` SQL function: cosine similarity computed
+ * over every memory of the user, best first.
+ */
+export const matchMemories = (db: InMemorySupabase) => (args: Row) => {
+  const query = args.p_embedding as number[];
+  const cosine = (vector: number[]) => {
+    const dot = vector.reduce((sum, value, i) => sum + value * query[i], 0);
+    return dot / (Math.hypot(...vector) * Math.hypot(...query) || 1);
+  };
+
+  return db
+    .rows('memories')
+    .filter((memory) => memory.user_id === args.p_user_id)
+    .map((memory) => ({
+      id: memory.id,
+      content: memory.content,
+      similarity: cosine(memory.embedding as number[]),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, Number(args.p_limit));
+};
@@ -0,0 +1,44 @@
+import { InMemorySupabase } from './in-memory-supabase';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Substring stand-in for the `search_chats` SQL function: same arguments and
+ * row shape, with matches wrapped in the same markers as `ts_headline`.
+ */
+export const searchChats = (db: InMemorySupabase) => (args: Row) => {
+  const query = String(args.p_query).toLowerCase();
+  const mark = (text: string) => {
+    const at = text.toLowerCase().indexOf(query);
+    return at < 0
+      ? null
+      : `${text.slice(0, at)}\u0001${text.slice(at, at + query.length)}\u0002${text.slice(at + query.length)}`;
+  };
+
+  return db
+    .rows('chats')
+    .filter((chat) => chat.user_id === args.p_user_id)
+    .flatMap((chat) => {
+      const title = mark(String(chat.title));
+      const messages = db
+        .rows('messages')
+        .filter((m) => m.chat_id === chat.id)
+        .map((m) => ({ m, snippet: mark(String(m.content)) }))
+        .filter(({ snippet }) => snippet !== null);
+
+      return [
+        ...(title ? [{ message_id: null, role: null, snippet: title }] : []),
+        ...messages.map(({ m, snippet }) => ({
+          message_id: m.id,
+          role: m.role,
+          snippet,
+        })),
+      ].map((hit) => ({
+        chat_id: chat.id,
+        chat_title: chat.title,
+        chat_created_at: chat.created_at,
+        created_at: chat.created_at,
+        ...hit,
+      }));
+    });
+};
@@ -0,0 +1,14 @@
+export type StreamEvent = Record<string, unknown> & { type: string };
+
+/** The events of a `POST /api/chat/stream` response body. */
+export function parseSse<T extends { type: string } = StreamEvent>(
+  text: string,
+): T[] {
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map((frame) => {
+      const data = frame.split('\n').find((line) => line.startsWith('data: '));
+      return JSON.parse(data!.slice('data: '.length)) as T;
+    });
+}
@@ -5,6 +5,11 @@ import SignUpForm from './components/SignUpForm';
 import { useAuth } from './auth/AuthProvider';
 import ChatPage from './components/ChatPage';
 import AdminDashboard from './components/AdminDashboard';
+import SettingsPage from './components/SettingsPage';
+import KnowledgePage from './components/KnowledgePage';
+import MemoryPage from './components/MemoryPage';
+import SharesPage from './components/SharesPage';
+import SharedChatPage from './components/SharedChatPage';
 import { Routes, Route, useNavigate } from 'react-router-dom';
 
 function App() {
@@ -13,15 +18,15 @@ function App() {
   const navigate = useNavigate();
   const location = useLocation();
 
-  // Redirect to home on login
+  // Redirect to home on login, or back to the page that asked for it
   useEffect(() => {
     if (!user) return;
     // Only redirect if we are currently on an auth-related page
     const authPaths = ['/login', '/signup'];
     if (authPaths.includes(location.pathname)) {
-      navigate('/');
+      navigate((location.state as { from?: string } | null)?.from ?? '/');
     }
-  }, [user, location.pathname, navigate]);
+  }, [user, location.pathname, location.state, navigate]);
 
   return (
     <Routes>
@@ -29,6 +34,11 @@ function App() {
       <Route path="/login" element={<LoginForm switchToSignUp={() => navigate('/signup')} />} />
       <Route path="/signup" element={<SignUpForm switchToLogin={() => navigate('/login')} />} />
       <Route path="/admin" element={<AdminDashboard />} />
+      <Route path="/settings" element={<SettingsPage />} />
+      <Route path="/settings/memory" element={<MemoryPage />} />
+      <Route path="/settings/shares" element={<SharesPage />} />
+      <Route path="/knowledge" element={<KnowledgePage />} />
+      <Route path="/share/:token" element={<SharedChatPage />} />
     </Routes>
   );
 }
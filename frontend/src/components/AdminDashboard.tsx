@@ -1,7 +1,8 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../auth/AuthProvider';
 import { useToast } from './ToastProvider';
+import AdminSearchPanel, { type AdminSearchResult } from './AdminSearchPanel';
 
 interface Profile {
   id: string;
@@ -16,6 +17,7 @@ interface ChatSummary {
 }
 
 interface Message {
+  id: number;
   role: string;
   content: string;
   model: string | null;
@@ -33,6 +35,11 @@ const AdminDashboard = () => {
   const [selectedChat, setSelectedChat] = useState<ChatSummary | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [error, setError] = useState<string | null>(null);
+  // Browse users → chats, or search across everyone's messages
+  const [view, setView] = useState<'browse' | 'search'>('browse');
+  // Message opened from a search result, highlighted in the thread
+  const [highlightId, setHighlightId] = useState<number | null>(null);
+  const highlightRef = useRef<HTMLDivElement | null>(null);
 
   const getAccessToken = async () => {
     const { data } = await supabase.auth.getSession();
@@ -105,6 +112,22 @@ const AdminDashboard = () => {
     fetchMessages();
   }, [selectedChat]);
 
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [messages, highlightId]);
+
+  const openSearchResult = (result: AdminSearchResult) => {
+    setHighlightId(result.messageId);
+    if (selectedChat?.id === result.chatId) return;
+    setMessages([]);
+    setSelectedChat({ id: result.chatId, title: result.chatTitle, created_at: result.createdAt });
+  };
+
+  const selectChat = (chat: ChatSummary) => {
+    setHighlightId(null);
+    setSelectedChat(chat);
+  };
+
   const copyChat = () => {
     if (!messages.length) return;
     const text = messages.map((m) => `${m.role}: ${m.content}`).join('\n');
@@ -160,53 +183,74 @@ const AdminDashboard = () => {
   return (
     <div className="flex h-screen">
       {/* Users sidebar */}
-      <div className="w-64 border-r overflow-y-auto">
-        <h2 className="p-4 font-semibold">Users</h2>
-        <ul>
-          {profiles.map((p) => (
-            <li
-              key={p.id}
-              className={`px-4 py-2 cursor-pointer hover:bg-gray-100 ${selectedUser?.id === p.id ? 'bg-gray-100' : ''}`}
-              onClick={() => setSelectedUser(p)}
-            >
-              <div className="flex justify-between items-center">
-                <span>{p.email}</span>
-                <span className="text-xs text-gray-500">{p.role}</span>
-              </div>
-            </li>
-          ))}
-        </ul>
+      <div className={`${view === 'search' ? 'w-96' : 'w-64'} border-r overflow-y-auto flex flex-col`}>
+        <div className="p-4 flex gap-4 font-semibold">
+          <button
+            className={view === 'browse' ? '' : 'text-gray-400 hover:text-gray-600'}
+            onClick={() => setView('browse')}
+          >
+            Users
+          </button>
+          <button
+            className={view === 'search' ? '' : 'text-gray-400 hover:text-gray-600'}
+            onClick={() => setView('search')}
+          >
+            Search
+          </button>
+        </div>
+        {view === 'search' ? (
+          <div className="flex-1 min-h-0 border-t">
+            <AdminSearchPanel backendUrl={backendUrl} onOpen={openSearchResult} />
+          </div>
+        ) : (
+          <ul>
+            {profiles.map((p) => (
+              <li
+                key={p.id}
+                className={`px-4 py-2 cursor-pointer hover:bg-gray-100 ${selectedUser?.id === p.id ? 'bg-gray-100' : ''}`}
+                onClick={() => setSelectedUser(p)}
+              >
+                <div className="flex justify-between items-center">
+                  <span>{p.email}</span>
+                  <span className="text-xs text-gray-500">{p.role}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {/* Chats list */}
-      <div className="w-72 border-r overflow-y-auto">
-        {selectedUser ? (
-          <>
-            <div className="p-4 border-b font-medium flex justify-between items-center">
-              <span>Chats of {selectedUser.email}</span>
-              <button
-                className="text-xs text-blue-600 underline"
-                onClick={copyAllChatsOfUser}
-              >
-                Copy list
-              </button>
-            </div>
-            <ul>
-              {chats.map((chat) => (
-                <li
-                  key={chat.id}
-                  className={`px-4 py-2 cursor-pointer hover:bg-gray-100 ${selectedChat?.id === chat.id ? 'bg-gray-100' : ''}`}
-                  onClick={() => setSelectedChat(chat)}
+      {view === 'browse' && (
+        <div className="w-72 border-r overflow-y-auto">
+          {selectedUser ? (
+            <>
+              <div className="p-4 border-b font-medium flex justify-between items-center">
+                <span>Chats of {selectedUser.email}</span>
+                <button
+                  className="text-xs text-blue-600 underline"
+                  onClick={copyAllChatsOfUser}
                 >
-                  {chat.title ?? '(no title)'}
-                </li>
-              ))}
-            </ul>
-          </>
-        ) : (
-          <p className="p-4 text-gray-500">Select a user to view chats</p>
-        )}
-      </div>
+                  Copy list
+                </button>
+              </div>
+              <ul>
+                {chats.map((chat) => (
+                  <li
+                    key={chat.id}
+                    className={`px-4 py-2 cursor-pointer hover:bg-gray-100 ${selectedChat?.id === chat.id ? 'bg-gray-100' : ''}`}
+                    onClick={() => selectChat(chat)}
+                  >
+                    {chat.title ?? '(no title)'}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="p-4 text-gray-500">Select a user to view chats</p>
+          )}
+        </div>
+      )}
 
       {/* Messages panel */}
       <div className="flex-1 overflow-y-auto flex flex-col">
@@ -222,8 +266,12 @@ const AdminDashboard = () => {
               </button>
             </div>
             <div className="p-4 space-y-2">
-              {messages.map((m, idx) => (
-                <div key={idx} className="text-sm whitespace-pre-wrap">
+              {messages.map((m) => (
+                <div
+                  key={m.id}
+                  ref={m.id === highlightId ? highlightRef : undefined}
+                  className={`text-sm whitespace-pre-wrap ${m.id === highlightId ? 'bg-yellow-100 rounded' : ''}`}
+                >
                   <span className="font-semibold mr-1">{m.role}:</span>
                   <span>{m.content}</span>
                 </div>
@@ -236,7 +284,7 @@ const AdminDashboard = () => {
       </div>
 
       {/* Role actions sidebar */}
-      {selectedUser && (
+      {view === 'browse' && selectedUser && (
         <div className="w-48 border-l p-4 space-y-4">
           <h3 className="font-medium">Role actions</h3>
           {selectedUser.role === 'user' ? (
@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabaseClient';
+import { Highlighted, type SearchSnippet } from './SearchDialog';
+
+// Mirrors `AdminSearchResult` in backend/src/admin/admin.controller.ts
+export interface AdminSearchResult {
+  messageId: number;
+  chatId: string;
+  chatTitle: string | null;
+  userId: string;
+  userEmail: string | null;
+  role: string;
+  model: string | null;
+  snippet: SearchSnippet;
+  createdAt: string;
+}
+
+interface Filters {
+  q: string;
+  email: string;
+  model: string;
+  role: string;
+  from: string; // yyyy-mm-dd from the date inputs
+  to: string;
+}
+
+interface AdminSearchPanelProps {
+  backendUrl: string;
+  onOpen: (result: AdminSearchResult) => void;
+}
+
+const PAGE_SIZE = 20;
+const emptyFilters: Filters = { q: '', email: '', model: '', role: '', from: '', to: '' };
+
+// The API's `to` is exclusive, so a "to" day is sent as the start of the next one
+const startOfDay = (day: string, addDays = 0) => {
+  const date = new Date(`${day}T00:00`);
+  date.setDate(date.getDate() + addDays);
+  return date.toISOString();
+};
+
+const AdminSearchPanel = ({ backendUrl, onOpen }: AdminSearchPanelProps) => {
+  const [draft, setDraft] = useState<Filters>(emptyFilters);
+  const [filters, setFilters] = useState<Filters | null>(null);
+  const [page, setPage] = useState(1);
+  const [results, setResults] = useState<AdminSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [models, setModels] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getAccessToken = async () => {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.access_token;
+  };
+
+  // Model ids for the filter's suggestions
+  useEffect(() => {
+    const fetchModels = async () => {
+      try {
+        const token = await getAccessToken();
+        const res = await fetch(`${backendUrl}/chat/models`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) return;
+        const data = await res.json();
+        setModels((data.models ?? []).map((m: { id: string }) => m.id));
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    fetchModels();
+  }, [backendUrl]);
+
+  useEffect(() => {
+    if (!filters) return;
+    const fetchResults = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+        if (filters.q.trim()) params.set('q', filters.q.trim());
+        if (filters.email.trim()) params.set('email', filters.email.trim());
+        if (filters.model.trim()) params.set('model', filters.model.trim());
+        if (filters.role) params.set('role', filters.role);
+        if (filters.from) params.set('from', startOfDay(filters.from));
+        if (filters.to) params.set('to', startOfDay(filters.to, 1));
+
+        const token = await getAccessToken();
+        const res = await fetch(`${backendUrl}/admin/search?${params}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) {
+          const body = await res.json().catch(() => null);
+          throw new Error(body?.message ?? `Search failed (${res.status})`);
+        }
+        const data = await res.json();
+        setResults(data.results ?? []);
+        setTotal(data.total ?? 0);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchResults();
+  }, [filters, page, backendUrl]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters({ ...draft });
+  };
+
+  const set = (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setDraft((prev) => ({ ...prev, [key]: e.target.value }));
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="flex flex-col h-full">
+      <form onSubmit={submit} className="p-4 border-b space-y-2 text-sm">
+        <input
+          value={draft.q}
+          onChange={set('q')}
+          placeholder="Search messages"
+          className="w-full border rounded px-2 py-1"
+        />
+        <input
+          value={draft.email}
+          onChange={set('email')}
+          placeholder="User email"
+          className="w-full border rounded px-2 py-1"
+        />
+        <div className="flex gap-2">
+          <input
+            value={draft.model}
+            onChange={set('model')}
+            list="admin-search-models"
+            placeholder="Model"
+            className="w-1/2 border rounded px-2 py-1"
+          />
+          <datalist id="admin-search-models">
+            {models.map((id) => (
+              <option key={id} value={id} />
+            ))}
+          </datalist>
+          <select value={draft.role} onChange={set('role')} className="w-1/2 border rounded px-2 py-1">
+            <option value="">Any role</option>
+            <option value="user">user</option>
+            <option value="assistant">assistant</option>
+            <option value="system">system</option>
+            <option value="tool">tool</option>
+          </select>
+        </div>
+        <div className="flex gap-2 items-center">
+          <input type="date" value={draft.from} onChange={set('from')} className="w-1/2 border rounded px-2 py-1" />
+          <span className="text-gray-400">–</span>
+          <input type="date" value={draft.to} onChange={set('to')} className="w-1/2 border rounded px-2 py-1" />
+        </div>
+        <div className="flex justify-between">
+          <button
+            type="button"
+            className="text-xs text-gray-500 underline"
+            onClick={() => setDraft(emptyFilters)}
+          >
+            Clear
+          </button>
+          <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded">
+            Search
+          </button>
+        </div>
+      </form>
+
+      <div className="flex-1 overflow-y-auto">
+        {error && <p className="p-4 text-sm text-red-600">{error}</p>}
+        {loading && <p className="p-4 text-sm text-gray-500">Searching…</p>}
+        {!loading && filters && !error && results.length === 0 && (
+          <p className="p-4 text-sm text-gray-500">No matches.</p>
+        )}
+        <ul>
+          {results.map((result) => (
+            <li
+              key={result.messageId}
+              className="px-4 py-2 border-b cursor-pointer hover:bg-gray-100 text-sm"
+              onClick={() => onOpen(result)}
+            >
+              <div className="flex justify-between text-xs text-gray-500">
+                <span className="truncate">{result.userEmail ?? result.userId}</span>
+                <span>{new Date(result.createdAt).toLocaleDateString()}</span>
+              </div>
+              <div className="font-medium truncate">{result.chatTitle ?? '(no title)'}</div>
+              <div className="text-gray-600">
+                <span className="text-xs text-gray-400 mr-1">
+                  {result.role}
+                  {result.model ? ` · ${result.model}` : ''}:
+                </span>
+                <Highlighted snippet={result.snippet} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {filters && total > 0 && (
+        <div className="p-2 border-t flex justify-between items-center text-xs text-gray-600">
+          <button disabled={page <= 1} onClick={() => setPage(page - 1)} className="px-2 disabled:text-gray-300">
+            ‹ Prev
+          </button>
+          <span>
+            Page {page} of {pageCount} · {total} matches
+          </span>
+          <button
+            disabled={page >= pageCount}
+            onClick={() => setPage(page + 1)}
+            className="px-2 disabled:text-gray-300"
+          >
+            Next ›
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminSearchPanel;
@@ -0,0 +1,116 @@
+import type { ModelOption } from './ChatPage';
+import type { GenerationParams } from '../lib/generationParams';
+
+interface AdvancedPanelProps {
+  model?: ModelOption;
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+}
+
+const numberOrUndefined = (value: string) => (value === '' ? undefined : Number(value));
+
+/** Generation parameters of the chat, limited to what the selected model accepts. */
+const AdvancedPanel: React.FC<AdvancedPanelProps> = ({ model, params, onChange }) => {
+  const set = (patch: GenerationParams) => onChange({ ...params, ...patch });
+  const capabilities = model?.capabilities;
+
+  return (
+    <div className="flex flex-wrap items-end gap-4 px-4 py-3 border-b border-gray-200 bg-gray-50 text-sm">
+      {capabilities?.sampling && (
+        <>
+          <label className="flex flex-col gap-1">
+            Temperature
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={params.temperature ?? ''}
+              onChange={(e) => set({ temperature: numberOrUndefined(e.target.value) })}
+              placeholder="Default"
+              className="border rounded px-2 py-1 w-24"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Top P
+            <input
+              type="number"
+              min={0.01}
+              max={1}
+              step={0.05}
+              value={params.topP ?? ''}
+              onChange={(e) => set({ topP: numberOrUndefined(e.target.value) })}
+              placeholder="Default"
+              className="border rounded px-2 py-1 w-24"
+            />
+          </label>
+        </>
+      )}
+      <label className="flex flex-col gap-1">
+        Max output tokens
+        <input
+          type="number"
+          min={1}
+          max={model?.maxOutputTokens ?? undefined}
+          step={1}
+          value={params.maxTokens ?? ''}
+          onChange={(e) => set({ maxTokens: numberOrUndefined(e.target.value) })}
+          placeholder="Default"
+          className="border rounded px-2 py-1 w-32"
+        />
+      </label>
+      {capabilities?.sampling && (
+        <label className="flex flex-col gap-1">
+          Stop sequences
+          {/* Committed on blur so commas can be typed; re-created when the chat changes */}
+          <input
+            key={params.stop?.join('\n') ?? ''}
+            defaultValue={params.stop?.join(', ') ?? ''}
+            onBlur={(e) => {
+              const stop = e.target.value
+                .split(',')
+                .map((s) => s.trim())
+                .filter(Boolean)
+                .slice(0, 4);
+              set({ stop: stop.length ? stop : undefined });
+            }}
+            placeholder="Comma separated, up to 4"
+            className="border rounded px-2 py-1 w-48"
+          />
+        </label>
+      )}
+      {capabilities?.reasoning && (
+        <label className="flex flex-col gap-1">
+          Reasoning effort
+          <select
+            value={params.reasoningEffort ?? ''}
+            onChange={(e) =>
+              set({ reasoningEffort: (e.target.value || undefined) as GenerationParams['reasoningEffort'] })
+            }
+            className="border rounded px-2 py-1"
+          >
+            <option value="">Default</option>
+            <option value="low">Low</option>
+            <option value="medium">Medium</option>
+            <option value="high">High</option>
+          </select>
+        </label>
+      )}
+      {capabilities?.jsonMode && (
+        <label className="flex items-center gap-1 py-1">
+          <input
+            type="checkbox"
+            checked={params.jsonMode ?? false}
+            onChange={(e) => set({ jsonMode: e.target.checked || undefined })}
+          />
+          JSON output
+        </label>
+      )}
+      <button onClick={() => onChange({})} className="text-xs text-blue-600 hover:underline py-1">
+        Reset
+      </button>
+    </div>
+  );
+};
+
+export default AdvancedPanel;
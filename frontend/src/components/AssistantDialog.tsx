@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { supabase } from '../lib/supabaseClient';
+import { useToast } from './ToastProvider';
+import type { ModelOption } from './ChatPage';
+
+// Mirrors `AssistantSummary` in backend/src/assistants/assistants.service.ts
+export interface Assistant {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string | null;
+  system_prompt: string;
+  model: string | null;
+  temperature: number | null;
+  starters: string[];
+  shared: boolean;
+  created_at: string;
+  editable: boolean;
+}
+
+interface AssistantDialogProps {
+  backendUrl: string;
+  /** Assistant to edit; `null` creates a new one. */
+  assistant: Assistant | null;
+  models: ModelOption[];
+  canPublish: boolean;
+  onClose: () => void;
+  /** Called after a save or delete so the list can be reloaded. */
+  onChanged: () => void;
+}
+
+const MAX_STARTERS = 4;
+
+/** Create, edit or delete an assistant. */
+const AssistantDialog: React.FC<AssistantDialogProps> = ({
+  backendUrl,
+  assistant,
+  models,
+  canPublish,
+  onClose,
+  onChanged,
+}) => {
+  const addToast = useToast();
+  const [name, setName] = useState(assistant?.name ?? '');
+  const [description, setDescription] = useState(assistant?.description ?? '');
+  const [systemPrompt, setSystemPrompt] = useState(assistant?.system_prompt ?? '');
+  const [model, setModel] = useState(assistant?.model ?? '');
+  const [temperature, setTemperature] = useState(assistant?.temperature?.toString() ?? '');
+  const [starters, setStarters] = useState(() => {
+    const list = [...(assistant?.starters ?? [])];
+    while (list.length < MAX_STARTERS) list.push('');
+    return list;
+  });
+  const [shared, setShared] = useState(assistant?.shared ?? false);
+  const [busy, setBusy] = useState(false);
+
+  const request = async (method: string, url: string, body?: unknown) => {
+    const { data } = await supabase.auth.getSession();
+    const res = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${data.session?.access_token}`,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const error = await res.json().catch(() => null);
+      throw new Error(typeof error?.message === 'string' ? error.message : `Request failed: ${res.status}`);
+    }
+  };
+
+  const save = async () => {
+    setBusy(true);
+    try {
+      const body = {
+        name,
+        description: description || null,
+        systemPrompt,
+        model: model || null,
+        temperature: temperature === '' ? null : Number(temperature),
+        starters,
+        ...(canPublish ? { shared } : {}),
+      };
+      if (assistant) {
+        await request('PATCH', `${backendUrl}/assistants/${assistant.id}`, body);
+      } else {
+        await request('POST', `${backendUrl}/assistants`, body);
+      }
+      onChanged();
+      onClose();
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to save assistant');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!assistant) return;
+    setBusy(true);
+    try {
+      await request('DELETE', `${backendUrl}/assistants/${assistant.id}`);
+      onChanged();
+      onClose();
+    } catch (err) {
+      addToast(err instanceof Error ? err.message : 'Failed to delete assistant');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-[1px] flex items-center justify-center z-30" onClick={() => !busy && onClose()}>
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto flex flex-col gap-3" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-semibold">{assistant ? 'Edit assistant' : 'New assistant'}</h3>
+
+        <label className="flex flex-col gap-1 text-sm">
+          Name
+          <input value={name} onChange={(e) => setName(e.target.value)} maxLength={80} className="border rounded px-2 py-1" />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          Description
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={300}
+            placeholder="Shown when starting a chat"
+            className="border rounded px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          System prompt
+          <textarea
+            value={systemPrompt}
+            onChange={(e) => setSystemPrompt(e.target.value)}
+            maxLength={8000}
+            rows={6}
+            placeholder="e.g. You review TypeScript code and point out bugs."
+            className="border rounded px-2 py-1"
+          />
+        </label>
+        <div className="flex gap-3">
+          <label className="flex flex-col gap-1 text-sm flex-1">
+            Model
+            <select value={model} onChange={(e) => setModel(e.target.value)} className="border rounded px-2 py-1">
+              <option value="">Default</option>
+              {models.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.displayName}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm w-32">
+            Temperature
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(e.target.value)}
+              placeholder="Default"
+              className="border rounded px-2 py-1"
+            />
+          </label>
+        </div>
+        <div className="flex flex-col gap-1 text-sm">
+          Starter prompts
+          {starters.map((starter, i) => (
+            <input
+              key={i}
+              value={starter}
+              onChange={(e) => setStarters((prev) => prev.map((s, j) => (j === i ? e.target.value : s)))}
+              maxLength={200}
+              className="border rounded px-2 py-1"
+            />
+          ))}
+        </div>
+        {canPublish && (
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+            Share with everyone
+          </label>
+        )}
+
+        <div className="flex justify-between gap-2 mt-2">
+          {assistant ? (
+            <button className="px-3 py-1 text-sm rounded text-red-600 hover:bg-gray-100" onClick={remove} disabled={busy}>
+              Delete
+            </button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <button className="px-3 py-1 text-sm rounded border border-gray-300 hover:bg-gray-100" onClick={onClose} disabled={busy}>
+              Cancel
+            </button>
+            <button
+              className="px-3 py-1 text-sm rounded text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              onClick={save}
+              disabled={busy || !name.trim()}
+            >
+              {busy ? 'Saving…' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssistantDialog;
@@ -0,0 +1,47 @@
+// Mirrors `AttachmentSummary` in backend/src/attachments/attachments.service.ts
+export type AttachmentInfo = {
+  id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface AttachmentChipProps {
+  attachment: AttachmentInfo;
+  onOpen?: (attachment: AttachmentInfo) => void;
+  onRemove?: (attachment: AttachmentInfo) => void;
+}
+
+const AttachmentChip = ({ attachment, onOpen, onRemove }: AttachmentChipProps) => (
+  <span className="inline-flex items-center gap-1 max-w-xs border rounded-full bg-white px-2 py-0.5 text-xs text-gray-700">
+    <span>📄</span>
+    <button
+      type="button"
+      onClick={() => onOpen?.(attachment)}
+      disabled={!onOpen}
+      className="truncate hover:underline disabled:no-underline"
+      title={attachment.name}
+    >
+      {attachment.name}
+    </button>
+    <span className="text-gray-400">{formatSize(attachment.size)}</span>
+    {onRemove && (
+      <button
+        type="button"
+        onClick={() => onRemove(attachment)}
+        className="text-gray-400 hover:text-gray-700"
+        title="Remove attachment"
+      >
+        ×
+      </button>
+    )}
+  </span>
+);
+
+export default AttachmentChip;
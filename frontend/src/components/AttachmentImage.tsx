@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import type { AttachmentInfo } from './AttachmentChip';
+import { getAttachmentImage, primeAttachmentImage } from '../lib/attachmentImages';
+
+interface AttachmentImageProps {
+  attachment: AttachmentInfo;
+  // Fetches the file with the user's credentials; <img src> can't send them
+  load: (attachment: AttachmentInfo) => Promise<Blob>;
+  onOpen?: (attachment: AttachmentInfo) => void;
+  onRemove?: (attachment: AttachmentInfo) => void;
+}
+
+const AttachmentImage = ({ attachment, load, onOpen, onRemove }: AttachmentImageProps) => {
+  const [url, setUrl] = useState(() => getAttachmentImage(attachment.id));
+
+  useEffect(() => {
+    if (url) return;
+    let cancelled = false;
+    load(attachment)
+      .then((blob) => {
+        const objectUrl = primeAttachmentImage(attachment.id, blob);
+        if (!cancelled) setUrl(objectUrl);
+      })
+      .catch((err) => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, load, url]);
+
+  return (
+    <span className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => onOpen?.(attachment)}
+        disabled={!onOpen}
+        className="block h-24 w-24 overflow-hidden rounded-lg border bg-gray-100"
+        title={attachment.name}
+      >
+        {url && <img src={url} alt={attachment.name} className="h-full w-full object-cover" />}
+      </button>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={() => onRemove(attachment)}
+          className="absolute -right-1 -top-1 h-5 w-5 rounded-full bg-gray-700 text-xs text-white hover:bg-gray-900"
+          title="Remove image"
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default AttachmentImage;
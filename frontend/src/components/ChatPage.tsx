@@ -1,26 +1,141 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { useAuth } from '../auth/AuthProvider';
 import { supabase } from '../lib/supabaseClient';
-import { Link } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import ChatSidebar from './ChatSidebar';
 import type { ChatSummary } from './ChatSidebar';
 import { useToast } from './ToastProvider';
+import AttachmentChip from './AttachmentChip';
+import type { AttachmentInfo } from './AttachmentChip';
+import AttachmentImage from './AttachmentImage';
+import { primeAttachmentImage } from '../lib/attachmentImages';
+import { readChatStream } from '../lib/chatStream';
+import type { ChatStreamEvent } from '../lib/chatStream';
+import { branchKey, buildThread, choiceFor } from '../lib/messageTree';
+import SearchDialog from './SearchDialog';
+import type { UserSettings } from './SettingsPage';
+import AssistantDialog from './AssistantDialog';
+import AdvancedPanel from './AdvancedPanel';
+import ToolSteps from './ToolSteps';
+import CodeRunOutput from './CodeRunOutput';
+import type { ToolStep } from './ToolSteps';
+import SourceList from './SourceList';
+import { CITATION_HREF, linkCitations } from '../lib/knowledge';
+import type { KnowledgeCollection, KnowledgeSource } from '../lib/knowledge';
+import { supportedParams } from '../lib/generationParams';
+import type { GenerationParams } from '../lib/generationParams';
+import type { Assistant } from './AssistantDialog';
+import type { BranchChoice } from '../lib/messageTree';
 
 export type ChatMessage = {
+  id?: number;
+  // Local identity in the message tree: the stored id once known, else a temporary key
+  key: string;
+  parentKey: string | null;
   role: 'user' | 'assistant';
   content: string;
+  interrupted?: boolean;
+  attachments?: AttachmentInfo[];
+  // The model no longer sees the messages up to this one as they are
+  contextCut?: 'summarized' | 'truncated';
+  // Tools the assistant used before answering
+  toolSteps?: ToolStep[];
+  // Knowledge base excerpts the answer was given and may cite
+  sources?: KnowledgeSource[];
+};
+
+// Mirrors `StoredMessage` in backend/src/chat/chat.service.ts
+type StoredMessage = {
+  id: number;
+  parent_id: number | null;
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  interrupted: boolean;
+  attachments?: AttachmentInfo[];
+  summarized: boolean;
+  tool_call: Omit<ToolStep, 'result'> | null;
+  sources: KnowledgeSource[] | null;
+};
+
+export type ModelOption = {
+  id: string;
+  displayName: string;
+  contextWindow: number;
+  maxOutputTokens: number | null;
+  capabilities: {
+    streaming: boolean;
+    vision: boolean;
+    tools: boolean;
+    sampling: boolean;
+    reasoning: boolean;
+    jsonMode: boolean;
+  };
 };
 
 const backendUrl = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3000/api';
 
+// How many times we try to reconnect to a generation after a network drop
+const MAX_RESUME_ATTEMPTS = 3;
+
+// File types the backend can extract text from (see backend/src/attachments)
+const ACCEPTED_FILES = [
+  '.txt', '.md', '.markdown', '.csv', '.tsv', '.json', '.yaml', '.yml', '.xml', '.toml', '.log',
+  '.html', '.css', '.js', '.jsx', '.ts', '.tsx', '.py', '.rb', '.php', '.java', '.kt', '.swift',
+  '.go', '.rs', '.c', '.h', '.cpp', '.hpp', '.cs', '.sh', '.sql', '.pdf', '.docx', 'text/*',
+  '.png', '.jpg', '.jpeg', '.gif', '.webp',
+].join(',');
+
+const isImage = (attachment: AttachmentInfo) => attachment.mime_type.startsWith('image/');
+
+let localKeySeq = 0;
+const newLocalKey = () => `local-${++localKeySeq}`;
+
 const ChatPage = () => {
   const { user, signOut } = useAuth();
   const addToast = useToast();
+  // Every message of the chat (all branches); `thread` is the branch on screen
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [branchChoice, setBranchChoice] = useState<BranchChoice>({});
+
+  // User message being edited in place (its key) and the draft text
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  // Uploaded files waiting to be sent with the next message
+  const [pendingAttachments, setPendingAttachments] = useState<AttachmentInfo[]>([]);
+  const [uploadCount, setUploadCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Search dialog, and the message a search result jumped to (its key)
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [model, setModel] = useState<'gpt-4o' | 'o3'>('gpt-4o');
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [model, setModel] = useState<string | undefined>(undefined);
+
+  // Whether the user wrote custom instructions, and if the next new chat uses them
+  const [hasInstructions, setHasInstructions] = useState(false);
+  const [useInstructions, setUseInstructions] = useState(true);
+
+  // Assistants to start chats from, the one of the chat on screen, and the one
+  // in the editor (`null` for a new one, `undefined` when it is closed)
+  const [assistants, setAssistants] = useState<Assistant[]>([]);
+  const [canPublish, setCanPublish] = useState(false);
+  const [assistantListVersion, setAssistantListVersion] = useState(0);
+  const [assistant, setAssistant] = useState<Assistant | null>(null);
+  const [editingAssistant, setEditingAssistant] = useState<Assistant | null | undefined>(undefined);
+
+  // Generation parameters of the chat; saved with it on the next message
+  const [params, setParams] = useState<GenerationParams>({});
+  const [advancedOpen, setAdvancedOpen] = useState(false);
+
+  // Knowledge base collections, the one the next new chat answers from, and
+  // the source expanded under an answer after a click on its citation
+  const [collections, setCollections] = useState<KnowledgeCollection[]>([]);
+  const [knowledgeCollection, setKnowledgeCollection] = useState<string | null>(null);
+  const [activeSource, setActiveSource] = useState<{ key: string; index: number } | null>(null);
 
   // Increment this to tell the sidebar to refresh its chat list
   const [chatListVersion, setChatListVersion] = useState(0);
@@ -30,22 +145,307 @@ const ChatPage = () => {
 
   const bottomRef = useRef<HTMLDivElement | null>(null);
 
+  // Aborting this cancels the in-flight request; the generation id lets us
+  // cancel it server side and resume it after a network drop
+  const abortRef = useRef<AbortController | null>(null);
+  const generationRef = useRef<string | null>(null);
+
+  const thread = buildThread(messages, branchChoice);
+  // Where the model's view of this branch starts, if it was cut
+  const contextCutIndex = thread.reduce((found, { message }, i) => (message.contextCut ? i : found), -1);
+
   // Helper to determine if conversation is empty
   const isConversationEmpty = messages.length === 0;
 
-  // Scroll to bottom whenever messages change
+  // Load the models this user may pick from (the list depends on their role)
+  useEffect(() => {
+    const fetchModels = async () => {
+      try {
+        const headers: Record<string, string> = {};
+        if (user) {
+          const token = await getAccessToken();
+          if (token) headers.Authorization = `Bearer ${token}`;
+        }
+        const res = await fetch(`${backendUrl}/chat/models`, { headers });
+        if (!res.ok) throw new Error(`Failed to fetch models: ${res.status}`);
+        const data: { models: ModelOption[]; defaultModel: string | null } = await res.json();
+        setModels(data.models);
+        setModel((prev) =>
+          prev && data.models.some((m) => m.id === prev) ? prev : data.defaultModel ?? undefined,
+        );
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    fetchModels();
+  }, [user]);
+
+  // Only offer the per-chat toggle to users who wrote instructions
   useEffect(() => {
+    if (!user) {
+      setHasInstructions(false);
+      return;
+    }
+    const fetchSettings = async () => {
+      try {
+        const token = await getAccessToken();
+        const res = await fetch(`${backendUrl}/settings`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error(`Failed to fetch settings: ${res.status}`);
+        const data: { settings: UserSettings } = await res.json();
+        setHasInstructions(data.settings.customInstructions !== '');
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    fetchSettings();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setAssistants([]);
+      return;
+    }
+    const fetchAssistants = async () => {
+      try {
+        const token = await getAccessToken();
+        const res = await fetch(`${backendUrl}/assistants`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error(`Failed to fetch assistants: ${res.status}`);
+        const data: { assistants: Assistant[]; canPublish: boolean } = await res.json();
+        setAssistants(data.assistants);
+        setCanPublish(data.canPublish);
+        // Pick up edits of the assistant on screen
+        setAssistant((prev) => (prev && data.assistants.find((a) => a.id === prev.id)) ?? null);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    fetchAssistants();
+  }, [user, assistantListVersion]);
+
+  useEffect(() => {
+    if (!user) {
+      setCollections([]);
+      return;
+    }
+    const fetchCollections = async () => {
+      try {
+        const token = await getAccessToken();
+        const res = await fetch(`${backendUrl}/knowledge/collections`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error(`Failed to fetch collections: ${res.status}`);
+        const data: { collections: KnowledgeCollection[] } = await res.json();
+        setCollections(data.collections);
+      } catch (err) {
+        console.error(err);
+      }
+    };
+    fetchCollections();
+  }, [user]);
+
+  // Scroll to bottom whenever messages change, unless we jumped to a message
+  useEffect(() => {
+    if (jumpTarget) return;
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, jumpTarget]);
+
+  // Bring the message a search result points at into view, then let it go
+  useEffect(() => {
+    if (!jumpTarget) return;
+    const element = document.getElementById(`message-${jumpTarget}`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setJumpTarget(null), 2000);
+    return () => clearTimeout(timer);
+  }, [jumpTarget, messages]);
+
+  const updateMessage = (key: string, patch: Partial<ChatMessage>) => {
+    setMessages((prev) => prev.map((m) => (m.key === key ? { ...m, ...patch } : m)));
+  };
+
+  const showBranch = (message: ChatMessage) => {
+    setBranchChoice((prev) => ({ ...prev, [branchKey(message.parentKey)]: message.key }));
+  };
+
+  const canSend = (input.trim() !== '' || pendingAttachments.length > 0) && uploadCount === 0;
 
   const sendMessage = async () => {
-    if (!input.trim()) return;
+    if (!canSend || isLoading) return;
+
+    const selectedModel = models.find((m) => m.id === model);
+    if (selectedModel && !selectedModel.capabilities.vision && pendingAttachments.some(isImage)) {
+      addToast(`${selectedModel.displayName} can't see images – pick another model`);
+      return;
+    }
 
-    const userMessage: ChatMessage = { role: 'user', content: input };
+    // The new turn continues the branch on screen
+    const parent = thread[thread.length - 1]?.message;
+    const userMessage: ChatMessage = {
+      key: newLocalKey(),
+      parentKey: parent?.key ?? null,
+      role: 'user',
+      content: input,
+      attachments: pendingAttachments,
+    };
     setMessages((prev) => [...prev, userMessage]);
+    showBranch(userMessage);
     setInput('');
+    setPendingAttachments([]);
+
+    // The server keeps the history of saved chats; guests send theirs along
+    const history = currentChat ? [] : thread.map(({ message }) => message);
+    const body = {
+      messages: [...history, userMessage].map(({ role, content }) => ({ role, content })),
+      model,
+      params: requestParams(),
+      chatId: currentChat?.id,
+      parentId: currentChat ? parent?.id ?? null : undefined,
+      attachmentIds: userMessage.attachments?.map((a) => a.id),
+      useCustomInstructions: currentChat || !user ? undefined : useInstructions,
+      assistantId: currentChat ? undefined : assistant?.id,
+      knowledgeCollectionId: currentChat ? undefined : knowledgeCollection ?? undefined,
+    };
+
+    await runStream(`${backendUrl}/chat/stream`, body, userMessage);
+  };
+
+  /**
+   * Fork the conversation at a past user message: the edit becomes a sibling
+   * of the original so the original branch stays reachable.
+   */
+  const submitEdit = async (original: ChatMessage) => {
+    const content = editDraft;
+    if (!content.trim() || isLoading) return;
+    setEditingKey(null);
+
+    const userMessage: ChatMessage = {
+      key: newLocalKey(),
+      parentKey: original.parentKey,
+      role: 'user',
+      content,
+      // The server carries the original's attachments over to the edit
+      attachments: original.attachments,
+    };
+    setMessages((prev) => [...prev, userMessage]);
+    showBranch(userMessage);
+
+    if (currentChat && original.id !== undefined) {
+      await runStream(
+        `${backendUrl}/chat/${currentChat.id}/messages/${original.id}/edit`,
+        { content, model, params: requestParams() },
+        userMessage,
+      );
+      return;
+    }
+
+    // Guests resend the thread up to the edited message
+    const position = thread.findIndex(({ message }) => message.key === original.key);
+    const history = thread.slice(0, position).map(({ message }) => message);
+    await runStream(
+      `${backendUrl}/chat/stream`,
+      {
+        messages: [...history, userMessage].map(({ role, content }) => ({ role, content })),
+        model,
+        params: requestParams(),
+      },
+      userMessage,
+    );
+  };
+
+  const regenerate = async (message: ChatMessage) => {
+    if (!currentChat || message.id === undefined || isLoading) return;
+
+    await runStream(
+      `${backendUrl}/chat/${currentChat.id}/messages/${message.id}/regenerate`,
+      { model, params: requestParams() },
+      null,
+      message.parentKey,
+    );
+  };
+
+  /**
+   * POST a streaming request and fill a new assistant message (a child of
+   * `userMessage`, or of `parentKey` when regenerating) as events arrive.
+   */
+  const runStream = async (
+    url: string,
+    payload: unknown,
+    userMessage: ChatMessage | null,
+    parentKey: string | null = userMessage?.key ?? null,
+  ) => {
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Placeholder assistant message we will fill as we stream
+    const assistantMessage: ChatMessage = { key: newLocalKey(), parentKey, role: 'assistant', content: '' };
+
+    // What we need to resume the generation if the connection drops
+    let streamChatId = currentChat?.id ?? null;
+    let lastEventId = 0;
+    let finished = false;
+    let rejection: string | undefined;
+
+    const handleEvent = (event: ChatStreamEvent) => {
+      if (event.type === 'meta') {
+        generationRef.current = event.generationId;
+        streamChatId = event.chatId;
+
+        // Attach the stored ids and adopt the chat the server just created
+        if (userMessage) updateMessage(userMessage.key, { id: event.userMessageId ?? undefined });
+        updateMessage(assistantMessage.key, { id: event.assistantMessageId ?? undefined });
+        if (!currentChat && event.chatId && userMessage) {
+          setCurrentChat({
+            id: event.chatId,
+            title: userMessage.content.slice(0, 25),
+            created_at: new Date().toISOString(),
+            use_custom_instructions: useInstructions,
+            assistant_id: assistant?.id ?? null,
+            knowledge_collection_id: knowledgeCollection,
+          });
+          setChatListVersion((v) => v + 1);
+        }
+      } else if (event.type === 'context') {
+        // The context starts like the thread shown when the request was sent
+        const last = thread[event.omitted - 1]?.message;
+        if (last) updateMessage(last.key, { contextCut: event.mode });
+      } else if (event.type === 'sources') {
+        updateMessage(assistantMessage.key, { sources: event.sources });
+      } else if (event.type === 'delta') {
+        // Update assistant message incrementally
+        setMessages((prev) =>
+          prev.map((m) => (m.key === assistantMessage.key ? { ...m, content: m.content + event.content } : m)),
+        );
+      } else if (event.type === 'tool_call') {
+        const step: ToolStep = { id: event.id, name: event.name, arguments: event.arguments };
+        setMessages((prev) =>
+          prev.map((m) => (m.key === assistantMessage.key ? { ...m, toolSteps: [...(m.toolSteps ?? []), step] } : m)),
+        );
+      } else if (event.type === 'tool_result') {
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.key === assistantMessage.key
+              ? { ...m, toolSteps: m.toolSteps?.map((s) => (s.id === event.id ? { ...s, result: event.content } : s)) }
+              : m,
+          ),
+        );
+      } else if (event.type === 'title') {
+        // The server named the chat this turn created
+        setCurrentChat((prev) => (prev?.id === event.chatId ? { ...prev, title: event.title } : prev));
+        setChatListVersion((v) => v + 1);
+      } else if (event.type === 'error') {
+        addToast(event.message || 'Failed to get response');
+        finished = true;
+      } else if (event.type === 'done') {
+        finished = true;
+      }
+    };
+
     try {
       // Build headers (including optional JWT)
       const headers: Record<string, string> = {
@@ -58,84 +458,321 @@ const ChatPage = () => {
       }
 
       // Initiate streaming request
-      const res = await fetch(`${backendUrl}/chat/stream`, {
+      const res = await fetch(url, {
         method: 'POST',
         headers,
-        body: JSON.stringify({ messages: [...messages, userMessage], model, chatId: currentChat?.id }),
+        body: JSON.stringify(payload),
+        signal: controller.signal,
       });
 
       if (!res.ok || !res.body) {
+        // Rejected requests (e.g. images for a text-only model) explain why
+        const error = await res.json().catch(() => null);
+        rejection = typeof error?.message === 'string' ? error.message : undefined;
         throw new Error(`Error: ${res.status}`);
       }
 
-      // Add a placeholder assistant message we will fill as we stream
-      let assistantIndex = -1;
-      setMessages((prev) => {
-        assistantIndex = prev.length;
-        return [...prev, { role: 'assistant', content: '' }];
-      });
-
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder('utf-8');
-      let buffer = '';
+      setMessages((prev) => [...prev, assistantMessage]);
+      showBranch(assistantMessage);
 
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
+      let body: ReadableStream<Uint8Array> = res.body;
+      for (let attempt = 0; ; attempt++) {
+        try {
+          for await (const frame of readChatStream(body)) {
+            if (frame.id !== null) lastEventId = frame.id;
+            handleEvent(frame.event);
+            if (finished) break;
+          }
+          if (finished) break;
+          throw new Error('Stream closed before completion');
+        } catch (err) {
+          // A user stop is final
+          const generationId = generationRef.current;
+          if (controller.signal.aborted || !generationId || attempt >= MAX_RESUME_ATTEMPTS) {
+            throw err;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+          body = await resumeStream(streamChatId, generationId, lastEventId, controller.signal);
+        }
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Stopped by the user: the server keeps the partial answer flagged as interrupted
+        setMessages((prev) => {
+          const existing = prev.find((m) => m.key === assistantMessage.key);
+          if (!existing) return prev;
+          if (!existing.content) return prev.filter((m) => m !== existing);
+          return prev.map((m) => (m === existing ? { ...m, interrupted: true } : m));
+        });
+      } else {
+        console.error(err);
+        addToast(rejection ?? 'Failed to get response');
+      }
+    } finally {
+      abortRef.current = null;
+      generationRef.current = null;
+      setIsLoading(false);
+    }
+  };
 
-        buffer += decoder.decode(value, { stream: true });
+  /**
+   * Reconnect to a generation after a network drop, asking only for the events
+   * after the last one we received. Guests' generations have no chat.
+   */
+  const resumeStream = async (
+    chatId: string | null,
+    generationId: string,
+    lastEventId: number,
+    signal: AbortSignal,
+  ) => {
+    const headers: Record<string, string> = {
+      Accept: 'text/event-stream',
+      'Last-Event-ID': String(lastEventId),
+    };
+    if (user) {
+      const token = await getAccessToken();
+      if (token) headers.Authorization = `Bearer ${token}`;
+    }
+    const path = chatId ? `chat/${chatId}/generations` : 'chat/generations';
+    const res = await fetch(`${backendUrl}/${path}/${generationId}/stream`, { headers, signal });
+    if (!res.ok || !res.body) {
+      throw new Error(`Failed to resume stream: ${res.status}`);
+    }
+    return res.body;
+  };
 
-        // Split on double newlines which mark SSE event boundaries
-        const parts = buffer.split('\n\n');
-        buffer = parts.pop() || '';
+  const stopGeneration = async () => {
+    const generationId = generationRef.current;
+    abortRef.current?.abort();
 
-        for (const part of parts) {
-          if (!part.startsWith('data:')) continue;
-          const data = part.replace(/^data:/, '');
+    // Tell the server explicitly; a plain disconnect would leave the generation
+    // running for a while in case we come back.
+    if (!generationId) return;
+    try {
+      const headers: Record<string, string> = {};
+      if (user) {
+        const token = await getAccessToken();
+        if (token) headers.Authorization = `Bearer ${token}`;
+      }
+      await fetch(`${backendUrl}/chat/generations/${generationId}/cancel`, { method: 'POST', headers });
+    } catch (err) {
+      console.error(err);
+    }
+  };
 
-          if (data === '[DONE]') {
-            break;
-          }
+  const openFilePicker = () => {
+    if (!user) {
+      addToast('Log in to attach files');
+      return;
+    }
+    fileInputRef.current?.click();
+  };
 
-          // Update assistant message incrementally
-          setMessages((prev) => {
-            const next = [...prev];
-            const existing = next[assistantIndex];
-            if (existing && existing.role === 'assistant') {
-              const decoded = data.replace(/\\n/g, '\n');
-              next[assistantIndex] = { ...existing, content: existing.content + decoded };
-            }
-            return next;
-          });
-        }
-      }
+  const uploadFiles = async (files: File[]) => {
+    const token = await getAccessToken();
 
-      // If this was a brand-new conversation (no chatId yet), fetch latest chats to obtain the newly created chat id
-      if (!currentChat && user) {
+    await Promise.all(
+      files.map(async (file) => {
+        setUploadCount((n) => n + 1);
         try {
-          const token = await getAccessToken();
-          const resChats = await fetch(`${backendUrl}/chat`, {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
+          const form = new FormData();
+          form.append('file', file);
+          const res = await fetch(`${backendUrl}/chat/attachments`, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${token}` },
+            body: form,
           });
-          if (resChats.ok) {
-            const data = await resChats.json();
-            if (data.chats && data.chats.length > 0) {
-              const newest = data.chats[0]; // chats are ordered newest first by backend
-              setCurrentChat(newest);
-              setChatListVersion((v) => v + 1);
-            }
+          if (!res.ok) {
+            const error = await res.json().catch(() => null);
+            throw new Error(error?.message ?? `Upload failed: ${res.status}`);
           }
+          const data: { attachment: AttachmentInfo } = await res.json();
+          if (isImage(data.attachment)) primeAttachmentImage(data.attachment.id, file);
+          setPendingAttachments((prev) => [...prev, data.attachment]);
         } catch (err) {
-          console.error('Failed to refresh chat list', err);
+          console.error(err);
+          addToast(`${file.name}: ${err instanceof Error ? err.message : 'upload failed'}`);
+        } finally {
+          setUploadCount((n) => n - 1);
+        }
+      }),
+    );
+  };
+
+  // Stable so thumbnails don't refetch on every render
+  const fetchAttachment = useCallback(async (attachment: AttachmentInfo) => {
+    const { data } = await supabase.auth.getSession();
+    const res = await fetch(`${backendUrl}/chat/attachments/${attachment.id}`, {
+      headers: { Authorization: `Bearer ${data.session?.access_token}` },
+    });
+    if (!res.ok) throw new Error(`Failed to fetch attachment: ${res.status}`);
+    return res.blob();
+  }, []);
+
+  const openAttachment = async (attachment: AttachmentInfo) => {
+    try {
+      const url = URL.createObjectURL(await fetchAttachment(attachment));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to open attachment');
+    }
+  };
+
+  /**
+   * Show a saved chat. With `jumpTo`, switch to the branch holding that
+   * message and scroll to it.
+   */
+  const openChat = async (chat: ChatSummary, jumpTo?: number) => {
+    setCurrentChat(chat);
+    applyAssistant(assistants.find((a) => a.id === chat.assistant_id) ?? null);
+    setParams(chat.generation_params ?? {});
+    setMessages([]);
+    setBranchChoice({});
+    setEditingKey(null);
+    setJumpTarget(null);
+    setActiveSource(null);
+
+    try {
+      const token = await getAccessToken();
+      const res = await fetch(`${backendUrl}/chat/${chat.id}/messages`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error(`Failed to fetch messages: ${res.status}`);
+      const data: { messages: StoredMessage[] } = await res.json();
+      const byId = new Map(data.messages.map((m) => [m.id, m]));
+
+      // Tool calls sit between a user turn and the answer; show them on the answer
+      const mapped: ChatMessage[] = [];
+      for (const m of data.messages) {
+        if (m.role === 'tool') continue;
+
+        const toolSteps: ToolStep[] = [];
+        let parent = m.parent_id === null ? undefined : byId.get(m.parent_id);
+        while (parent?.role === 'tool' && parent.tool_call) {
+          toolSteps.unshift({ ...parent.tool_call, result: parent.content });
+          parent = parent.parent_id === null ? undefined : byId.get(parent.parent_id);
         }
+
+        mapped.push({
+          id: m.id,
+          key: String(m.id),
+          parentKey: parent ? String(parent.id) : null,
+          role: m.role,
+          content: m.content,
+          interrupted: m.interrupted,
+          attachments: m.attachments ?? [],
+          contextCut: m.summarized ? 'summarized' : undefined,
+          toolSteps: toolSteps.length ? toolSteps : undefined,
+          sources: m.sources ?? undefined,
+        });
+      }
+      setMessages(mapped);
+
+      if (jumpTo !== undefined) {
+        setBranchChoice(choiceFor(mapped, String(jumpTo)));
+        setJumpTarget(String(jumpTo));
       }
     } catch (err) {
       console.error(err);
-      addToast('Failed to get response');
-    } finally {
-      setIsLoading(false);
+    }
+  };
+
+  // Open the chat another page sent us to, e.g. one continued from a share link
+  const location = useLocation();
+  const navigate = useNavigate();
+  const openChatRef = useRef(openChat);
+  openChatRef.current = openChat;
+  useEffect(() => {
+    const chat = (location.state as { openChat?: ChatSummary } | null)?.openChat;
+    if (!chat) return;
+    openChatRef.current(chat);
+    setChatListVersion((v) => v + 1);
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location.state, location.pathname, navigate]);
+
+  const openSearch = () => {
+    if (!user) {
+      addToast('Log in to search your chats');
+      return;
+    }
+    setSearchOpen(true);
+  };
+
+  // Switch to the assistant's model, if the user may pick it
+  const applyAssistant = (next: Assistant | null) => {
+    setAssistant(next);
+    if (next?.model && models.some((m) => m.id === next.model)) setModel(next.model);
+  };
+
+  const startChat = (next: Assistant | null) => {
+    setCurrentChat(null);
+    setMessages([]);
+    setBranchChoice({});
+    setEditingKey(null);
+    setUseInstructions(true);
+    setKnowledgeCollection(null);
+    setActiveSource(null);
+    setParams({});
+    applyAssistant(next);
+  };
+
+  // Parameters the selected model does not take stay in the panel but are not sent
+  const requestParams = () => supportedParams(params, models.find((m) => m.id === model));
+
+  // Saved chats remember the choice; a new chat sends it with its first message
+  const toggleInstructions = async (enabled: boolean) => {
+    if (!currentChat) {
+      setUseInstructions(enabled);
+      return;
+    }
+    try {
+      const token = await getAccessToken();
+      const res = await fetch(`${backendUrl}/chat/${currentChat.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ useCustomInstructions: enabled }),
+      });
+      if (!res.ok) throw new Error(`Failed to update chat: ${res.status}`);
+      setCurrentChat({ ...currentChat, use_custom_instructions: enabled });
+      setChatListVersion((v) => v + 1);
+    } catch (err) {
+      console.error(err);
+      addToast('Could not change custom instructions for this chat');
+    }
+  };
+
+  // Like custom instructions: saved chats are updated, a new chat sends it
+  const changeKnowledgeCollection = async (collectionId: string | null) => {
+    if (!currentChat) {
+      setKnowledgeCollection(collectionId);
+      return;
+    }
+    try {
+      const token = await getAccessToken();
+      const res = await fetch(`${backendUrl}/chat/${currentChat.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ knowledgeCollectionId: collectionId }),
+      });
+      if (!res.ok) throw new Error(`Failed to update chat: ${res.status}`);
+      setCurrentChat({ ...currentChat, knowledge_collection_id: collectionId });
+      setChatListVersion((v) => v + 1);
+    } catch (err) {
+      console.error(err);
+      addToast('Could not change the knowledge base of this chat');
     }
   };
 
@@ -144,6 +781,29 @@ const ChatPage = () => {
     return data.session?.access_token;
   };
 
+  // Pasted screenshots are uploaded like picked files
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const images = Array.from(e.clipboardData.files).filter((f) => f.type.startsWith('image/'));
+    if (!images.length) return;
+    e.preventDefault();
+    if (!user) {
+      addToast('Log in to attach files');
+      return;
+    }
+    uploadFiles(images);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const files = Array.from(e.dataTransfer.files);
+    if (!files.length) return;
+    e.preventDefault();
+    if (!user) {
+      addToast('Log in to attach files');
+      return;
+    }
+    uploadFiles(files);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -154,15 +814,47 @@ const ChatPage = () => {
   // Extracted input area so we can reuse it in two places (center/ footer)
   type InputVariant = 'center' | 'footer';
 
+  // Images as thumbnails, other files as chips
+  const renderAttachment = (attachment: AttachmentInfo, onRemove?: (attachment: AttachmentInfo) => void) =>
+    isImage(attachment) ? (
+      <AttachmentImage
+        key={attachment.id}
+        attachment={attachment}
+        load={fetchAttachment}
+        onOpen={onRemove ? undefined : openAttachment}
+        onRemove={onRemove}
+      />
+    ) : (
+      <AttachmentChip
+        key={attachment.id}
+        attachment={attachment}
+        onOpen={onRemove ? undefined : openAttachment}
+        onRemove={onRemove}
+      />
+    );
+
+  const renderPendingAttachments = () =>
+    (pendingAttachments.length > 0 || uploadCount > 0) && (
+      <div className="flex flex-wrap items-center gap-2">
+        {pendingAttachments.map((a) =>
+          renderAttachment(a, (removed) => setPendingAttachments((prev) => prev.filter((p) => p.id !== removed.id))),
+        )}
+        {uploadCount > 0 && <span className="text-xs text-gray-500">Uploading…</span>}
+      </div>
+    );
+
   const renderInputArea = (variant: InputVariant = 'footer') => {
     if (variant === 'center') {
       return (
         <div className="w-full mx-auto max-w-3xl flex flex-col items-stretch gap-3">
+          {renderPendingAttachments()}
+
           {/* Textarea */}
           <textarea
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
             rows={1}
             placeholder="Ask anything"
             className="flex-1 resize-none border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -172,6 +864,7 @@ const ChatPage = () => {
           <div className="flex justify-start gap-4">
             <button
               type="button"
+              onClick={openFilePicker}
               className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-800 px-2"
               title="Attach"
             >
@@ -180,6 +873,7 @@ const ChatPage = () => {
             </button>
             <button
               type="button"
+              onClick={openSearch}
               className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-800 px-2"
               title="Search"
             >
@@ -193,10 +887,13 @@ const ChatPage = () => {
 
     // Footer variant (default)
     return (
-      <div className="w-full mx-auto max-w-xl flex items-stretch gap-2">
+      <div className="w-full mx-auto max-w-xl flex flex-col gap-2">
+      {renderPendingAttachments()}
+      <div className="flex items-stretch gap-2">
         {/* Attach / Search icons (compact) */}
         <button
           type="button"
+          onClick={openFilePicker}
           className="text-gray-500 hover:text-gray-700 px-1"
           title="Attach"
         >
@@ -204,6 +901,7 @@ const ChatPage = () => {
         </button>
         <button
           type="button"
+          onClick={openSearch}
           className="text-gray-500 hover:text-gray-700 px-1"
           title="Search"
         >
@@ -215,51 +913,82 @@ const ChatPage = () => {
           value={input}
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           rows={1}
           placeholder="Send a message"
           className="flex-1 resize-none border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
         />
 
-        {/* Send button */}
-        <button
-          onClick={sendMessage}
-          disabled={isLoading || !input.trim()}
-          className={`px-4 py-2 rounded text-white font-medium transition ${
-            isLoading || !input.trim() ? 'bg-gray-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
-          }`}
-        >
-          Send
-        </button>
+        {/* Send / Stop button */}
+        {isLoading ? (
+          <button
+            onClick={stopGeneration}
+            className="px-4 py-2 rounded text-white font-medium transition bg-gray-700 hover:bg-gray-800"
+            title="Stop generating"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={sendMessage}
+            disabled={!canSend}
+            className={`px-4 py-2 rounded text-white font-medium transition ${
+              !canSend ? 'bg-gray-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            Send
+          </button>
+        )}
+      </div>
       </div>
     );
   };
 
   return (
     <div className="flex h-screen">
+      {searchOpen && (
+        <SearchDialog
+          backendUrl={backendUrl}
+          onClose={() => setSearchOpen(false)}
+          onSelect={(result, messageId) => {
+            setSearchOpen(false);
+            openChat(
+              { id: result.chatId, title: result.title, created_at: result.createdAt },
+              messageId ?? undefined,
+            );
+          }}
+        />
+      )}
+      {editingAssistant !== undefined && (
+        <AssistantDialog
+          backendUrl={backendUrl}
+          assistant={editingAssistant}
+          models={models}
+          canPublish={canPublish}
+          onClose={() => setEditingAssistant(undefined)}
+          onChanged={() => setAssistantListVersion((v) => v + 1)}
+        />
+      )}
+
+      {/* Shared by both "Attach" buttons */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ACCEPTED_FILES}
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = '';
+          if (files.length) uploadFiles(files);
+        }}
+      />
       {/* Sidebar */}
       <ChatSidebar
         backendUrl={backendUrl}
         reloadKey={chatListVersion}
         selectedChatId={currentChat?.id}
-        onSelectChat={async (chat) => {
-          setCurrentChat(chat);
-          setMessages([]);
-
-          try {
-            const token = await getAccessToken();
-            const res = await fetch(`${backendUrl}/chat/${chat.id}/messages`, {
-              headers: {
-                Authorization: `Bearer ${token}`,
-              },
-            });
-            if (!res.ok) throw new Error(`Failed to fetch messages: ${res.status}`);
-            const data = await res.json();
-            const mapped: ChatMessage[] = data.messages.map((m: any) => ({ role: m.role, content: m.content }));
-            setMessages(mapped);
-          } catch (err) {
-            console.error(err);
-          }
-        }}
+        onSelectChat={(chat) => openChat(chat)}
         onChatDeleted={(id) => {
           if (currentChat?.id === id) {
             setCurrentChat(null);
@@ -267,10 +996,10 @@ const ChatPage = () => {
           }
           setChatListVersion((v) => v + 1);
         }}
-        onNewChat={() => {
-          setCurrentChat(null);
-          setMessages([]);
-        }}
+        onNewChat={() => startChat(null)}
+        assistants={user ? assistants : undefined}
+        onStartAssistant={(next) => startChat(next)}
+        onEditAssistant={setEditingAssistant}
         onChatRenamed={(chat) => {
           if (currentChat?.id === chat.id) {
             setCurrentChat(chat);
@@ -280,21 +1009,37 @@ const ChatPage = () => {
       />
 
       {/* Main panel */}
-      <div className="flex flex-col flex-1">
+      <div className="flex flex-col flex-1" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
       {/* Header */}
       <header className="flex items-center justify-between p-4 border-b border-gray-200">
         {/* Left: brand + (optional) model selector */}
         <div className="flex items-center gap-4">
           <div className="font-semibold text-lg">SafarGPT</div>
+          {assistant && (
+            <span className="text-sm bg-blue-50 text-blue-700 px-2 py-0.5 rounded" title={assistant.description ?? undefined}>
+              {assistant.name}
+            </span>
+          )}
           {user ? (
-            <select
-              value={model}
-              onChange={(e) => setModel(e.target.value as 'gpt-4o' | 'o3')}
-              className="border rounded px-2 py-1 text-sm"
-            >
-              <option value="gpt-4o">gpt-4o</option>
-              <option value="o3">o3</option>
-            </select>
+            <>
+              <select
+                value={model ?? ''}
+                onChange={(e) => setModel(e.target.value)}
+                className="border rounded px-2 py-1 text-sm"
+              >
+                {models.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.displayName}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setAdvancedOpen((open) => !open)}
+                className={`text-xs hover:underline ${advancedOpen ? 'text-gray-800' : 'text-blue-600'}`}
+              >
+                Advanced
+              </button>
+            </>
           ) : (
             <span className="text-xs text-gray-500">Not logged in – chats won’t be saved.</span>
           )}
@@ -303,7 +1048,37 @@ const ChatPage = () => {
         {/* Right: auth controls */}
         {user ? (
           <div className="flex items-center gap-2">
+            {collections.length > 0 && (
+              <select
+                value={(currentChat ? currentChat.knowledge_collection_id : knowledgeCollection) ?? ''}
+                onChange={(e) => changeKnowledgeCollection(e.target.value || null)}
+                className="border rounded px-2 py-1 text-xs text-gray-600"
+                title="Answer from the documents of a knowledge base"
+              >
+                <option value="">No knowledge base</option>
+                {collections.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {hasInstructions && (
+              <label
+                className="flex items-center gap-1 text-xs text-gray-600"
+                title="Send your custom instructions with this chat"
+              >
+                <input
+                  type="checkbox"
+                  checked={currentChat ? currentChat.use_custom_instructions !== false : useInstructions}
+                  onChange={(e) => toggleInstructions(e.target.checked)}
+                />
+                Custom instructions
+              </label>
+            )}
             <span className="text-sm text-gray-600">{user.email}</span>
+            <Link to="/knowledge" className="text-xs text-blue-600 hover:underline">Knowledge</Link>
+            <Link to="/settings" className="text-xs text-blue-600 hover:underline">Settings</Link>
             <button onClick={signOut} className="text-xs text-blue-600 hover:underline">Sign out</button>
           </div>
         ) : (
@@ -323,6 +1098,9 @@ const ChatPage = () => {
           </div>
         )}
       </header>
+      {user && advancedOpen && (
+        <AdvancedPanel model={models.find((m) => m.id === model)} params={params} onChange={setParams} />
+      )}
 
       {/* Messages / Empty state area */}
       <main
@@ -333,32 +1111,174 @@ const ChatPage = () => {
         {isConversationEmpty ? (
           // Centered state with brand heading and styled container
           <div className="m-auto w-full flex flex-col items-center gap-6">
-            <h1 className="text-4xl font-semibold">SafarGPT</h1>
+            <h1 className="text-4xl font-semibold">{assistant?.name ?? 'SafarGPT'}</h1>
+            {assistant?.description && <p className="text-gray-600 -mt-4">{assistant.description}</p>}
             <div className="w-full px-4">
               <div className="bg-gray-100 border rounded-xl p-6 shadow max-w-xl mx-auto">
                 {renderInputArea('center')}
               </div>
             </div>
+            {!!assistant?.starters.length && (
+              <div className="flex flex-wrap justify-center gap-2 max-w-xl px-4">
+                {assistant.starters.map((starter) => (
+                  <button
+                    key={starter}
+                    onClick={() => setInput(starter)}
+                    className="text-sm border rounded-full px-3 py-1 bg-white hover:bg-gray-100"
+                  >
+                    {starter}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         ) : (
           <>
-            {messages.map((msg, idx) => (
-              <div key={idx} className={`max-w-xl mx-auto mb-4 ${msg.role === 'user' ? 'text-right' : ''}`}>
+            {thread.map(({ message: msg, siblings, index }, position) => (
+              <div
+                key={msg.key}
+                id={`message-${msg.key}`}
+                className={`max-w-xl mx-auto mb-4 rounded-lg transition ${msg.role === 'user' ? 'text-right' : ''} ${
+                  jumpTarget === msg.key ? 'ring-2 ring-yellow-300 ring-offset-4' : ''
+                }`}
+              >
+                {editingKey === msg.key ? (
+                  <div className="flex flex-col gap-2">
+                    <textarea
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          submitEdit(msg);
+                        } else if (e.key === 'Escape') {
+                          setEditingKey(null);
+                        }
+                      }}
+                      rows={3}
+                      autoFocus
+                      className="w-full resize-none border rounded px-3 py-2 text-left focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <div className="flex justify-end gap-2 text-sm">
+                      <button onClick={() => setEditingKey(null)} className="px-3 py-1 rounded border hover:bg-gray-100">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => submitEdit(msg)}
+                        disabled={!editDraft.trim()}
+                        className="px-3 py-1 rounded text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300"
+                      >
+                        Send
+                      </button>
+                    </div>
+                  </div>
+                ) : (msg.content || msg.role === 'assistant') && (
+                  <div
+                    className={`inline-block px-4 py-2 rounded-lg ${
+                      msg.role === 'user'
+                        ? 'bg-blue-600 text-white whitespace-pre-wrap text-left'
+                        : 'bg-white border text-gray-800'
+                    }`}
+                  >
+                    {msg.toolSteps && <ToolSteps steps={msg.toolSteps.filter((step) => step.name !== 'run_code')} />}
+                    {msg.role === 'assistant' ? (
+                      <ReactMarkdown
+                        className="prose prose-slate dark:prose-invert max-w-none"
+                        components={{
+                          // Citations of the knowledge base open their source below
+                          a: ({ href, children }) =>
+                            href?.startsWith(CITATION_HREF) ? (
+                              <button
+                                onClick={() =>
+                                  setActiveSource({ key: msg.key, index: Number(href.slice(CITATION_HREF.length)) })
+                                }
+                                className="align-super text-xs text-blue-600 hover:underline"
+                              >
+                                [{children}]
+                              </button>
+                            ) : (
+                              <a href={href}>{children}</a>
+                            ),
+                        }}
+                      >
+                        {msg.content ? linkCitations(msg.content, msg.sources ?? []) : '...'}
+                      </ReactMarkdown>
+                    ) : (
+                      msg.content
+                    )}
+                  </div>
+                )}
+                {msg.sources && (
+                  <SourceList
+                    sources={msg.sources}
+                    active={activeSource?.key === msg.key ? activeSource.index : null}
+                    onSelect={(index) => setActiveSource(index === null ? null : { key: msg.key, index })}
+                  />
+                )}
+                {/* Code the assistant ran, with its output */}
+                {msg.toolSteps
+                  ?.filter((step) => step.name === 'run_code')
+                  .map((step) => <CodeRunOutput key={step.id} step={step} />)}
+                {msg.attachments && msg.attachments.length > 0 && (
+                  <div className={`mt-1 flex flex-wrap gap-1 ${msg.role === 'user' ? 'justify-end' : ''}`}>
+                    {msg.attachments.map((a) => renderAttachment(a))}
+                  </div>
+                )}
                 <div
-                  className={`inline-block px-4 py-2 rounded-lg ${
-                    msg.role === 'user'
-                      ? 'bg-blue-600 text-white whitespace-pre-wrap text-left'
-                      : 'bg-white border text-gray-800'
+                  className={`mt-1 flex items-center gap-2 text-xs text-gray-400 ${
+                    msg.role === 'user' ? 'justify-end' : ''
                   }`}
                 >
-                  {msg.role === 'assistant' ? (
-                    <ReactMarkdown className="prose prose-slate dark:prose-invert max-w-none">
-                      {msg.content ? msg.content : '...'}
-                    </ReactMarkdown>
-                  ) : (
-                    msg.content
+                  {msg.interrupted && <span>Stopped</span>}
+                  {/* Versions of this message, e.g. regenerated answers */}
+                  {siblings.length > 1 && (
+                    <span className="flex items-center gap-1">
+                      <button
+                        disabled={index === 0 || isLoading}
+                        onClick={() => setBranchChoice((prev) => ({ ...prev, [branchKey(msg.parentKey)]: siblings[index - 1] }))}
+                        className="hover:text-gray-700 disabled:opacity-40"
+                        title="Previous version"
+                      >
+                        ‹
+                      </button>
+                      <span>
+                        {index + 1}/{siblings.length}
+                      </span>
+                      <button
+                        disabled={index === siblings.length - 1 || isLoading}
+                        onClick={() => setBranchChoice((prev) => ({ ...prev, [branchKey(msg.parentKey)]: siblings[index + 1] }))}
+                        className="hover:text-gray-700 disabled:opacity-40"
+                        title="Next version"
+                      >
+                        ›
+                      </button>
+                    </span>
+                  )}
+                  {msg.role === 'user' && editingKey !== msg.key && (!currentChat || msg.id !== undefined) && !isLoading && (
+                    <button
+                      onClick={() => {
+                        setEditingKey(msg.key);
+                        setEditDraft(msg.content);
+                      }}
+                      className="hover:text-gray-700"
+                      title="Edit message"
+                    >
+                      ✎ Edit
+                    </button>
+                  )}
+                  {msg.role === 'assistant' && currentChat && msg.id !== undefined && !isLoading && (
+                    <button onClick={() => regenerate(msg)} className="hover:text-gray-700" title="Regenerate response">
+                      ↻ Regenerate
+                    </button>
                   )}
                 </div>
+                {position === contextCutIndex && (
+                  <div className="flex items-center gap-2 mt-4 text-xs text-gray-400 text-center">
+                    <span className="flex-1 border-t" />
+                    {msg.contextCut === 'summarized' ? 'Earlier messages summarized' : 'Earlier messages not sent to the model'}
+                    <span className="flex-1 border-t" />
+                  </div>
+                )}
               </div>
             ))}
             <div ref={bottomRef} />
@@ -3,11 +3,23 @@ import { useAuth } from '../auth/AuthProvider';
 import { supabase } from '../lib/supabaseClient';
 import SidebarToggleIcon from './icons/SidebarToggleIcon';
 import { useToast } from './ToastProvider';
+import type { Assistant } from './AssistantDialog';
+import type { GenerationParams } from '../lib/generationParams';
+import { EXPORT_FORMATS, downloadExport } from '../lib/chatExport';
+import type { ExportFormat } from '../lib/chatExport';
+import { shareUrl } from '../lib/share';
+import type { ChatShare } from '../lib/share';
 
 export interface ChatSummary {
   id: string;
   title: string | null;
   created_at: string;
+  // Whether the user's custom instructions are sent with this chat
+  use_custom_instructions?: boolean;
+  assistant_id?: string | null;
+  generation_params?: GenerationParams;
+  // Knowledge base collection the chat answers from
+  knowledge_collection_id?: string | null;
 }
 
 interface ChatSidebarProps {
@@ -18,13 +30,30 @@ interface ChatSidebarProps {
   onChatDeleted?: (chatId: string) => void;
   onChatRenamed?: (chat: ChatSummary) => void;
   onNewChat?: () => void;
+  assistants?: Assistant[];
+  onStartAssistant?: (assistant: Assistant) => void;
+  // `null` asks for a new assistant
+  onEditAssistant?: (assistant: Assistant | null) => void;
 }
 
-const ChatSidebar: React.FC<ChatSidebarProps> = ({ backendUrl, onSelectChat, selectedChatId, reloadKey, onChatDeleted, onChatRenamed, onNewChat }) => {
+const ChatSidebar: React.FC<ChatSidebarProps> = ({
+  backendUrl,
+  onSelectChat,
+  selectedChatId,
+  reloadKey,
+  onChatDeleted,
+  onChatRenamed,
+  onNewChat,
+  assistants,
+  onStartAssistant,
+  onEditAssistant,
+}) => {
   const { user } = useAuth();
   const [chats, setChats] = useState<ChatSummary[]>([]);
   const [loading, setLoading] = useState(false);
   const [menuOpenId, setMenuOpenId] = useState<string | null>(null);
+  // The open menu lists export formats instead of its actions
+  const [exportMenu, setExportMenu] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingValue, setEditingValue] = useState<string>('');
   const [deleteTarget, setDeleteTarget] = useState<ChatSummary | null>(null);
@@ -34,7 +63,10 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ backendUrl, onSelectChat, sel
 
   // Close dropdown when clicking outside
   useEffect(() => {
-    const handler = () => setMenuOpenId(null);
+    const handler = () => {
+      setMenuOpenId(null);
+      setExportMenu(false);
+    };
     window.addEventListener('click', handler);
     return () => window.removeEventListener('click', handler);
   }, []);
@@ -98,6 +130,42 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ backendUrl, onSelectChat, sel
     }
   };
 
+  const exportChat = async (chat: ChatSummary, format: ExportFormat) => {
+    setMenuOpenId(null);
+    setExportMenu(false);
+    try {
+      const token = await getAccessToken();
+      await downloadExport(`${backendUrl}/chat/${chat.id}/export?format=${format}`, token, `chat.${format}`);
+    } catch (err) {
+      console.error(err);
+      addToast('Export failed');
+    }
+  };
+
+  // A new link to the chat as it is now, copied to the clipboard
+  const shareChat = async (chat: ChatSummary) => {
+    setMenuOpenId(null);
+    try {
+      const token = await getAccessToken();
+      const res = await fetch(`${backendUrl}/chat/${chat.id}/share`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) throw new Error(`Failed to share chat: ${res.status}`);
+      const data: { share: ChatShare } = await res.json();
+      const url = shareUrl(data.share.token);
+      try {
+        await navigator.clipboard.writeText(url);
+        addToast('Share link copied to the clipboard');
+      } catch {
+        addToast(`Share link: ${url}`);
+      }
+    } catch (err) {
+      console.error(err);
+      addToast('Sharing failed');
+    }
+  };
+
   const openDeleteModal = (chat: ChatSummary) => {
     setDeleteTarget(chat);
     setMenuOpenId(null);
@@ -170,6 +238,42 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ backendUrl, onSelectChat, sel
         <span>New Chat</span>
       </button>
 
+      {/* Assistants start a new chat with their prompt and model */}
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-gray-700">Assistants</p>
+        <button
+          className="px-2 text-gray-500 hover:text-gray-700"
+          onClick={() => onEditAssistant?.(null)}
+          title="New assistant"
+        >
+          ＋
+        </button>
+      </div>
+      <ul className="mb-4 space-y-1">
+        {assistants?.map((assistant) => (
+          <li key={assistant.id} className="flex items-center">
+            <button
+              onClick={() => onStartAssistant?.(assistant)}
+              className="flex-1 text-left px-3 py-1 rounded hover:bg-gray-100 transition truncate text-sm"
+              title={assistant.description ?? undefined}
+            >
+              {assistant.name}
+              {assistant.shared && <span className="ml-1 text-xs text-gray-400">shared</span>}
+            </button>
+            {assistant.editable && (
+              <button
+                className="ml-1 px-2 text-gray-500 hover:text-gray-700"
+                onClick={() => onEditAssistant?.(assistant)}
+                title="Edit assistant"
+              >
+                ✎
+              </button>
+            )}
+          </li>
+        ))}
+        {assistants?.length === 0 && <p className="text-sm text-gray-500">No assistants yet.</p>}
+      </ul>
+
       <p className="mb-4 text-gray-700">Chats</p>
       {loading ? (
         <p>Loading…</p>
@@ -209,6 +313,7 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ backendUrl, onSelectChat, sel
                   onClick={(e) => {
                     e.stopPropagation();
                     setMenuOpenId((prev) => (prev === chat.id ? null : chat.id));
+                    setExportMenu(false);
                   }}
                   title="More options"
                 >
@@ -216,21 +321,47 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({ backendUrl, onSelectChat, sel
                 </button>
                 {menuOpenId === chat.id && (
                   <div
-                    className="absolute right-0 top-full mt-1 w-28 bg-white border rounded shadow-md z-10"
+                    className="absolute right-0 top-full mt-1 w-32 bg-white border rounded shadow-md z-10"
                     onClick={(e) => e.stopPropagation()}
                   >
-                    <button
-                      className="block w-full text-left px-3 py-2 hover:bg-gray-100"
-                      onClick={() => handleRename(chat)}
-                    >
-                      Rename
-                    </button>
-                    <button
-                      className="block w-full text-left px-3 py-2 text-red-600 hover:bg-gray-100"
-                      onClick={() => openDeleteModal(chat)}
-                    >
-                      Delete
-                    </button>
+                    {exportMenu ? (
+                      EXPORT_FORMATS.map(({ format, label }) => (
+                        <button
+                          key={format}
+                          className="block w-full text-left px-3 py-2 hover:bg-gray-100"
+                          onClick={() => exportChat(chat, format)}
+                        >
+                          {label}
+                        </button>
+                      ))
+                    ) : (
+                      <>
+                        <button
+                          className="block w-full text-left px-3 py-2 hover:bg-gray-100"
+                          onClick={() => handleRename(chat)}
+                        >
+                          Rename
+                        </button>
+                        <button
+                          className="block w-full text-left px-3 py-2 hover:bg-gray-100"
+                          onClick={() => shareChat(chat)}
+                        >
+                          Share
+                        </button>
+                        <button
+                          className="block w-full text-left px-3 py-2 hover:bg-gray-100"
+                          onClick={() => setExportMenu(true)}
+                        >
+                          Export…
+                        </button>
+                        <button
+                          className="block w-full text-left px-3 py-2 text-red-600 hover:bg-gray-100"
+                          onClick={() => openDeleteModal(chat)}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
                   </div>
                 )}
               </div>
@@ -0,0 +1,65 @@
+import type { ToolStep } from './ToolSteps';
+
+// Mirrors `SandboxResult` in backend/src/tools/sandbox/code-sandbox.ts
+type SandboxResult = {
+  exitCode: number | null;
+  timedOut: boolean;
+  stdout: string;
+  stderr: string;
+  files: { name: string; size: number; content?: string }[];
+};
+
+const parse = <T,>(text: string | undefined): T | null => {
+  if (text === undefined) return null;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+};
+
+/** Output block of a `run_code` call, shown under the answer. */
+const CodeRunOutput: React.FC<{ step: ToolStep }> = ({ step }) => {
+  const args = parse<{ language?: string; code?: string }>(step.arguments);
+  const result = parse<SandboxResult>(step.result);
+
+  let status = 'running…';
+  if (result) status = result.timedOut ? 'timed out' : `exit ${result.exitCode}`;
+  else if (step.result !== undefined) status = 'failed';
+
+  return (
+    <div className="mt-2 rounded-lg bg-gray-900 text-gray-100 text-xs font-mono text-left overflow-hidden">
+      <div className="flex justify-between px-3 py-1 bg-gray-800 text-gray-400">
+        <span>{args?.language ?? 'code'}</span>
+        <span className={result && (result.timedOut || result.exitCode !== 0) ? 'text-red-400' : ''}>{status}</span>
+      </div>
+      {args?.code && (
+        <details className="px-3 py-1 border-b border-gray-800">
+          <summary className="cursor-pointer text-gray-400">Code</summary>
+          <pre className="whitespace-pre-wrap break-words py-1">{args.code}</pre>
+        </details>
+      )}
+      {result ? (
+        <div className="px-3 py-2 flex flex-col gap-2">
+          {result.stdout && <pre className="whitespace-pre-wrap break-words">{result.stdout}</pre>}
+          {result.stderr && <pre className="whitespace-pre-wrap break-words text-red-300">{result.stderr}</pre>}
+          {!result.stdout && !result.stderr && <span className="text-gray-500">No output</span>}
+          {result.files.map((file) => (
+            <div key={file.name}>
+              <div className="text-gray-400">
+                {file.name} ({file.size} B)
+              </div>
+              {file.content !== undefined && (
+                <pre className="whitespace-pre-wrap break-words border-l-2 border-gray-700 pl-2">{file.content}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        step.result && <pre className="px-3 py-2 whitespace-pre-wrap break-words text-red-300">{step.result}</pre>
+      )}
+    </div>
+  );
+};
+
+export default CodeRunOutput;
@@ -0,0 +1,281 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../auth/AuthProvider';
+import { supabase } from '../lib/supabaseClient';
+import type { KnowledgeCollection, KnowledgeDocument } from '../lib/knowledge';
+import { useToast } from './ToastProvider';
+
+const backendUrl = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3000/api';
+
+// Documents the backend can extract text from (see backend/src/attachments)
+const ACCEPTED_DOCUMENTS = [
+  '.txt', '.md', '.markdown', '.csv', '.tsv', '.json', '.yaml', '.yml', '.xml', '.toml', '.log',
+  '.html', '.css', '.js', '.jsx', '.ts', '.tsx', '.py', '.rb', '.php', '.java', '.kt', '.swift',
+  '.go', '.rs', '.c', '.h', '.cpp', '.hpp', '.cs', '.sh', '.sql', '.pdf', '.docx', 'text/*',
+].join(',');
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const getAccessToken = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token;
+};
+
+/** Knowledge base: collections of documents chats can answer from. */
+const KnowledgePage = () => {
+  const { user } = useAuth();
+  const addToast = useToast();
+  const [collections, setCollections] = useState<KnowledgeCollection[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  // Increment this to refetch the documents of the selected collection
+  const [documentsVersion, setDocumentsVersion] = useState(0);
+  const [newName, setNewName] = useState('');
+  const [uploadCount, setUploadCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const selected = collections.find((c) => c.id === selectedId) ?? null;
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const token = await getAccessToken();
+    const res = await fetch(`${backendUrl}/knowledge${path}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) {
+      // Rejected uploads (unsupported or unreadable files) explain why
+      const error = await res.json().catch(() => null);
+      throw new Error(typeof error?.message === 'string' ? error.message : `Request failed (${res.status})`);
+    }
+    return res.json();
+  }, []);
+
+  const loadCollections = useCallback(async () => {
+    try {
+      const data: { collections: KnowledgeCollection[] } = await request('/collections');
+      setCollections(data.collections);
+      setSelectedId((prev) =>
+        prev && data.collections.some((c) => c.id === prev) ? prev : data.collections[0]?.id ?? null,
+      );
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to load your knowledge base');
+    }
+  }, [request, addToast]);
+
+  useEffect(() => {
+    if (user) loadCollections();
+  }, [user, loadCollections]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDocuments([]);
+      return;
+    }
+    const fetchDocuments = async () => {
+      try {
+        const data: { documents: KnowledgeDocument[] } = await request(`/collections/${selectedId}/documents`);
+        setDocuments(data.documents);
+      } catch (err) {
+        console.error(err);
+        addToast('Failed to load documents');
+      }
+    };
+    fetchDocuments();
+  }, [selectedId, documentsVersion, request, addToast]);
+
+  const createCollection = async () => {
+    if (!newName.trim()) return;
+    try {
+      const data: { collection: KnowledgeCollection } = await request('/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName }),
+      });
+      setNewName('');
+      setSelectedId(data.collection.id);
+      await loadCollections();
+    } catch (err) {
+      console.error(err);
+      addToast(err instanceof Error ? err.message : 'Failed to create collection');
+    }
+  };
+
+  const renameCollection = async (collection: KnowledgeCollection) => {
+    const name = window.prompt('Rename collection', collection.name);
+    if (!name?.trim() || name === collection.name) return;
+    try {
+      await request(`/collections/${collection.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      await loadCollections();
+    } catch (err) {
+      console.error(err);
+      addToast(err instanceof Error ? err.message : 'Failed to rename collection');
+    }
+  };
+
+  const deleteCollection = async (collection: KnowledgeCollection) => {
+    if (!window.confirm(`Delete "${collection.name}" and its ${collection.document_count} documents?`)) return;
+    try {
+      await request(`/collections/${collection.id}`, { method: 'DELETE' });
+      await loadCollections();
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to delete collection');
+    }
+  };
+
+  // Documents are chunked and embedded while the upload request waits
+  const uploadDocuments = async (collectionId: string, files: File[]) => {
+    await Promise.all(
+      files.map(async (file) => {
+        setUploadCount((n) => n + 1);
+        try {
+          const form = new FormData();
+          form.append('file', file);
+          await request(`/collections/${collectionId}/documents`, { method: 'POST', body: form });
+        } catch (err) {
+          console.error(err);
+          addToast(`${file.name}: ${err instanceof Error ? err.message : 'upload failed'}`);
+        } finally {
+          setUploadCount((n) => n - 1);
+        }
+      }),
+    );
+    setDocumentsVersion((v) => v + 1);
+    await loadCollections();
+  };
+
+  const deleteDocument = async (document: KnowledgeDocument) => {
+    try {
+      await request(`/documents/${document.id}`, { method: 'DELETE' });
+      setDocuments((prev) => prev.filter((d) => d.id !== document.id));
+      await loadCollections();
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to delete document');
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="p-8 text-center">
+        <p className="mb-4">Log in to build your knowledge base.</p>
+        <Link to="/login" className="text-blue-600 underline">
+          Log in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto p-8 flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Knowledge base</h1>
+        <Link to="/" className="text-sm text-blue-600 hover:underline">
+          Back to chat
+        </Link>
+      </div>
+      <p className="text-sm text-gray-600">
+        Group documents into collections, then pick a collection in a chat’s header. Each answer in that chat is given
+        the passages closest to your question and cites them, like [1].
+      </p>
+
+      <div className="flex gap-6">
+        <section className="w-56 flex flex-col gap-2">
+          <h2 className="font-semibold">Collections</h2>
+          {collections.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => setSelectedId(c.id)}
+              className={`text-left text-sm px-2 py-1 rounded ${c.id === selectedId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-100'}`}
+            >
+              {c.name} <span className="text-gray-400">({c.document_count})</span>
+            </button>
+          ))}
+          <div className="flex gap-1">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && createCollection()}
+              placeholder="New collection"
+              maxLength={80}
+              className="flex-1 min-w-0 border rounded px-2 py-1 text-sm"
+            />
+            <button
+              onClick={createCollection}
+              disabled={!newName.trim()}
+              className="text-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-2 rounded"
+            >
+              Add
+            </button>
+          </div>
+        </section>
+
+        <section className="flex-1 flex flex-col gap-2">
+          {selected ? (
+            <>
+              <div className="flex items-center justify-between">
+                <h2 className="font-semibold">{selected.name}</h2>
+                <div className="flex gap-3 text-xs">
+                  <button onClick={() => renameCollection(selected)} className="text-blue-600 hover:underline">
+                    Rename
+                  </button>
+                  <button onClick={() => deleteCollection(selected)} className="text-red-600 hover:underline">
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_DOCUMENTS}
+                className="hidden"
+                onChange={(e) => {
+                  uploadDocuments(selected.id, Array.from(e.target.files ?? []));
+                  e.target.value = '';
+                }}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadCount > 0}
+                className="self-start text-sm border rounded px-3 py-1 hover:bg-gray-100 disabled:opacity-50"
+              >
+                {uploadCount > 0 ? 'Reading documents…' : 'Add documents'}
+              </button>
+              {documents.length ? (
+                <ul className="flex flex-col divide-y border rounded">
+                  {documents.map((d) => (
+                    <li key={d.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span>
+                        {d.name}
+                        <span className="text-xs text-gray-400">
+                          {' '}
+                          · {formatSize(d.size)} · {d.chunk_count} {d.chunk_count === 1 ? 'passage' : 'passages'}
+                        </span>
+                      </span>
+                      <button onClick={() => deleteDocument(d)} className="text-xs text-red-600 hover:underline">
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">No documents yet. PDF, DOCX, Markdown, text and code files work.</p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Create a collection to add documents to it.</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgePage;
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../auth/AuthProvider';
+import { supabase } from '../lib/supabaseClient';
+import { MAX_MEMORY_LENGTH } from '../lib/memory';
+import type { Memory } from '../lib/memory';
+import type { UserSettings } from './SettingsPage';
+import { useToast } from './ToastProvider';
+
+const backendUrl = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3000/api';
+
+const getAccessToken = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token;
+};
+
+/** Memory settings: turn memory on or off and review what is remembered. */
+const MemoryPage = () => {
+  const { user } = useAuth();
+  const addToast = useToast();
+  const [enabled, setEnabled] = useState<boolean | null>(null);
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const token = await getAccessToken();
+    const res = await fetch(`${backendUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers, Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) throw new Error(`Request failed (${res.status})`);
+    return res.json();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const fetchMemory = async () => {
+      try {
+        const [settings, list]: [{ settings: UserSettings }, { memories: Memory[] }] = await Promise.all([
+          request('/settings'),
+          request('/memories'),
+        ]);
+        setEnabled(settings.settings.memoryEnabled);
+        setMemories(list.memories);
+      } catch (err) {
+        console.error(err);
+        addToast('Failed to load your memory');
+      }
+    };
+    fetchMemory();
+  }, [user, request, addToast]);
+
+  const toggle = async (memoryEnabled: boolean) => {
+    setEnabled(memoryEnabled);
+    try {
+      const data: { settings: UserSettings } = await request('/settings', {
+        method: 'PATCH',
+        body: JSON.stringify({ memoryEnabled }),
+      });
+      setEnabled(data.settings.memoryEnabled);
+    } catch (err) {
+      console.error(err);
+      setEnabled(!memoryEnabled);
+      addToast('Failed to save settings');
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing?.content.trim()) return;
+    try {
+      const data: { memory: Memory } = await request(`/memories/${editing.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ content: editing.content }),
+      });
+      setMemories((prev) => prev.map((m) => (m.id === data.memory.id ? data.memory : m)));
+      setEditing(null);
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to update memory');
+    }
+  };
+
+  const deleteMemory = async (memory: Memory) => {
+    try {
+      await request(`/memories/${memory.id}`, { method: 'DELETE' });
+      setMemories((prev) => prev.filter((m) => m.id !== memory.id));
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to delete memory');
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="p-8 text-center">
+        <p className="mb-4">Log in to manage your memory.</p>
+        <Link to="/login" className="text-blue-600 underline">
+          Log in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-8 flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Memory</h1>
+        <Link to="/settings" className="text-sm text-blue-600 hover:underline">
+          Back to settings
+        </Link>
+      </div>
+
+      <section className="flex flex-col gap-2">
+        <label className="flex items-center gap-2 font-semibold">
+          <input
+            type="checkbox"
+            checked={enabled ?? false}
+            disabled={enabled === null}
+            onChange={(e) => toggle(e.target.checked)}
+          />
+          Remember facts about me across chats
+        </label>
+        <p className="text-sm text-gray-600">
+          SafarGPT picks durable facts out of your conversations, like where you work or the languages you prefer, and
+          recalls the relevant ones in new chats. Turning memory off stops both; what is stored below stays until you
+          delete it.
+        </p>
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="font-semibold">What SafarGPT remembers</h2>
+        {memories.length ? (
+          <ul className="flex flex-col divide-y border rounded">
+            {memories.map((memory) =>
+              editing?.id === memory.id ? (
+                <li key={memory.id} className="flex flex-col gap-2 px-3 py-2">
+                  <textarea
+                    value={editing.content}
+                    onChange={(e) => setEditing({ id: memory.id, content: e.target.value })}
+                    maxLength={MAX_MEMORY_LENGTH}
+                    rows={2}
+                    autoFocus
+                    className="border rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex justify-end gap-3 text-xs">
+                    <button onClick={() => setEditing(null)} className="text-gray-600 hover:underline">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={saveEdit}
+                      disabled={!editing.content.trim()}
+                      className="text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </li>
+              ) : (
+                <li key={memory.id} className="flex items-start justify-between gap-4 px-3 py-2 text-sm">
+                  <span className="whitespace-pre-wrap break-words">{memory.content}</span>
+                  <div className="flex shrink-0 gap-3 text-xs">
+                    <button
+                      onClick={() => setEditing({ id: memory.id, content: memory.content })}
+                      className="text-blue-600 hover:underline"
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => deleteMemory(memory)} className="text-red-600 hover:underline">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ),
+            )}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">Nothing remembered yet.</p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default MemoryPage;
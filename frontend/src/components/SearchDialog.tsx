@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabaseClient';
+
+// Mirrors `ChatSearchResult` in backend/src/chat/chat.service.ts
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface ChatSearchResult {
+  chatId: string;
+  title: string | null;
+  createdAt: string;
+  matches: Array<{
+    messageId: number | null; // null for a match in the title
+    role: string | null;
+    snippet: SearchSnippet;
+    createdAt: string;
+  }>;
+}
+
+interface SearchDialogProps {
+  backendUrl: string;
+  onClose: () => void;
+  onSelect: (result: ChatSearchResult, messageId: number | null) => void;
+}
+
+// Wait for the user to stop typing before querying
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** Snippet text with the matched terms marked. */
+export const Highlighted = ({ snippet }: { snippet: SearchSnippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+};
+
+const SearchDialog: React.FC<SearchDialogProps> = ({ backendUrl, onClose, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchResult[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const { data } = await supabase.auth.getSession();
+        const res = await fetch(`${backendUrl}/chat/search?q=${encodeURIComponent(q)}`, {
+          headers: { Authorization: `Bearer ${data.session?.access_token}` },
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`Search failed: ${res.status}`);
+        const body: { results: ChatSearchResult[] } = await res.json();
+        setResults(body.results);
+      } catch (err) {
+        if (!controller.signal.aborted) console.error(err);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, backendUrl]);
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-[1px] flex items-start justify-center pt-24 z-30" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-xl max-h-[70vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && onClose()}
+          placeholder="Search your chats"
+          className="w-full border-b px-4 py-3 rounded-t-lg focus:outline-none"
+        />
+
+        <div className="overflow-y-auto p-2">
+          {loading && <p className="px-2 py-1 text-sm text-gray-500">Searching…</p>}
+          {!loading && results?.length === 0 && <p className="px-2 py-1 text-sm text-gray-500">No matches.</p>}
+          {results?.map((result) => {
+            const titleMatch = result.matches.find((match) => match.messageId === null);
+            return (
+            <div key={result.chatId} className="mb-3">
+              <button
+                onClick={() => onSelect(result, null)}
+                className="w-full text-left px-2 py-1 text-sm font-medium hover:bg-gray-100 rounded truncate"
+              >
+                {titleMatch ? <Highlighted snippet={titleMatch.snippet} /> : result.title || 'Untitled conversation'}
+              </button>
+              {result.matches
+                .filter((match) => match.messageId !== null)
+                .map((match) => (
+                  <button
+                    key={match.messageId}
+                    onClick={() => onSelect(result, match.messageId)}
+                    className="w-full text-left px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded"
+                  >
+                    <span className="text-xs text-gray-400 mr-1">{match.role === 'user' ? 'You:' : 'Assistant:'}</span>
+                    <Highlighted snippet={match.snippet} />
+                  </button>
+                ))}
+            </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchDialog;
@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../auth/AuthProvider';
+import { supabase } from '../lib/supabaseClient';
+import { EXPORT_FORMATS, downloadExport } from '../lib/chatExport';
+import type { ExportFormat } from '../lib/chatExport';
+import type { ImportReport } from '../lib/chatImport';
+import { useToast } from './ToastProvider';
+
+export interface UserSettings {
+  customInstructions: string;
+  memoryEnabled: boolean;
+}
+
+// Mirrors MAX_CUSTOM_INSTRUCTIONS_LENGTH in backend/src/settings
+export const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 1500;
+
+const backendUrl = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3000/api';
+
+const SettingsPage = () => {
+  const { user } = useAuth();
+  const addToast = useToast();
+  const [instructions, setInstructions] = useState('');
+  const [saved, setSaved] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('md');
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+
+  const getAccessToken = async () => {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.access_token;
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    const fetchSettings = async () => {
+      try {
+        const token = await getAccessToken();
+        const res = await fetch(`${backendUrl}/settings`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error(`Failed to load settings (${res.status})`);
+        const data: { settings: UserSettings } = await res.json();
+        setInstructions(data.settings.customInstructions);
+        setSaved(data.settings.customInstructions);
+      } catch (err) {
+        console.error(err);
+        addToast('Failed to load settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSettings();
+  }, [user, addToast]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const token = await getAccessToken();
+      const res = await fetch(`${backendUrl}/settings`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ customInstructions: instructions }),
+      });
+      if (!res.ok) throw new Error(`Failed to save settings (${res.status})`);
+      const data: { settings: UserSettings } = await res.json();
+      setInstructions(data.settings.customInstructions);
+      setSaved(data.settings.customInstructions);
+      addToast('Settings saved');
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const exportAll = async () => {
+    setExporting(true);
+    try {
+      const token = await getAccessToken();
+      await downloadExport(`${backendUrl}/chat/export?format=${exportFormat}`, token, 'SafarGPT chats.zip');
+    } catch (err) {
+      console.error(err);
+      addToast('Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const importChats = async (file: File) => {
+    setImporting(true);
+    setImportReport(null);
+    try {
+      const token = await getAccessToken();
+      const body = new FormData();
+      body.append('file', file);
+      const res = await fetch(`${backendUrl}/chat/import`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        body,
+      });
+      if (!res.ok) {
+        const error: { message?: string } = await res.json().catch(() => ({}));
+        throw new Error(error.message ?? `Import failed (${res.status})`);
+      }
+      setImportReport(await res.json());
+    } catch (err) {
+      console.error(err);
+      addToast(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="p-8 text-center">
+        <p className="mb-4">Log in to change your settings.</p>
+        <Link to="/login" className="text-blue-600 underline">
+          Log in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-8 flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Settings</h1>
+        <Link to="/" className="text-sm text-blue-600 hover:underline">
+          Back to chat
+        </Link>
+      </div>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="font-semibold">Custom instructions</h2>
+        <p className="text-sm text-gray-600">
+          What should SafarGPT know about you, and how should it answer? These instructions are sent with every
+          chat; you can turn them off for a single chat from its header.
+        </p>
+        <textarea
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          maxLength={MAX_CUSTOM_INSTRUCTIONS_LENGTH}
+          rows={8}
+          disabled={loading}
+          placeholder="e.g. I'm a backend developer. Answer concisely and show code in TypeScript."
+          className="border rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500">
+            {instructions.length}/{MAX_CUSTOM_INSTRUCTIONS_LENGTH}
+          </span>
+          <button
+            onClick={save}
+            disabled={loading || saving || instructions === saved}
+            className="text-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-1 rounded"
+          >
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="font-semibold">Memory</h2>
+        <p className="text-sm text-gray-600">
+          When memory is on, SafarGPT keeps facts about you from your chats, like your job or the tools you prefer,
+          and recalls them in new chats.
+        </p>
+        <Link to="/settings/memory" className="self-start text-sm text-blue-600 hover:underline">
+          Manage memory
+        </Link>
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h2 className="font-semibold">Your chats</h2>
+        <p className="text-sm text-gray-600">
+          Download all your chats as a zip archive, one file per chat. JSON keeps every branch of a conversation;
+          the other formats keep the version each chat opens on.
+        </p>
+        <div className="flex items-center gap-2">
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="text-sm border rounded px-2 py-1"
+          >
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <option key={format} value={format}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={exportAll}
+            disabled={exporting}
+            className="text-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-1 rounded"
+          >
+            {exporting ? 'Exporting…' : 'Export all chats'}
+          </button>
+        </div>
+        <Link to="/settings/shares" className="self-start text-sm text-blue-600 hover:underline">
+          Manage shared links
+        </Link>
+        <p className="text-sm text-gray-600 mt-2">
+          Import your history from ChatGPT (the zip from its data export, or the <code>conversations.json</code> in
+          it) or from SafarGPT JSON exports. Conversations you imported before are skipped.
+        </p>
+        <label className="self-start text-sm border rounded px-4 py-1 cursor-pointer hover:bg-gray-100">
+          {importing ? 'Importing…' : 'Import chats'}
+          <input
+            type="file"
+            accept=".json,.zip,application/json,application/zip"
+            disabled={importing}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) importChats(file);
+            }}
+          />
+        </label>
+        {importReport && (
+          <div className="text-sm border rounded px-3 py-2">
+            <p>
+              {importReport.imported} imported, {importReport.skipped} skipped, {importReport.failed} failed.
+            </p>
+            <ul className="mt-1 max-h-48 overflow-y-auto">
+              {importReport.results
+                .filter((r) => r.status !== 'imported')
+                .map((r, i) => (
+                  <li key={i} className={r.status === 'failed' ? 'text-red-600' : 'text-gray-500'}>
+                    {r.title}: {r.message}
+                  </li>
+                ))}
+            </ul>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SettingsPage;
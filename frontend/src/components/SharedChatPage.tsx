@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../auth/AuthProvider';
+import { supabase } from '../lib/supabaseClient';
+import { CITATION_HREF, linkCitations } from '../lib/knowledge';
+import type { SharedChat, SharedMessage } from '../lib/share';
+import type { ChatSummary } from './ChatSidebar';
+import SourceList from './SourceList';
+import ToolSteps from './ToolSteps';
+import type { ToolStep } from './ToolSteps';
+import { useToast } from './ToastProvider';
+
+const backendUrl = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3000/api';
+
+type Turn = SharedMessage & { toolSteps: ToolStep[] };
+
+// Tool calls sit between a prompt and its answer; show them on the answer
+const toTurns = (messages: SharedMessage[]): Turn[] => {
+  const turns: Turn[] = [];
+  let steps: ToolStep[] = [];
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      if (m.tool_call) steps.push({ ...m.tool_call, result: m.content });
+      continue;
+    }
+    turns.push({ ...m, toolSteps: steps });
+    steps = [];
+  }
+  return turns;
+};
+
+/** Read-only view of a chat shared by link; signed-in viewers can carry it on. */
+const SharedChatPage = () => {
+  const { token } = useParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const addToast = useToast();
+  const [chat, setChat] = useState<SharedChat | null>(null);
+  const [missing, setMissing] = useState(false);
+  const [continuing, setContinuing] = useState(false);
+  const [activeSource, setActiveSource] = useState<{ id: number; index: number } | null>(null);
+
+  useEffect(() => {
+    const fetchShare = async () => {
+      try {
+        const res = await fetch(`${backendUrl}/share/${encodeURIComponent(token ?? '')}`);
+        if (res.status === 404) {
+          setMissing(true);
+          return;
+        }
+        if (!res.ok) throw new Error(`Failed to load shared chat (${res.status})`);
+        const data: { share: SharedChat } = await res.json();
+        setChat(data.share);
+      } catch (err) {
+        console.error(err);
+        addToast('Failed to load the shared chat');
+      }
+    };
+    fetchShare();
+  }, [token, addToast]);
+
+  const continueChat = async () => {
+    setContinuing(true);
+    try {
+      const { data } = await supabase.auth.getSession();
+      const res = await fetch(`${backendUrl}/share/${encodeURIComponent(token ?? '')}/continue`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${data.session?.access_token}` },
+      });
+      if (!res.ok) throw new Error(`Failed to continue chat (${res.status})`);
+      const body: { chat: ChatSummary } = await res.json();
+      navigate('/', { state: { openChat: body.chat } });
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to continue this chat');
+      setContinuing(false);
+    }
+  };
+
+  if (missing) {
+    return (
+      <div className="p-8 text-center">
+        <p className="mb-4">This share link does not exist or was revoked.</p>
+        <Link to="/" className="text-blue-600 underline">
+          Go to SafarGPT
+        </Link>
+      </div>
+    );
+  }
+
+  if (!chat) {
+    return <div className="p-8 text-center text-gray-500">Loading…</div>;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-8 flex flex-col gap-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{chat.title || 'Untitled chat'}</h1>
+          <p className="text-sm text-gray-500">Shared on {new Date(chat.sharedAt).toLocaleDateString()}</p>
+        </div>
+        {user ? (
+          <button
+            onClick={continueChat}
+            disabled={continuing}
+            className="shrink-0 text-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-1 rounded"
+          >
+            {continuing ? 'Copying…' : 'Continue this chat'}
+          </button>
+        ) : (
+          <Link
+            to="/login"
+            state={{ from: `/share/${token}` }}
+            className="shrink-0 text-sm text-blue-600 hover:underline"
+          >
+            Log in to continue this chat
+          </Link>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-4">
+        {toTurns(chat.messages).map((msg) => (
+          <div key={msg.id} className={msg.role === 'user' ? 'text-right' : ''}>
+            {msg.content && (
+              <div
+                className={`inline-block px-4 py-2 rounded-lg ${
+                  msg.role === 'user'
+                    ? 'bg-blue-600 text-white whitespace-pre-wrap text-left'
+                    : 'bg-white border text-gray-800'
+                }`}
+              >
+                {/* Tool results are not shared, so code runs have no output to show */}
+                <ToolSteps steps={msg.toolSteps} withResults={false} />
+                {msg.role === 'assistant' ? (
+                  <ReactMarkdown
+                    className="prose prose-slate dark:prose-invert max-w-none"
+                    components={{
+                      a: ({ href, children }) =>
+                        href?.startsWith(CITATION_HREF) ? (
+                          <button
+                            onClick={() =>
+                              setActiveSource({ id: msg.id, index: Number(href.slice(CITATION_HREF.length)) })
+                            }
+                            className="align-super text-xs text-blue-600 hover:underline"
+                          >
+                            [{children}]
+                          </button>
+                        ) : (
+                          <a href={href}>{children}</a>
+                        ),
+                    }}
+                  >
+                    {linkCitations(msg.content, msg.sources ?? [])}
+                  </ReactMarkdown>
+                ) : (
+                  msg.content
+                )}
+              </div>
+            )}
+            {msg.sources && (
+              <SourceList
+                sources={msg.sources}
+                active={activeSource?.id === msg.id ? activeSource.index : null}
+                onSelect={(index) => setActiveSource(index === null ? null : { id: msg.id, index })}
+              />
+            )}
+            <div className="mt-1 text-xs text-gray-400">
+              {/* Files are not shared, only their names */}
+              {msg.attachments.map((a) => (
+                <span key={a.name} className="mr-2">
+                  📎 {a.name}
+                </span>
+              ))}
+              {msg.role === 'assistant' && msg.model}
+              {msg.interrupted && ' · Stopped'}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SharedChatPage;
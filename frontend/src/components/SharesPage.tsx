@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../auth/AuthProvider';
+import { supabase } from '../lib/supabaseClient';
+import { shareUrl } from '../lib/share';
+import type { ChatShare } from '../lib/share';
+import { useToast } from './ToastProvider';
+
+const backendUrl = import.meta.env.VITE_BACKEND_URL ?? 'http://localhost:3000/api';
+
+const getAccessToken = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token;
+};
+
+/** The user's share links, to copy or revoke. */
+const SharesPage = () => {
+  const { user } = useAuth();
+  const addToast = useToast();
+  const [shares, setShares] = useState<ChatShare[] | null>(null);
+
+  const request = useCallback(async (path: string, init: RequestInit = {}) => {
+    const token = await getAccessToken();
+    const res = await fetch(`${backendUrl}${path}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) throw new Error(`Request failed (${res.status})`);
+    return res.json();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const fetchShares = async () => {
+      try {
+        const data: { shares: ChatShare[] } = await request('/chat/shares');
+        setShares(data.shares);
+      } catch (err) {
+        console.error(err);
+        addToast('Failed to load your share links');
+      }
+    };
+    fetchShares();
+  }, [user, request, addToast]);
+
+  const copy = async (share: ChatShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.token));
+      addToast('Share link copied to the clipboard');
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to copy the link');
+    }
+  };
+
+  const revoke = async (share: ChatShare) => {
+    try {
+      await request(`/chat/shares/${share.id}`, { method: 'DELETE' });
+      setShares((prev) => prev?.filter((s) => s.id !== share.id) ?? null);
+    } catch (err) {
+      console.error(err);
+      addToast('Failed to revoke the link');
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="p-8 text-center">
+        <p className="mb-4">Log in to manage your share links.</p>
+        <Link to="/login" className="text-blue-600 underline">
+          Log in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-8 flex flex-col gap-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">Shared links</h1>
+        <Link to="/settings" className="text-sm text-blue-600 hover:underline">
+          Back to settings
+        </Link>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Anyone with one of these links can read the chat as it was when you shared it. Revoking a link stops it from
+        working; copies others made to continue the chat stay theirs.
+      </p>
+
+      {shares?.length ? (
+        <ul className="flex flex-col divide-y border rounded">
+          {shares.map((share) => (
+            <li key={share.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <a href={shareUrl(share.token)} className="block truncate hover:underline">
+                  {share.title || 'Untitled chat'}
+                </a>
+                <span className="text-xs text-gray-500">Shared {new Date(share.created_at).toLocaleString()}</span>
+              </div>
+              <div className="flex shrink-0 gap-3 text-xs">
+                <button onClick={() => copy(share)} className="text-blue-600 hover:underline">
+                  Copy link
+                </button>
+                <button onClick={() => revoke(share)} className="text-red-600 hover:underline">
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {shares ? 'No shared links. Share a chat from its "…" menu in the sidebar.' : 'Loading…'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SharesPage;
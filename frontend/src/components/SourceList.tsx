@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import type { KnowledgeSource } from '../lib/knowledge';
+
+type SourceListProps = {
+  sources: KnowledgeSource[];
+  /** Index of the expanded source, e.g. after its citation was clicked. */
+  active: number | null;
+  onSelect: (index: number | null) => void;
+};
+
+/** Knowledge base excerpts an answer was given, numbered as it cites them. */
+const SourceList: React.FC<SourceListProps> = ({ sources, active, onSelect }) => {
+  const activeRef = useRef<HTMLLIElement | null>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [active]);
+
+  return (
+    <ol className="mt-2 flex flex-col gap-1 text-xs text-left">
+      {sources.map((source) => (
+        <li
+          key={source.index}
+          ref={source.index === active ? activeRef : undefined}
+          className={`rounded border px-2 py-1 ${source.index === active ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-white'}`}
+        >
+          <button
+            onClick={() => onSelect(source.index === active ? null : source.index)}
+            className="w-full text-left text-gray-600 hover:text-gray-900"
+          >
+            <span className="font-semibold">[{source.index}]</span> {source.documentName}
+            <span className="text-gray-400"> · part {source.position + 1}</span>
+          </button>
+          {/* Shared chats keep the labels of their sources, not the text */}
+          {source.index === active && source.content && (
+            <p className="mt-1 whitespace-pre-wrap break-words text-gray-700">{source.content}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default SourceList;
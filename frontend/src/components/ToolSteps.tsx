@@ -0,0 +1,53 @@
+// A tool call made while writing an answer (see `tool` messages in the backend)
+export type ToolStep = {
+  id: string;
+  name: string;
+  /** JSON text the model passed. */
+  arguments: string;
+  /** What the tool returned; missing while it runs. */
+  result?: string;
+};
+
+const formatArguments = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+type ToolStepsProps = {
+  steps: ToolStep[];
+  /** Shared chats publish which tools were called, not what they returned. */
+  withResults?: boolean;
+};
+
+/** Collapsed "Used tool X" lines shown above an answer, one per call. */
+const ToolSteps: React.FC<ToolStepsProps> = ({ steps, withResults = true }) => {
+  if (!steps.length) return null;
+
+  return (
+    <div className="mb-2 flex flex-col gap-1 text-sm">
+      {steps.map((step) => (
+        <details key={step.id} className="rounded border border-gray-200 bg-gray-50 px-3 py-1">
+          <summary className="cursor-pointer text-gray-600">
+            {step.result === undefined ? 'Using' : 'Used'} tool <code>{step.name}</code>
+            {step.result === undefined && '…'}
+          </summary>
+          <div className="mt-1 flex flex-col gap-1 text-xs">
+            <span className="text-gray-500">Arguments</span>
+            <pre className="whitespace-pre-wrap break-words bg-white border rounded p-2">{formatArguments(step.arguments)}</pre>
+            {withResults && step.result !== undefined && (
+              <>
+                <span className="text-gray-500">Result</span>
+                <pre className="whitespace-pre-wrap break-words bg-white border rounded p-2">{step.result}</pre>
+              </>
+            )}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+};
+
+export default ToolSteps;
@@ -0,0 +1,12 @@
+// Object URLs of attachment images already fetched (or just uploaded), by id,
+// so thumbnails survive re-renders and chat switches without refetching.
+const imageUrls = new Map<string, string>();
+
+export const getAttachmentImage = (id: string) => imageUrls.get(id);
+
+/** Remember the image of an attachment, e.g. the local file of a fresh upload. */
+export const primeAttachmentImage = (id: string, blob: Blob) => {
+  const url = imageUrls.get(id) ?? URL.createObjectURL(blob);
+  imageUrls.set(id, url);
+  return url;
+};
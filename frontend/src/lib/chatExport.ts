@@ -0,0 +1,31 @@
+// Mirrors EXPORT_FORMATS in backend/src/chat/chat-export.ts
+export type ExportFormat = 'md' | 'json' | 'html' | 'pdf';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+/** The name the server gave a download (`Content-Disposition`), if any. */
+const downloadName = (res: Response) => {
+  const match = /filename\*=UTF-8''([^;]+)/.exec(res.headers.get('Content-Disposition') ?? '');
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+/**
+ * Fetch an authenticated download (e.g. `/chat/:id/export?format=md`) and hand
+ * it to the browser as a file.
+ */
+export async function downloadExport(url: string, token: string | undefined, fallbackName: string) {
+  const res = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+  if (!res.ok) throw new Error(`Export failed (${res.status})`);
+
+  const href = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = downloadName(res) ?? fallbackName;
+  link.click();
+  URL.revokeObjectURL(href);
+}
@@ -0,0 +1,16 @@
+// Mirrors `ImportReport` in backend/src/chat/chat-import.service.ts
+export type ImportStatus = 'imported' | 'skipped' | 'failed';
+
+export type ImportResult = {
+  title: string;
+  status: ImportStatus;
+  chatId?: string;
+  message?: string;
+};
+
+export type ImportReport = {
+  imported: number;
+  skipped: number;
+  failed: number;
+  results: ImportResult[];
+};
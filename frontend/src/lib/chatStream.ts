@@ -0,0 +1,64 @@
+import type { KnowledgeSource } from './knowledge';
+
+// Mirrors `ChatStreamEvent` in backend/src/chat/chat-events.ts
+export type ChatStreamEvent =
+  | {
+      type: 'meta';
+      generationId: string | null;
+      chatId: string | null;
+      userMessageId: number | null;
+      assistantMessageId: number | null;
+      model: string;
+    }
+  | { type: 'context'; mode: 'summarized' | 'truncated'; omitted: number }
+  | { type: 'sources'; sources: KnowledgeSource[] }
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: string }
+  | { type: 'tool_result'; id: string; content: string; error: boolean }
+  | { type: 'usage'; promptTokens: number; completionTokens: number; totalTokens: number }
+  | { type: 'title'; chatId: string; title: string }
+  | { type: 'error'; code: string; message: string }
+  | { type: 'done'; interrupted: boolean };
+
+export type ChatStreamFrame = {
+  /** SSE `id:` – pass the last one seen as `Last-Event-ID` to resume. */
+  id: number | null;
+  event: ChatStreamEvent;
+};
+
+/**
+ * Read a `text/event-stream` response body and yield the JSON events it carries.
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamFrame> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Split on double newlines which mark SSE event boundaries
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() || '';
+
+    for (const frame of frames) {
+      const lines = frame.split('\n');
+      const idLine = lines.find((line) => line.startsWith('id:'));
+
+      // A frame may span several `data:` lines; they are joined with newlines
+      const data = lines
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.replace(/^data: ?/, ''))
+        .join('\n');
+      if (!data) continue;
+
+      yield {
+        id: idLine ? Number(idLine.replace(/^id: ?/, '')) : null,
+        event: JSON.parse(data) as ChatStreamEvent,
+      };
+    }
+  }
+}
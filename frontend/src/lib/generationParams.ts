@@ -0,0 +1,24 @@
+import type { ModelOption } from '../components/ChatPage';
+
+// Mirrors `GenerationParams` in backend/src/llm/llm-provider.ts
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  jsonMode?: boolean;
+  reasoningEffort?: 'low' | 'medium' | 'high';
+}
+
+/** The parameters `model` accepts; the server rejects the others. */
+export const supportedParams = (params: GenerationParams, model?: ModelOption): GenerationParams => {
+  if (!model) return params;
+  const { sampling, reasoning, jsonMode } = model.capabilities;
+  const { temperature, topP, stop, reasoningEffort, jsonMode: json, maxTokens } = params;
+  return {
+    ...(sampling ? { temperature, topP, stop } : {}),
+    ...(reasoning ? { reasoningEffort } : {}),
+    ...(jsonMode ? { jsonMode: json } : {}),
+    maxTokens: maxTokens && model.maxOutputTokens ? Math.min(maxTokens, model.maxOutputTokens) : maxTokens,
+  };
+};
@@ -0,0 +1,39 @@
+// Mirrors `KnowledgeCollection` in backend/src/knowledge/knowledge.service.ts
+export type KnowledgeCollection = {
+  id: string;
+  name: string;
+  created_at: string;
+  document_count: number;
+};
+
+// Mirrors `KnowledgeDocument` in backend/src/knowledge/knowledge.service.ts
+export type KnowledgeDocument = {
+  id: string;
+  collection_id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  chunk_count: number;
+  created_at: string;
+};
+
+// Mirrors `KnowledgeSource` in backend/src/knowledge/knowledge.service.ts
+export type KnowledgeSource = {
+  index: number;
+  documentId: string;
+  documentName: string;
+  position: number;
+  content: string;
+};
+
+/** Prefix of the links `linkCitations` makes; the rest is the source index. */
+export const CITATION_HREF = '#source-';
+
+/**
+ * Turn the `[1]`-style citations of an answer into Markdown links, so they can
+ * be rendered as buttons. Numbers without a matching source are left alone.
+ */
+export const linkCitations = (content: string, sources: KnowledgeSource[]): string =>
+  content.replace(/\[(\d+)\](?![(:])/g, (citation, index: string) =>
+    sources.some((s) => s.index === Number(index)) ? `[${index}](${CITATION_HREF}${index})` : citation,
+  );
@@ -0,0 +1,11 @@
+// Mirrors `Memory` in backend/src/memory/memory.service.ts
+export type Memory = {
+  id: string;
+  content: string;
+  source_chat_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Mirrors MAX_MEMORY_LENGTH in backend/src/memory
+export const MAX_MEMORY_LENGTH = 300;
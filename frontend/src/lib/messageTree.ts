@@ -0,0 +1,61 @@
+// Messages form a tree (see `parent_id` in the backend): regenerating an answer
+// adds a sibling, and the UI shows one branch at a time.
+export type TreeMessage = {
+  key: string;
+  parentKey: string | null;
+};
+
+export type ThreadEntry<T> = {
+  message: T;
+  /** Keys of the message and its siblings, oldest first. */
+  siblings: string[];
+  /** Position of `message` among `siblings`. */
+  index: number;
+};
+
+/** Child picked for each parent key (`root` for first messages). */
+export type BranchChoice = Record<string, string>;
+
+export const branchKey = (parentKey: string | null) => parentKey ?? 'root';
+
+/**
+ * Walk the tree from the root following the chosen branches. Without a choice
+ * the latest child is followed, so new messages are shown as they arrive.
+ */
+export function buildThread<T extends TreeMessage>(messages: T[], choice: BranchChoice): ThreadEntry<T>[] {
+  const children = new Map<string, T[]>();
+  for (const m of messages) {
+    const parent = branchKey(m.parentKey);
+    children.set(parent, [...(children.get(parent) ?? []), m]);
+  }
+
+  const thread: ThreadEntry<T>[] = [];
+  let parent = branchKey(null);
+  for (;;) {
+    const siblings = children.get(parent);
+    if (!siblings?.length) break;
+
+    const chosen = siblings.find((m) => m.key === choice[parent]) ?? siblings[siblings.length - 1];
+    thread.push({ message: chosen, siblings: siblings.map((m) => m.key), index: siblings.indexOf(chosen) });
+    parent = chosen.key;
+  }
+
+  return thread;
+}
+
+/**
+ * Branch choices that put the message with `key` on screen, e.g. to jump to a
+ * search result that sits on another branch.
+ */
+export function choiceFor<T extends TreeMessage>(messages: T[], key: string): BranchChoice {
+  const byKey = new Map(messages.map((m) => [m.key, m]));
+  const choice: BranchChoice = {};
+
+  let current = byKey.get(key);
+  while (current) {
+    choice[branchKey(current.parentKey)] = current.key;
+    current = current.parentKey === null ? undefined : byKey.get(current.parentKey);
+  }
+
+  return choice;
+}
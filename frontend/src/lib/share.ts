@@ -0,0 +1,34 @@
+import type { KnowledgeSource } from './knowledge';
+
+// Mirrors `ChatShare` in backend/src/chat/chat-share.service.ts
+export type ChatShare = {
+  id: string;
+  token: string;
+  chat_id: string;
+  title: string | null;
+  created_at: string;
+};
+
+// Mirrors `ExportedMessage` in backend/src/chat/chat-export.ts
+export type SharedMessage = {
+  id: number;
+  parent_id: number | null;
+  role: string;
+  content: string;
+  model: string | null;
+  created_at: string;
+  interrupted: boolean;
+  attachments: { name: string; mime_type: string; size: number }[];
+  tool_call: { id: string; name: string; arguments: string } | null;
+  sources: KnowledgeSource[] | null;
+};
+
+// Mirrors `SharedChat` in backend/src/chat/chat-share.service.ts
+export type SharedChat = {
+  title: string | null;
+  sharedAt: string;
+  messages: SharedMessage[];
+};
+
+/** The public page of a share link, served by `SharedChatPage`. */
+export const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
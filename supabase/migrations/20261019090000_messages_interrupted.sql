@@ -0,0 +1,4 @@
+-- Assistant answers cut short by "Stop" or a dropped connection keep their
+-- partial content and are flagged so the UI can tell them apart.
+alter table public.messages
+  add column if not exists interrupted boolean not null default false;
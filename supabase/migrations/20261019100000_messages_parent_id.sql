@@ -0,0 +1,19 @@
+-- Messages form a tree: regenerating an answer or editing a prompt adds a
+-- sibling branch instead of overwriting. Each message points at the one it
+-- follows; roots (first messages of a branch) have no parent.
+alter table public.messages
+  add column if not exists parent_id bigint
+    references public.messages(id) on delete cascade;
+
+-- Existing chats are linear: chain every message to the previous one.
+update public.messages m
+set parent_id = prev.prev_id
+from (
+  select id, lag(id) over (partition by chat_id order by created_at, id) as prev_id
+  from public.messages
+) prev
+where prev.id = m.id
+  and m.parent_id is null
+  and prev.prev_id is not null;
+
+create index if not exists messages_parent_id_idx on public.messages(parent_id);
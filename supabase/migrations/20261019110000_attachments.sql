@@ -0,0 +1,28 @@
+-- Files uploaded with a message. The bytes live in Storage (or on local disk
+-- in development); the row keeps where they are and the text extracted from
+-- them, which is what the model sees. `message_id` is null until the upload
+-- is sent with a message.
+create table if not exists public.attachments (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  message_id bigint references public.messages(id) on delete cascade,
+  name text not null,
+  mime_type text not null,
+  size integer not null,
+  storage_path text not null,
+  extracted_text text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attachments_message_id_idx on public.attachments(message_id);
+
+alter table public.attachments enable row level security;
+
+create policy "Users can read their own attachments"
+  on public.attachments for select
+  using (auth.uid() = user_id);
+
+-- Private bucket used when ATTACHMENT_STORAGE=supabase
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', false)
+on conflict (id) do nothing;
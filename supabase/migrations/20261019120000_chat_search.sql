@@ -0,0 +1,84 @@
+-- Full-text search over a user's own chats (GET /api/chat/search). The
+-- 'simple' configuration does no stemming, so it behaves the same for every
+-- language users write in.
+alter table public.messages
+  add column if not exists search_vector tsvector
+    generated always as (to_tsvector('simple', coalesce(content, ''))) stored;
+
+create index if not exists messages_search_vector_idx
+  on public.messages using gin (search_vector);
+
+create index if not exists chats_title_search_idx
+  on public.chats using gin (to_tsvector('simple', coalesce(title, '')));
+
+-- Matches of `p_query` in the messages and titles of `p_user_id`'s chats. Only
+-- the `p_limit` best chats are returned, with at most `p_per_chat` matches
+-- each; title matches have a null `message_id`. Highlighted terms in `snippet`
+-- are wrapped in \x01 … \x02.
+create or replace function public.search_chats(
+  p_user_id uuid,
+  p_query text,
+  p_limit integer default 20,
+  p_per_chat integer default 3
+)
+returns table (
+  chat_id uuid,
+  chat_title text,
+  chat_created_at timestamptz,
+  chat_rank real,
+  message_id bigint,
+  role text,
+  snippet text,
+  rank real,
+  created_at timestamptz
+)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('simple', p_query) as q
+  ),
+  hits as (
+    select m.chat_id, m.id as message_id, m.role, m.content as body,
+           ts_rank(m.search_vector, query.q) as rank, m.created_at
+    from public.messages m
+    join public.chats c on c.id = m.chat_id
+    cross join query
+    where c.user_id = p_user_id and m.search_vector @@ query.q
+    union all
+    -- A title match outranks the same match in a message
+    select c.id, null, null, c.title,
+           2 * ts_rank(to_tsvector('simple', coalesce(c.title, '')), query.q),
+           c.created_at
+    from public.chats c
+    cross join query
+    where c.user_id = p_user_id
+      and to_tsvector('simple', coalesce(c.title, '')) @@ query.q
+  ),
+  top_chats as (
+    select chat_id, max(rank) as chat_rank
+    from hits
+    group by chat_id
+    order by chat_rank desc
+    limit p_limit
+  ),
+  top_hits as (
+    select h.*, t.chat_rank,
+           row_number() over (partition by h.chat_id order by h.rank desc) as n
+    from hits h
+    join top_chats t using (chat_id)
+  )
+  select h.chat_id, c.title, c.created_at, h.chat_rank, h.message_id, h.role,
+         ts_headline('simple', h.body, query.q,
+           'StartSel=' || chr(1) || ', StopSel=' || chr(2) || ', MaxWords=24, MinWords=8, MaxFragments=2'),
+         h.rank, h.created_at
+  from top_hits h
+  join public.chats c on c.id = h.chat_id
+  cross join query
+  where h.n <= p_per_chat
+  order by h.chat_rank desc, h.chat_id, h.rank desc;
+$$;
+
+-- Called by the API with the service role only; it trusts `p_user_id`
+revoke execute on function public.search_chats(uuid, text, integer, integer)
+  from public, anon, authenticated;
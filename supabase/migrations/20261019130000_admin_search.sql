@@ -0,0 +1,82 @@
+-- Cross-user message search for the admin dashboard (GET /api/admin/search).
+-- Every filter is optional; without `p_query` the newest matching messages
+-- come first and the snippet is the start of the message. Highlighted terms
+-- in `snippet` are wrapped in \x01 … \x02, like `search_chats`.
+--
+-- The result always has at least one row carrying `total` (the number of
+-- matches over all pages); past the last page that row has a null
+-- `message_id`.
+create or replace function public.admin_search_messages(
+  p_query text default null,
+  p_email text default null,
+  p_model text default null,
+  p_role text default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (
+  total bigint,
+  message_id bigint,
+  chat_id uuid,
+  chat_title text,
+  user_id uuid,
+  user_email text,
+  role text,
+  model text,
+  snippet text,
+  rank real,
+  created_at timestamptz
+)
+language sql
+stable
+as $$
+  with query as (
+    select case
+             when coalesce(trim(p_query), '') = '' then null
+             else websearch_to_tsquery('simple', p_query)
+           end as q
+  ),
+  hits as (
+    select m.id, m.chat_id, c.title, c.user_id, p.email, m.role, m.model,
+           m.content, m.created_at,
+           coalesce(ts_rank(m.search_vector, query.q), 0) as rank
+    from public.messages m
+    join public.chats c on c.id = m.chat_id
+    left join public.profile p on p.id = c.user_id
+    cross join query
+    where (query.q is null or m.search_vector @@ query.q)
+      and (p_email is null or position(lower(p_email) in lower(p.email)) > 0)
+      and (p_model is null or m.model = p_model)
+      and (p_role is null or m.role = p_role)
+      and (p_from is null or m.created_at >= p_from)
+      and (p_to is null or m.created_at < p_to)
+  ),
+  counted as (
+    select count(*) as total from hits
+  ),
+  page as (
+    select *
+    from hits
+    order by rank desc, created_at desc, id desc
+    limit p_limit
+    offset p_offset
+  )
+  select counted.total, page.id, page.chat_id, page.title, page.user_id,
+         page.email, page.role, page.model,
+         case
+           when query.q is null then left(page.content, 200)
+           else ts_headline('simple', page.content, query.q,
+             'StartSel=' || chr(1) || ', StopSel=' || chr(2) || ', MaxWords=24, MinWords=8, MaxFragments=2')
+         end,
+         page.rank, page.created_at
+  from counted
+  cross join query
+  left join page on true
+  order by page.rank desc, page.created_at desc, page.id desc;
+$$;
+
+-- Called by the API with the service role only, after the admin check
+revoke execute on function public.admin_search_messages(text, text, text, text, timestamptz, timestamptz, integer, integer)
+  from public, anon, authenticated;
@@ -0,0 +1,8 @@
+-- Where a chat's title comes from, so generated titles (see ChatTitleService)
+-- only ever replace the placeholder taken from the first message:
+--   default   – first characters of the first message
+--   generated – written by the title model
+--   user      – set through PATCH /api/chat/:id
+alter table public.chats
+  add column if not exists title_source text not null default 'default'
+    check (title_source in ('default', 'generated', 'user'));
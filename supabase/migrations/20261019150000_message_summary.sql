@@ -0,0 +1,6 @@
+-- Running summary for chats that outgrow the model's context window (see
+-- ContextWindowService). Set on the last message it covers: later turns of
+-- the branch send the summary in place of that message and everything
+-- before it.
+alter table public.messages
+  add column if not exists summary text;
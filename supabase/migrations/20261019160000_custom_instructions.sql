@@ -0,0 +1,8 @@
+-- Custom instructions (GET/PATCH /api/settings), sent to the model as a
+-- system message at the start of every chat of the user
+alter table public.profile
+  add column if not exists custom_instructions text;
+
+-- Per-chat switch to leave them out
+alter table public.chats
+  add column if not exists use_custom_instructions boolean not null default true;
@@ -0,0 +1,28 @@
+-- Assistants (personas): a named system prompt with a default model,
+-- temperature and starter prompts. Users see their own assistants plus the
+-- ones admins shared with everyone.
+create table if not exists public.assistants (
+  id uuid primary key default uuid_generate_v4(),
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text,
+  system_prompt text not null default '',
+  model text,
+  temperature real check (temperature between 0 and 2),
+  starters text[] not null default '{}',
+  shared boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists assistants_owner_id_idx on public.assistants(owner_id);
+
+alter table public.assistants enable row level security;
+
+create policy "Users can read their own and shared assistants"
+  on public.assistants for select
+  using (auth.uid() = owner_id or shared);
+
+-- The assistant a chat was started with; its settings apply to every turn.
+-- Chats outlive it and carry on as plain chats.
+alter table public.chats
+  add column if not exists assistant_id uuid references public.assistants(id) on delete set null;
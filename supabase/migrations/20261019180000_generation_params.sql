@@ -0,0 +1,4 @@
+-- Generation parameters of a chat (temperature, topP, maxTokens, stop,
+-- jsonMode, reasoningEffort), saved from the last request that set them.
+alter table public.chats
+  add column if not exists generation_params jsonb not null default '{}';
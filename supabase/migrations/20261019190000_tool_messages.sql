@@ -0,0 +1,10 @@
+-- Tool calls made while answering are stored as `tool` messages between the
+-- user turn and the answer: one per call, with the call (id, name and JSON
+-- arguments) in `tool_call` and the result the model read in `content`.
+alter table public.messages drop constraint if exists messages_role_check;
+alter table public.messages
+  add constraint messages_role_check
+    check (role in ('user', 'assistant', 'system', 'tool'));
+
+alter table public.messages
+  add column if not exists tool_call jsonb;
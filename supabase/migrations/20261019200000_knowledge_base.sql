@@ -0,0 +1,99 @@
+-- Personal knowledge bases: collections of documents whose text is split into
+-- chunks and embedded on upload. Chats linked to a collection are answered
+-- with the chunks closest to each question (GET /api/knowledge/...).
+create extension if not exists vector with schema extensions;
+
+create table if not exists public.knowledge_collections (
+  id uuid primary key default uuid_generate_v4(),
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists knowledge_collections_owner_id_idx
+  on public.knowledge_collections(owner_id);
+
+-- Only the extracted text is kept, in `knowledge_chunks`
+create table if not exists public.knowledge_documents (
+  id uuid primary key default uuid_generate_v4(),
+  collection_id uuid not null references public.knowledge_collections(id) on delete cascade,
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  mime_type text not null,
+  size integer not null,
+  chunk_count integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists knowledge_documents_collection_id_idx
+  on public.knowledge_documents(collection_id);
+create index if not exists knowledge_documents_owner_id_idx
+  on public.knowledge_documents(owner_id);
+
+-- The dimension must match EMBEDDING_DIMENSIONS in the API
+create table if not exists public.knowledge_chunks (
+  id bigint generated always as identity primary key,
+  document_id uuid not null references public.knowledge_documents(id) on delete cascade,
+  collection_id uuid not null references public.knowledge_collections(id) on delete cascade,
+  position integer not null,
+  content text not null,
+  embedding extensions.vector(1536) not null
+);
+
+create index if not exists knowledge_chunks_document_id_idx
+  on public.knowledge_chunks(document_id);
+create index if not exists knowledge_chunks_embedding_idx
+  on public.knowledge_chunks using hnsw (embedding extensions.vector_cosine_ops);
+
+alter table public.knowledge_collections enable row level security;
+alter table public.knowledge_documents enable row level security;
+alter table public.knowledge_chunks enable row level security;
+
+create policy "Users can read their own knowledge collections"
+  on public.knowledge_collections for select
+  using (auth.uid() = owner_id);
+
+create policy "Users can read their own knowledge documents"
+  on public.knowledge_documents for select
+  using (auth.uid() = owner_id);
+
+-- The collection a chat retrieves its sources from; chats outlive it
+alter table public.chats
+  add column if not exists knowledge_collection_id uuid
+    references public.knowledge_collections(id) on delete set null;
+
+-- Excerpts an answer was given, as numbered for its citations
+alter table public.messages
+  add column if not exists sources jsonb;
+
+-- The `p_limit` chunks of a collection closest to `p_embedding` by cosine
+-- distance, most similar first.
+create or replace function public.match_knowledge_chunks(
+  p_collection_id uuid,
+  p_embedding extensions.vector(1536),
+  p_limit integer default 5
+)
+returns table (
+  id bigint,
+  document_id uuid,
+  document_name text,
+  "position" integer,
+  content text,
+  similarity double precision
+)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select k.id, k.document_id, d.name, k.position, k.content,
+         1 - (k.embedding <=> p_embedding) as similarity
+  from public.knowledge_chunks k
+  join public.knowledge_documents d on d.id = k.document_id
+  where k.collection_id = p_collection_id
+  order by k.embedding <=> p_embedding
+  limit p_limit;
+$$;
+
+-- Called by the API with the service role only, after checking the owner
+revoke execute on function public.match_knowledge_chunks(uuid, extensions.vector, integer)
+  from public, anon, authenticated;
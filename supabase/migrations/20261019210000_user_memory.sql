@@ -0,0 +1,52 @@
+-- Long-term memory: durable facts about a user ("prefers TypeScript") picked
+-- out of their conversations and recalled in later chats. Off until the user
+-- turns it on in their settings (GET /api/memories to review them).
+alter table public.profile
+  add column if not exists memory_enabled boolean not null default false;
+
+-- The dimension must match EMBEDDING_DIMENSIONS in the API
+create table if not exists public.memories (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  content text not null,
+  embedding extensions.vector(1536) not null,
+  -- The chat the fact was learned from; kept when the chat is deleted
+  source_chat_id uuid references public.chats(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists memories_user_id_idx on public.memories(user_id);
+
+alter table public.memories enable row level security;
+
+create policy "Users can read their own memories"
+  on public.memories for select
+  using (auth.uid() = user_id);
+
+-- The `p_limit` memories of a user closest to `p_embedding` by cosine
+-- distance, most similar first.
+create or replace function public.match_memories(
+  p_user_id uuid,
+  p_embedding extensions.vector(1536),
+  p_limit integer default 10
+)
+returns table (
+  id uuid,
+  content text,
+  similarity double precision
+)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select m.id, m.content, 1 - (m.embedding <=> p_embedding) as similarity
+  from public.memories m
+  where m.user_id = p_user_id
+  order by m.embedding <=> p_embedding
+  limit p_limit;
+$$;
+
+-- Called by the API with the service role only
+revoke execute on function public.match_memories(uuid, extensions.vector, integer)
+  from public, anon, authenticated;
@@ -0,0 +1,73 @@
+-- Chats imported from other apps (POST /api/chat/import) remember where they
+-- came from, so importing the same export again skips them:
+--   chatgpt  – a conversation of ChatGPT's `conversations.json`, by its id
+--   safargpt – a chat of a SafarGPT JSON export, by its original chat id
+alter table public.chats
+  add column if not exists import_source text
+    check (import_source in ('chatgpt', 'safargpt')),
+  add column if not exists import_id text;
+
+create unique index if not exists chats_import_idx
+  on public.chats(user_id, import_source, import_id)
+  where import_id is not null;
+
+-- Store an imported chat and its messages in one transaction, so a
+-- conversation is either imported whole or not at all. `p_messages` lists
+-- parents before their children; each message's `parent` is the index of its
+-- parent in that list (null for first messages). Returns the new chat's id.
+create or replace function public.import_chat(p_chat jsonb, p_messages jsonb)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_chat_id uuid;
+  v_message jsonb;
+  v_message_id bigint;
+  v_ids bigint[] := '{}';
+begin
+  insert into public.chats (
+    user_id, title, title_source, import_source, import_id, created_at
+  )
+  values (
+    (p_chat->>'user_id')::uuid,
+    p_chat->>'title',
+    p_chat->>'title_source',
+    p_chat->>'import_source',
+    p_chat->>'import_id',
+    (p_chat->>'created_at')::timestamptz
+  )
+  returning id into v_chat_id;
+
+  for v_message in
+    select value from jsonb_array_elements(p_messages) with ordinality
+    order by ordinality
+  loop
+    insert into public.messages (
+      chat_id, parent_id, role, content, model, interrupted, tool_call,
+      sources, created_at
+    )
+    values (
+      v_chat_id,
+      -- Arrays are 1-based; a null index gives a null parent
+      v_ids[(v_message->>'parent')::integer + 1],
+      v_message->>'role',
+      v_message->>'content',
+      v_message->>'model',
+      coalesce((v_message->>'interrupted')::boolean, false),
+      nullif(v_message->'tool_call', 'null'::jsonb),
+      nullif(v_message->'sources', 'null'::jsonb),
+      (v_message->>'created_at')::timestamptz
+    )
+    returning id into v_message_id;
+
+    v_ids := v_ids || v_message_id;
+  end loop;
+
+  return v_chat_id;
+end;
+$$;
+
+-- Called by the API with the service role only
+revoke execute on function public.import_chat(jsonb, jsonb)
+  from public, anon, authenticated;
@@ -0,0 +1,22 @@
+-- Public read-only links to a chat (POST /api/chat/:id/share). Each link
+-- holds a frozen snapshot of the conversation as it was shared, in the JSON
+-- export format, so later messages stay private. Anyone with the unguessable
+-- `token` can read it through GET /api/share/:token; the owner can revoke it.
+create table if not exists public.chat_shares (
+  id uuid primary key default uuid_generate_v4(),
+  token text not null unique,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- Deleting the chat revokes its links
+  chat_id uuid not null references public.chats(id) on delete cascade,
+  title text,
+  snapshot jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_shares_user_id_idx on public.chat_shares(user_id);
+
+alter table public.chat_shares enable row level security;
+
+create policy "Users can read their own share links"
+  on public.chat_shares for select
+  using (auth.uid() = user_id);